@@ -0,0 +1,83 @@
+/**
+ * Backtest Runner
+ * Replays recorded trade plans over historical bars fully offline
+ *
+ * Usage:
+ *   deno task backtest --prices fixtures/backtest/prices.csv --plans fixtures/backtest/plans.json \
+ *     [--snapshots fixtures/backtest/snapshots.json] [--balance 100000] [--slippage-bps 5] \
+ *     [--commission 0] [--out ./backtest-results] [--quiet]
+ */
+
+import { Logger } from './utils/logger.ts';
+import { BacktestService, BacktestOptions } from './services/backtestService.ts';
+import { TradingLogger } from './types/interfaces.ts';
+
+function parseArgs(args: string[]): Record<string, string | boolean> {
+  const parsed: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) continue;
+
+    const key = arg.slice(2);
+    const next = args[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      parsed[key] = next;
+      i++;
+    } else {
+      parsed[key] = true;
+    }
+  }
+
+  return parsed;
+}
+
+async function runBacktest() {
+  const args = parseArgs(Deno.args);
+
+  if (typeof args.prices !== 'string' || typeof args.plans !== 'string') {
+    console.log('❌ Missing required arguments: --prices <csv|json> --plans <json>');
+    Deno.exit(1);
+  }
+
+  // The strategy services log every decision; --quiet keeps only the final report
+  const logger: TradingLogger = args.quiet ? { log: () => {} } : new Logger();
+  const backtestService = new BacktestService(logger);
+
+  const fixtures = await backtestService.loadFixtures({
+    prices: args.prices,
+    plans: args.plans,
+    snapshots: typeof args.snapshots === 'string' ? args.snapshots : undefined
+  });
+
+  const options: Partial<BacktestOptions> = {};
+  if (typeof args.balance === 'string') options.starting_balance = Number(args.balance);
+  if (typeof args['slippage-bps'] === 'string') options.slippage_bps = Number(args['slippage-bps']);
+  if (typeof args.commission === 'string') options.commission_per_share = Number(args.commission);
+
+  const result = await backtestService.runBacktest(fixtures, options);
+  const summary = result.summary;
+
+  console.log('\n📋 Backtest Results:');
+  console.log(`   Period:        ${summary.start_date} → ${summary.end_date} (${summary.trading_days} days)`);
+  console.log(`   Trades:        ${summary.trades_taken} taken / ${summary.trades_planned} planned (${summary.trades_filtered} filtered)`);
+  console.log(`   Win Rate:      ${(summary.win_rate * 100).toFixed(1)}%`);
+  console.log(`   Avg Return:    ${(summary.avg_return * 100).toFixed(2)}%`);
+  console.log(`   Profit Factor: ${summary.profit_factor === null ? 'n/a (no losing trades)' : summary.profit_factor.toFixed(2)}`);
+  console.log(`   Total Return:  ${(summary.total_return * 100).toFixed(2)}%`);
+  console.log(`   Max Drawdown:  ${(summary.max_drawdown * 100).toFixed(2)}%`);
+  console.log(`   Final Equity:  $${summary.ending_equity.toFixed(2)}`);
+
+  if (typeof args.out === 'string') {
+    await Deno.mkdir(args.out, { recursive: true });
+    await Deno.writeTextFile(`${args.out}/summary.json`, JSON.stringify(result, null, 2));
+    await Deno.writeTextFile(`${args.out}/ledger.csv`, backtestService.ledgerToCsv(result.ledger));
+    await Deno.writeTextFile(`${args.out}/equity_curve.csv`, backtestService.equityCurveToCsv(result.equity_curve));
+    console.log(`\n💾 Results written to ${args.out}`);
+  }
+}
+
+// Run backtest if this script is executed directly
+if (import.meta.main) {
+  await runBacktest();
+}
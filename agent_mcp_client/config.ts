@@ -2,18 +2,25 @@
  * Configuration settings for the Ada Analytics Trading Agent
  */
 
-import { MCPServerConfig, EmailConfig, WebServerConfig } from './types/interfaces.ts';
+import { MCPServerConfig, RemoteMCPServerConfig, EmailConfig, WebServerConfig, LotMatchingMethod, EntryExecutionStyle, LLMProviderName, QuiverCollectionStep, AltDataSignal } from './types/interfaces.ts';
+
+// Remote MCP servers, used in every environment and in place of the local process
+function getRemoteMCPServers(): Record<string, RemoteMCPServerConfig> {
+  const quiverUrl = Deno.env.get('QUIVER_MCP_URL');
+  return quiverUrl
+    ? { "quiver-quant": { url: quiverUrl, auth_token: Deno.env.get('QUIVER_MCP_AUTH_TOKEN') || undefined } }
+    : {};
+}
 
 // Function to get MCP Server Configuration
-export async function getMCPServers(): Promise<Record<string, MCPServerConfig>> {
+export async function getMCPServers(): Promise<Record<string, MCPServerConfig | RemoteMCPServerConfig>> {
   // Check if running in Railway environment
   const isRailway = Deno.env.get('RAILWAY_ENVIRONMENT') || Deno.env.get('PORT');
   
   if (isRailway) {
-    // Railway environment detected - using direct API calls
-    // In Railway, we'll use direct API calls instead of MCP servers
-    // This is more reliable and cost-effective
-    return {};
+    // Railway cannot spawn local stdio servers: Alpaca and Supabase are reached through their
+    // APIs directly, and only MCP servers exposed over HTTP (see getRemoteMCPServers) are connected
+    return getRemoteMCPServers();
   }
   
   let pythonCommand = "python3";
@@ -46,11 +53,14 @@ export async function getMCPServers(): Promise<Record<string, MCPServerConfig>>
     },
     "quiver-quant": {
       command: "deno",
-      args: ["run", "--allow-net", "--allow-env", "../quiver-mcp-server/main.ts"],
+      args: ["run", "--allow-net", "--allow-env", "--allow-read=../quiver-mcp-server/fixtures", "../quiver-mcp-server/main.ts"],
       env: {
-        QUIVER_API_TOKEN: Deno.env.get('QUIVER_API_TOKEN') || ""
+        QUIVER_API_TOKEN: Deno.env.get('QUIVER_API_TOKEN') || "",
+        QUIVER_MODE: Deno.env.get('QUIVER_MODE') || "live", // "fixture" serves recorded data without a token
+        QUIVER_SIMULATED_NOW: Deno.env.get('QUIVER_SIMULATED_NOW') || ""
       }
-    }
+    },
+    ...getRemoteMCPServers()
   };
 }
 
@@ -103,6 +113,8 @@ export const TRADING_CONFIG = {
   MARKET_CLOSE_HOUR: 16,
   MARKET_CLOSE_MINUTE: 0,
   REQUEST_DELAY_MS: 1000, // 1 second delay between requests
+  CLIENT_ORDER_LOOKUP_LIMIT: 500, // Recent orders searched for an existing client_order_id
+  ENTRY_FILL_CHECKS: 3, // Status reads (REQUEST_DELAY_MS apart) before a market entry is left to the order tracker
   // Enhanced Exit Strategy
   BATCH_EXIT_LEVELS: [0.50, 0.30, 0.20], // 50%, 30%, 20%
   BATCH_PROFIT_LEVELS: [0.10, 0.15, 0.20] // +10%, +15%, +20%
@@ -119,10 +131,24 @@ export const EMAIL_CONFIG: EmailConfig = {
 };
 
 // Cron Schedule Configuration
+// Cron runs in server time, so exchange-time jobs tick often and are gated by utils/marketCalendar.ts
 export const CRON_SCHEDULES = {
-  DAILY_TRADING: "0 6 * * 1-5",      // 6 AM EST, weekdays
-  END_OF_DAY_SUMMARY: "0 17 * * 1-5", // 5 PM EST, weekdays
-  WEEKLY_CLEANUP: "0 0 * * 0"         // Sunday midnight
+  DAILY_TRADING: "0 * * * *",        // Hourly; runs at MARKET_CALENDAR_CONFIG.DAILY_TRADING_HOUR ET on trading days
+  END_OF_DAY_SUMMARY: "0 * * * *",   // Hourly; runs at MARKET_CALENDAR_CONFIG.END_OF_DAY_SUMMARY_HOUR ET on trading days
+  WEEKLY_CLEANUP: "0 0 * * 0",        // Sunday midnight
+  POSITION_MONITOR: "* * * * *",      // Every minute; runs while the market is open
+  CIRCUIT_BREAKER: "*/5 * * * *",     // Every 5 minutes; runs while the market is open
+  RECONCILIATION: "*/5 * * * *"       // Every 5 minutes; runs once per trading day after the close
+};
+
+// Market Calendar Configuration (NYSE, in exchange time)
+export const MARKET_CALENDAR_CONFIG = {
+  TIMEZONE: 'America/New_York',
+  EARLY_CLOSE_HOUR: 13, // 1 PM close on early-close days
+  DAILY_TRADING_HOUR: 6, // 6 AM ET data collection and planning
+  END_OF_DAY_SUMMARY_HOUR: 17, // 5 PM ET summary
+  AGENT_WINDOW_START_HOUR: 6, // Agent runs between these hours on trading days
+  AGENT_WINDOW_END_HOUR: 17
 };
 
 // Database Configuration
@@ -133,6 +159,12 @@ export const DATABASE_CONFIG = {
   SYMBOL_ANALYSIS_DAYS: 180
 };
 
+// Trade Ledger Configuration
+export const LEDGER_CONFIG = {
+  LOT_MATCHING_METHOD: 'FIFO' as LotMatchingMethod,
+  ENTRY_LOOKBACK_DAYS: 365 // Extra history loaded so exits in the window find their entries
+};
+
 // AI/Claude Configuration (Cost-optimized for <$8/month)
 export const AI_CONFIG = {
   MODEL: "claude-3-5-haiku-20241022", // Most cost-effective model ($0.25/1M tokens)
@@ -152,6 +184,25 @@ export const AI_CONFIG = {
   BATCH_REQUESTS: true // Combine multiple requests when possible
 };
 
+// LLM Provider Selection - 'fixture' replays recorded responses for offline runs
+export const LLM_CONFIG = {
+  PROVIDER: (Deno.env.get('LLM_PROVIDER') || 'anthropic') as LLMProviderName,
+  OPENAI_BASE_URL: Deno.env.get('LLM_BASE_URL') || 'http://localhost:11434/v1', // Ollama default
+  OPENAI_MODEL: Deno.env.get('LLM_MODEL') || 'llama3.1',
+  OPENAI_API_KEY: Deno.env.get('LLM_API_KEY') || null,
+  REQUEST_TIMEOUT_MS: 120000,
+  FIXTURE_PATH: Deno.env.get('LLM_FIXTURE_PATH') || './fixtures/llm/responses.json',
+  FIXTURE_MODE: (Deno.env.get('LLM_FIXTURE_MODE') || 'replay') as 'replay' | 'record',
+  RECORD_FROM: (Deno.env.get('LLM_RECORD_FROM') || 'anthropic') as Exclude<LLMProviderName, 'fixture'>
+};
+
+// AI Response Validation
+export const AI_VALIDATION_CONFIG = {
+  MAX_RETRIES: 1, // Re-ask once with the validation errors when a response fails
+  RECORD_FAILURES: true, // Store failures in ai_validation_failures to track prompt quality
+  MAX_STORED_RESPONSE_CHARS: 4000
+};
+
 // Web Server Configuration
 export const WEB_SERVER_CONFIG: WebServerConfig = {
   port: parseInt(Deno.env.get("PORT") || "8080"),
@@ -172,7 +223,9 @@ export const ENV_KEYS = {
   SUPABASE_SERVICE_ROLE_KEY: 'SUPABASE_SERVICE_ROLE_KEY',
   SUPABASE_PROJECT_REF: 'SUPABASE_PROJECT_REF',
   QUIVER_API_TOKEN: 'QUIVER_API_TOKEN',
-  DISABLE_EMAILS: 'DISABLE_EMAILS'
+  DISABLE_EMAILS: 'DISABLE_EMAILS',
+  BROKER_MODE: 'BROKER_MODE',
+  LLM_PROVIDER: 'LLM_PROVIDER'
 };
 
 // Logging Configuration
@@ -197,22 +250,45 @@ export const LOGGING_CONFIG = {
 
 // Market Data Collection Configuration
 export const MARKET_DATA_CONFIG = {
-  MAX_TOOLS_PER_COLLECTION: 5,
-  TOOL_FILTERS: [
-    'data',
-    'market',
-    'sentiment',
-    'options',
-    'insider'
-  ],
-  REQUEST_DELAY_MS: 1000, // 1 second between requests
-  DEFAULT_LIMIT: 50,
-  DEFAULT_TIMEFRAME: '1d'
+  // Quiver tools called by collectMarketData, in order; results land under output_key.
+  // format 'json' asks for typed records; servers without it answer in text, which is still parsed.
+  COLLECTION_PLAN: [
+    { tool: 'get_live_congress_trading', arguments: { normalized: true, format: 'json' }, output_key: 'congress_trading', max_records: 50, enabled: true },
+    { tool: 'get_live_insider_trading', arguments: { format: 'json' }, output_key: 'insider_trading', max_records: 50, enabled: true },
+    { tool: 'get_live_sec13f_changes', arguments: { format: 'json' }, output_key: 'sec13f_changes', max_records: 50, enabled: true },
+    { tool: 'get_live_off_exchange', arguments: { format: 'json' }, output_key: 'off_exchange', max_records: 50, enabled: true },
+    { tool: 'get_live_etf_holdings', arguments: { format: 'json' }, output_key: 'etf_holdings', max_records: 25, enabled: true },
+    { tool: 'get_live_lobbying', arguments: { format: 'json' }, output_key: 'lobbying', max_records: 25, enabled: true }
+  ] as QuiverCollectionStep[],
+  REQUEST_DELAY_MS: 1000 // 1 second between requests
+};
+
+// Alternative-Data Signal Scoring
+export const ALT_DATA_SIGNAL_CONFIG = {
+  // MarketDataResponse keys (collection plan output_key) each signal is read from
+  SOURCE_KEYS: {
+    congress: 'congress_trading',
+    insider: 'insider_trading',
+    institutional: 'sec13f_changes',
+    dark_pool: 'off_exchange'
+  } as Record<AltDataSignal, string>,
+  HALF_LIFE_DAYS: { congress: 14, insider: 7, institutional: 30, dark_pool: 3 } as Record<AltDataSignal, number>,
+  MAX_AGE_DAYS: 90, // Older records are ignored
+  // Decayed net dollars that score tanh(1) = 0.76
+  USD_SCALES: { congress: 250_000, insider: 1_000_000, institutional: 50_000_000 },
+  INSIDER_CLUSTER_WINDOW_DAYS: 14,
+  INSIDER_CLUSTER_MIN_BUYERS: 3,
+  INSIDER_CLUSTER_BONUS: 0.3,
+  DARK_POOL_ZSCORE_SCALE: 2, // z-score that scores tanh(1)
+  DARK_POOL_MIN_HISTORY: 3,  // Records per ticker before comparing against its own history
+  WEIGHTS: { congress: 0.25, insider: 0.35, institutional: 0.2, dark_pool: 0.2 } as Record<AltDataSignal, number>,
+  PROMPT_TOP_TICKERS: 15
 };
 
 // File Paths
 export const FILE_PATHS = {
   AGENT_STATE: './agent_state.json',
+  EXIT_STRATEGIES: './exit_strategies.json',
   LOG_FILE: './trading_agent.log'
 };
 
@@ -268,6 +344,132 @@ export const PERFORMANCE_THRESHOLDS = {
   AVOID_CONFIDENCE: 0.5
 };
 
+// Pre-trade Risk Limits (exposure limits are fractions of account equity)
+export const RISK_LIMITS_CONFIG = {
+  ENABLED: true,
+  MAX_GROSS_EXPOSURE: 1.0,
+  MAX_NET_EXPOSURE: 0.8,
+  MAX_SYMBOL_CONCENTRATION: 0.10,
+  MAX_SECTOR_CONCENTRATION: 0.30,
+  MAX_CORRELATED_POSITIONS: 3, // Max symbols held from any one correlation group
+  DAILY_LOSS_LIMIT: 0.02, // No new risk once the day is down 2%
+  MAX_OPEN_POSITIONS: 10,
+  SECTOR_MAP: {
+    AAPL: 'Technology', MSFT: 'Technology', GOOGL: 'Communication Services', GOOG: 'Communication Services',
+    META: 'Communication Services', NFLX: 'Communication Services', AMZN: 'Consumer Discretionary',
+    TSLA: 'Consumer Discretionary', NVDA: 'Technology', AMD: 'Technology', INTC: 'Technology',
+    AVGO: 'Technology', CRM: 'Technology', ORCL: 'Technology', JPM: 'Financials', BAC: 'Financials',
+    GS: 'Financials', MS: 'Financials', V: 'Financials', MA: 'Financials', XOM: 'Energy', CVX: 'Energy',
+    JNJ: 'Health Care', PFE: 'Health Care', UNH: 'Health Care', LLY: 'Health Care',
+    WMT: 'Consumer Staples', KO: 'Consumer Staples', PG: 'Consumer Staples'
+  } as Record<string, string>, // Symbols not listed skip the sector check
+  CORRELATION_GROUPS: {
+    mega_cap_tech: ['AAPL', 'MSFT', 'GOOGL', 'GOOG', 'META', 'AMZN', 'NFLX'],
+    semiconductors: ['NVDA', 'AMD', 'INTC', 'AVGO', 'TSM', 'QCOM', 'MU'],
+    large_banks: ['JPM', 'BAC', 'GS', 'MS', 'WFC', 'C'],
+    oil_majors: ['XOM', 'CVX', 'COP'],
+    broad_index: ['SPY', 'QQQ', 'IWM', 'DIA', 'VOO']
+  } as Record<string, string[]>
+};
+
+// Circuit Breaker - pauses the agent on a bad day or a losing streak
+export const CIRCUIT_BREAKER_CONFIG = {
+  ENABLED: true,
+  DAILY_LOSS_LIMIT: 0.03, // Trip once the day is down 3% of start-of-day equity
+  FLATTEN_POSITIONS: false, // Also close every open position with market orders
+  CANCEL_CONFIRM_CHECKS: 20, // Open-order reads before flattening, CANCEL_CONFIRM_DELAY_MS apart
+  CANCEL_CONFIRM_DELAY_MS: 500
+};
+
+// Price Data (OHLCV bars and quotes for breakout indicators)
+export const PRICE_DATA_CONFIG = {
+  MODE: (Deno.env.get('PRICE_DATA_MODE') || 'alpaca') as 'alpaca' | 'fixture',
+  DATA_URL: 'https://data.alpaca.markets/v2',
+  // Asset status lookups go to the trading API
+  TRADING_URL: Deno.env.get('ALPACA_PAPER_TRADE') !== 'False' ? 'https://paper-api.alpaca.markets/v2' : 'https://api.alpaca.markets/v2',
+  FEED: Deno.env.get('ALPACA_DATA_FEED') || 'iex', // 'sip' requires a paid Alpaca data plan
+  FIXTURE_PATH: Deno.env.get('PRICE_DATA_FIXTURE_PATH') || './fixtures/backtest/prices.csv', // CSV or JSON bars
+  HISTORY_BARS: 60, // Daily bars fetched per symbol; SMA50 and MACD need at least 50
+  LOOKBACK_BARS: 20, // Daily bars used for breakout volume, momentum and volatility
+  SHORT_VOLATILITY_BARS: 5, // Recent returns compared against the full lookback
+  MAX_CANDIDATE_SYMBOLS: 25 // Symbols from the collected market data that get bars and indicators
+};
+
+// Candidate Universe Configuration
+export const UNIVERSE_CONFIG = {
+  ENABLED: true,
+  MAX_WATCHLIST_SIZE: 15,
+  MIN_PRICE: 5,
+  MAX_PRICE: 2000,
+  MIN_AVG_DOLLAR_VOLUME: 10_000_000, // Mean close x volume over PRICE_DATA_CONFIG.LOOKBACK_BARS
+  MIN_SIGNAL_STRENGTH: 0.05, // Absolute composite score; weaker tickers are noise
+  REQUIRE_TRADABLE: true, // Drop symbols Alpaca reports as inactive or not tradable
+  // Comma-separated tickers; included symbols skip the signal, price and liquidity filters
+  INCLUDE_SYMBOLS: (Deno.env.get('UNIVERSE_INCLUDE') || '').split(',').map(s => s.trim().toUpperCase()).filter(Boolean),
+  EXCLUDE_SYMBOLS: (Deno.env.get('UNIVERSE_EXCLUDE') || '').split(',').map(s => s.trim().toUpperCase()).filter(Boolean)
+};
+
+// Intraday Position Monitor Configuration
+export const POSITION_MONITOR_CONFIG = {
+  ENABLED: true,
+  EXIT_ORDER_TIME_IN_FORCE: 'day' as const,
+  REQUEST_DELAY_MS: 250, // Delay between price polls
+  CANCEL_CONFIRM_CHECKS: 10 // Status reads (REQUEST_DELAY_MS apart) waiting for released protective orders
+};
+
+// Order Tracker - polls submitted orders until the broker reports a final state
+export const ORDER_TRACKER_CONFIG = {
+  ENABLED: true,
+  POLL_INTERVAL_MS: 5000,
+  TIMEOUT_MINUTES: 15 // Counted from the market open when an order is submitted while closed
+};
+
+// Entry Execution Configuration - how planned entries are sent to the broker
+export const ENTRY_EXECUTION_CONFIG = {
+  STYLE: (Deno.env.get('ENTRY_EXECUTION_STYLE') || 'market') as EntryExecutionStyle,
+  MARKETABLE_LIMIT_COLLAR: 0.002, // Limit 0.2% through the quote (above the ask for buys, below the bid for sells)
+  TWAP_WINDOW_MINUTES: 30, // Slices are spread evenly over this window
+  TWAP_SLICES: 6,
+  CANCEL_AFTER_MINUTES: 30 // Unfilled remainder cancelled this long after submission (after the window for TWAP)
+};
+
+// Broker Reconciliation Configuration - diffs broker positions and orders against the trades table
+export const RECONCILIATION_CONFIG = {
+  ENABLED: true,
+  POST_CLOSE_DELAY_MINUTES: 10, // Lets closing fills settle before the after-close run
+  QUANTITY_TOLERANCE: 0.0001, // Share difference still treated as equal (fractional shares)
+  TRADE_HISTORY_LIMIT: 100, // Most recent trade rows kept in AgentState.trade_history
+  HEAL_MISSING_STOPS: true, // Re-place a stop at the entry's stop_loss when a held position has none
+  CANCEL_ORPHAN_EXIT_ORDERS: true // Cancel our exit orders resting on symbols with no position
+};
+
+// Broker Selection - 'auto' picks DirectAlpacaService on Railway and TradingService locally
+export const BROKER_CONFIG = {
+  MODE: (Deno.env.get('BROKER_MODE') || 'auto') as 'auto' | 'mcp' | 'direct' | 'simulated'
+};
+
+// Simulated Broker Configuration
+export const SIMULATED_BROKER_CONFIG = {
+  STARTING_BALANCE: 100000,
+  PRICE_FEED_PATH: './fixtures/simulated_broker/price_feed.json',
+  TICK_INTERVAL_MS: 60000, // Wall-clock time per feed tick; 0 = advance manually
+  SLIPPAGE_BPS: 5, // Adverse slippage on market and triggered stop fills
+  COMMISSION_PER_SHARE: 0.005,
+  MIN_COMMISSION: 1,
+  PARTICIPATION_RATE: 0.1, // Max share of a tick's volume that can fill per symbol
+  ALLOW_SHORTING: false,
+  REJECT_SYMBOLS: [] as string[] // Orders for these symbols are always rejected
+};
+
+// Backtest Configuration
+export const BACKTEST_CONFIG = {
+  STARTING_BALANCE: 100000,
+  SLIPPAGE_BPS: 5, // 0.05% adverse slippage on every fill
+  COMMISSION_PER_SHARE: 0,
+  LOOKBACK_BARS: 20, // Bars of history exposed to each simulated day
+  CLOSE_OPEN_POSITIONS_AT_END: true
+};
+
 /**
  * Get environment variables as object
  */
@@ -288,8 +490,11 @@ export function getEnvObject(): Record<string, string> {
  * Validate required environment variables
  */
 export function validateEnvironment(): { valid: boolean; missing: string[] } {
+  const usesAnthropic = LLM_CONFIG.PROVIDER === 'anthropic' ||
+    (LLM_CONFIG.PROVIDER === 'fixture' && LLM_CONFIG.FIXTURE_MODE === 'record' && LLM_CONFIG.RECORD_FROM === 'anthropic');
+
   const required = [
-    ENV_KEYS.ANTHROPIC_API_KEY,
+    ...(usesAnthropic ? [ENV_KEYS.ANTHROPIC_API_KEY] : []),
     ENV_KEYS.ALPACA_API_KEY,
     ENV_KEYS.ALPACA_SECRET_KEY,
     ENV_KEYS.SUPABASE_ACCESS_TOKEN,
@@ -317,46 +522,3 @@ export function validateEnvironment(): { valid: boolean; missing: string[] } {
 export function isEmailConfigured(): boolean {
   return !!Deno.env.get(ENV_KEYS.RESEND_API_KEY);
 }
-
-/**
- * Get current market hours status
- */
-export function isMarketHours(): boolean {
-  const now = new Date();
-  const hour = now.getHours();
-  const minute = now.getMinutes();
-  const day = now.getDay();
-  
-  // Check if it's a weekday (Monday = 1, Friday = 5)
-  if (day === 0 || day === 6) {
-    return false;
-  }
-  
-  // Check if within market hours (9:30 AM - 4:00 PM EST)
-  const currentTime = hour * 60 + minute;
-  const marketOpen = TRADING_CONFIG.MARKET_OPEN_HOUR * 60 + TRADING_CONFIG.MARKET_OPEN_MINUTE;
-  const marketClose = TRADING_CONFIG.MARKET_CLOSE_HOUR * 60 + TRADING_CONFIG.MARKET_CLOSE_MINUTE;
-  
-  return currentTime >= marketOpen && currentTime < marketClose;
-}
-
-/**
- * Get next market open time
- */
-export function getNextMarketOpen(): Date {
-  const now = new Date();
-  const marketOpen = new Date();
-  marketOpen.setHours(TRADING_CONFIG.MARKET_OPEN_HOUR, TRADING_CONFIG.MARKET_OPEN_MINUTE, 0, 0);
-  
-  // If market already opened today or it's weekend, move to next weekday
-  if (now >= marketOpen || now.getDay() === 0 || now.getDay() === 6) {
-    marketOpen.setDate(marketOpen.getDate() + 1);
-    
-    // Skip weekends
-    while (marketOpen.getDay() === 0 || marketOpen.getDay() === 6) {
-      marketOpen.setDate(marketOpen.getDate() + 1);
-    }
-  }
-  
-  return marketOpen;
-}
\ No newline at end of file
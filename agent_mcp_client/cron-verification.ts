@@ -2,10 +2,11 @@
 
 /**
  * Cron Job Verification Script
- * Verifies that the trading agent will execute Monday morning at 6 AM EST
+ * Verifies that the trading agent will execute at 6 AM ET on trading days, whatever the server timezone
  */
 
-import { CRON_SCHEDULES, TRADING_CONFIG } from './config.ts';
+import { CRON_SCHEDULES, TRADING_CONFIG, MARKET_CALENDAR_CONFIG } from './config.ts';
+import { toExchangeTime, isTradingDayHour, getHoliday, getSession, formatExchangeTime } from './utils/marketCalendar.ts';
 
 function parseCronExpression(expression: string): {
   minute: string;
@@ -24,58 +25,31 @@ function parseCronExpression(expression: string): {
   };
 }
 
-function getNextExecutionTime(cronExpression: string): Date[] {
+/**
+ * Simulate the hourly cron ticks over the next 7 days and keep those that pass the calendar gate
+ */
+function getNextExecutionTime(exchangeHour: number): Date[] {
   const now = new Date();
   const nextExecutions: Date[] = [];
-  
-  // Parse the cron expression
-  const { minute, hour, dayOfWeek } = parseCronExpression(cronExpression);
-  
-  // For the next 7 days, check when it will execute
-  for (let i = 0; i < 7; i++) {
-    const testDate = new Date(now);
-    testDate.setDate(now.getDate() + i);
-    
-    const dayOfWeekNum = testDate.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const currentHour = testDate.getHours();
-    const currentMinute = testDate.getMinutes();
-    
-    // Check if this day matches the day of week pattern
-    const dayMatches = dayOfWeek === '*' || 
-                      (dayOfWeek === '1-5' && dayOfWeekNum >= 1 && dayOfWeekNum <= 5) ||
-                      dayOfWeek === dayOfWeekNum.toString();
-    
-    if (dayMatches) {
-      // Create execution time for this day
-      const executionTime = new Date(testDate);
-      executionTime.setHours(parseInt(hour), parseInt(minute), 0, 0);
-      
-      // Only include future executions
-      if (executionTime > now) {
-        nextExecutions.push(executionTime);
-      }
+
+  const tick = new Date(now);
+  tick.setUTCMinutes(0, 0, 0);
+  for (let i = 0; i < 7 * 24; i++) {
+    tick.setTime(tick.getTime() + 3600000);
+    if (isTradingDayHour(exchangeHour, tick)) {
+      nextExecutions.push(new Date(tick));
     }
   }
-  
-  return nextExecutions;
-}
 
-function formatDate(date: Date): string {
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const months = [
-    'January', 'February', 'March', 'April', 'May', 'June',
-    'July', 'August', 'September', 'October', 'November', 'December'
-  ];
-  
-  return `${days[date.getDay()]}, ${months[date.getMonth()]} ${date.getDate()}, ${date.getFullYear()} at ${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')} EST`;
+  return nextExecutions;
 }
 
 function main() {
   console.log('🧪 Cron Job Verification Script\n');
   
   console.log('📅 Current Cron Schedules:');
-  console.log(`- DAILY_TRADING: "${CRON_SCHEDULES.DAILY_TRADING}" (6 AM EST, weekdays)`);
-  console.log(`- END_OF_DAY_SUMMARY: "${CRON_SCHEDULES.END_OF_DAY_SUMMARY}" (5 PM EST, weekdays)`);
+  console.log(`- DAILY_TRADING: "${CRON_SCHEDULES.DAILY_TRADING}" (gated to ${MARKET_CALENDAR_CONFIG.DAILY_TRADING_HOUR}:00 ET, trading days)`);
+  console.log(`- END_OF_DAY_SUMMARY: "${CRON_SCHEDULES.END_OF_DAY_SUMMARY}" (gated to ${MARKET_CALENDAR_CONFIG.END_OF_DAY_SUMMARY_HOUR}:00 ET, trading days)`);
   console.log(`- WEEKLY_CLEANUP: "${CRON_SCHEDULES.WEEKLY_CLEANUP}" (Sunday midnight)\n`);
   
   console.log('🔍 Parsing DAILY_TRADING schedule:');
@@ -84,56 +58,62 @@ function main() {
   console.log(`- Hour: ${dailyTrading.hour}`);
   console.log(`- Day of Month: ${dailyTrading.dayOfMonth}`);
   console.log(`- Month: ${dailyTrading.month}`);
-  console.log(`- Day of Week: ${dailyTrading.dayOfWeek} (1-5 = Monday-Friday)\n`);
+  console.log(`- Day of Week: ${dailyTrading.dayOfWeek}`);
+  console.log(`- Server timezone: ${Intl.DateTimeFormat().resolvedOptions().timeZone}\n`);
   
   console.log('⏰ Next 5 execution times for DAILY_TRADING:');
-  const nextExecutions = getNextExecutionTime(CRON_SCHEDULES.DAILY_TRADING);
+  const nextExecutions = getNextExecutionTime(MARKET_CALENDAR_CONFIG.DAILY_TRADING_HOUR);
   nextExecutions.slice(0, 5).forEach((execution, index) => {
-    console.log(`${index + 1}. ${formatDate(execution)}`);
+    console.log(`${index + 1}. ${formatExchangeTime(execution)}`);
   });
   
   console.log('\n✅ Verification Results:');
   
   // Check if Monday is included
-  const mondayExecutions = nextExecutions.filter(date => date.getDay() === 1);
+  const mondayExecutions = nextExecutions.filter(date => toExchangeTime(date).weekday === 1);
   if (mondayExecutions.length > 0) {
     console.log('✅ Monday executions are scheduled');
-    console.log(`   Next Monday execution: ${formatDate(mondayExecutions[0])}`);
+    console.log(`   Next Monday execution: ${formatExchangeTime(mondayExecutions[0])}`);
   } else {
-    console.log('❌ No Monday executions found');
+    console.log('⚠️ No Monday executions in the next 7 days (market holiday?)');
   }
   
-  // Check if it's at 6 AM
-  const sixAMExecutions = nextExecutions.filter(date => date.getHours() === 6);
-  if (sixAMExecutions.length > 0) {
-    console.log('✅ 6 AM executions are scheduled');
+  // Check if it's at 6 AM ET
+  const sixAMExecutions = nextExecutions.filter(date => toExchangeTime(date).hour === MARKET_CALENDAR_CONFIG.DAILY_TRADING_HOUR);
+  if (nextExecutions.length > 0 && sixAMExecutions.length === nextExecutions.length) {
+    console.log('✅ Executions are scheduled at 6 AM ET');
   } else {
-    console.log('❌ No 6 AM executions found');
+    console.log('❌ No 6 AM ET executions found');
   }
   
-  // Check if weekends are excluded
-  const weekendExecutions = nextExecutions.filter(date => date.getDay() === 0 || date.getDay() === 6);
-  if (weekendExecutions.length === 0) {
-    console.log('✅ Weekend executions are correctly excluded');
+  // Check if weekends and holidays are excluded
+  const closedDayExecutions = nextExecutions.filter(date => !getSession(toExchangeTime(date).date));
+  if (closedDayExecutions.length === 0) {
+    console.log('✅ Weekend and holiday executions are correctly excluded');
   } else {
-    console.log('❌ Weekend executions found (should be excluded)');
+    console.log('❌ Weekend or holiday executions found (should be excluded)');
   }
   
   console.log('\n📊 Market Hours Configuration:');
-  console.log(`- Market Open: ${TRADING_CONFIG.MARKET_OPEN_HOUR}:${TRADING_CONFIG.MARKET_OPEN_MINUTE.toString().padStart(2, '0')} EST`);
-  console.log(`- Market Close: ${TRADING_CONFIG.MARKET_CLOSE_HOUR}:${TRADING_CONFIG.MARKET_CLOSE_MINUTE.toString().padStart(2, '0')} EST`);
+  console.log(`- Market Open: ${TRADING_CONFIG.MARKET_OPEN_HOUR}:${TRADING_CONFIG.MARKET_OPEN_MINUTE.toString().padStart(2, '0')} ET`);
+  console.log(`- Market Close: ${TRADING_CONFIG.MARKET_CLOSE_HOUR}:${TRADING_CONFIG.MARKET_CLOSE_MINUTE.toString().padStart(2, '0')} ET (${MARKET_CALENDAR_CONFIG.EARLY_CLOSE_HOUR}:00 ET on early-close days)`);
+  const today = toExchangeTime();
+  const holiday = getHoliday(today.date);
+  if (holiday) {
+    console.log(`- Today (${today.date}) is a market holiday: ${holiday}`);
+  }
   console.log(`- Trading starts at 6 AM, waits for market open at 9:30 AM`);
   
   console.log('\n🎯 Summary:');
   console.log('The trading agent will:');
-  console.log('1. Wake up at 6 AM EST every weekday (Monday-Friday)');
+  console.log('1. Wake up at 6 AM ET every trading day (weekdays except NYSE holidays)');
   console.log('2. Collect market data and create trade plans');
   console.log('3. Send trade plan emails to configured recipients');
-  console.log('4. Wait for market open at 9:30 AM EST');
+  console.log('4. Wait for market open at 9:30 AM ET');
   console.log('5. Execute trades if conditions are met');
-  console.log('6. Send daily summary at 5 PM EST');
+  console.log('6. Send daily summary at 5 PM ET');
   
-  console.log('\n✅ Cron job configuration is correct for Monday morning execution!');
+  console.log('\n✅ Cron job configuration follows the exchange calendar!');
 }
 
 if (import.meta.main) {
@@ -0,0 +1,308 @@
+/**
+ * AI Response Validator - Parses Claude's JSON responses and checks them against the expected schema
+ * Invalid fields are repaired where the intent is clear (confidence given as a percentage,
+ * stop loss on the wrong side of the entry) and rejected otherwise (unknown symbols,
+ * non-positive prices or quantities).
+ */
+
+import { TradeDecision, PerformanceAnalysis, TradePlan, MarketDataResponse } from '../types/interfaces.ts';
+import { TRADING_CONFIG } from '../config.ts';
+
+export interface ValidationResult<T> {
+  value: T | null; // Null when the response could not be used at all
+  errors: string[]; // Problems that dropped data; these trigger the retry
+  repairs: string[]; // Fields that were corrected in place
+}
+
+export type TradePredictions = Pick<TradePlan, 'trades' | 'risk_assessment' | 'total_risk_exposure'>;
+export type TradePlanAdjustment = Partial<Pick<TradePlan, 'trades' | 'risk_assessment' | 'total_risk_exposure' | 'market_analysis'>>;
+
+const TICKER_PATTERN = /^[A-Z]{1,5}(\.[A-Z])?$/;
+const TICKER_FIELD_PATTERN = /\\*"(?:ticker|symbol)\\*"\s*:\s*\\*"([A-Za-z.]{1,7})\\*"/gi;
+
+export class AIResponseValidator {
+  private knownSymbols: Set<string>;
+
+  /**
+   * An empty symbol list accepts any well-formed ticker
+   */
+  constructor(knownSymbols: Iterable<string> = []) {
+    this.knownSymbols = new Set(Array.from(knownSymbols, symbol => symbol.toUpperCase()));
+  }
+
+  /**
+   * Collect the tickers that appear in collected market data
+   */
+  static symbolsFromMarketData(marketData: MarketDataResponse): string[] {
+    const symbols = new Set<string>(marketData.symbols || []);
+
+    for (const symbol of marketData.trading_performance?.symbols_traded || []) {
+      symbols.add(symbol);
+    }
+    for (const trade of marketData.recent_trades || []) {
+      if (trade.symbol) symbols.add(trade.symbol);
+    }
+
+    // Quiver results nest JSON inside text content, so match ticker fields in the serialized data
+    const serialized = JSON.stringify(marketData);
+    for (const match of serialized.matchAll(TICKER_FIELD_PATTERN)) {
+      symbols.add(match[1].toUpperCase());
+    }
+
+    return Array.from(symbols).filter(symbol => TICKER_PATTERN.test(symbol));
+  }
+
+  /**
+   * Extract the JSON object from a response, tolerating code fences and surrounding prose
+   */
+  parseJson(responseText: string): { value: Record<string, unknown> | null; error?: string } {
+    const fenced = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const start = responseText.indexOf('{');
+    const end = responseText.lastIndexOf('}');
+    const candidates = [
+      fenced?.[1],
+      responseText,
+      start >= 0 && end > start ? responseText.slice(start, end + 1) : undefined
+    ];
+
+    let lastError = 'no JSON object found in response';
+    for (const candidate of candidates) {
+      if (!candidate?.trim()) continue;
+      try {
+        const parsed = JSON.parse(candidate.trim());
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+          return { value: parsed as Record<string, unknown> };
+        }
+        lastError = 'response JSON is not an object';
+      } catch (error) {
+        lastError = `invalid JSON: ${error instanceof Error ? error.message : error}`;
+      }
+    }
+
+    return { value: null, error: lastError };
+  }
+
+  validatePredictions(responseText: string): ValidationResult<TradePredictions> {
+    const result: ValidationResult<TradePredictions> = { value: null, errors: [], repairs: [] };
+    const parsed = this.parseJson(responseText);
+    if (!parsed.value) {
+      result.errors.push(parsed.error as string);
+      return result;
+    }
+
+    const raw = parsed.value;
+    if (!Array.isArray(raw.trades)) {
+      result.errors.push('"trades" must be an array');
+    }
+
+    result.value = {
+      trades: this.validateTrades(Array.isArray(raw.trades) ? raw.trades : [], result),
+      risk_assessment: this.validateString(raw.risk_assessment, 'risk_assessment', result),
+      total_risk_exposure: this.validateExposure(raw.total_risk_exposure, result)
+    };
+    return result;
+  }
+
+  validatePerformanceAnalysis(responseText: string): ValidationResult<PerformanceAnalysis> {
+    const result: ValidationResult<PerformanceAnalysis> = { value: null, errors: [], repairs: [] };
+    const parsed = this.parseJson(responseText);
+    if (!parsed.value) {
+      result.errors.push(parsed.error as string);
+      return result;
+    }
+
+    const raw = parsed.value;
+    let shouldAdjust = false;
+    if (typeof raw.should_adjust === 'boolean') {
+      shouldAdjust = raw.should_adjust;
+    } else if (raw.should_adjust === 'true' || raw.should_adjust === 'false') {
+      shouldAdjust = raw.should_adjust === 'true';
+      result.repairs.push(`should_adjust: converted string "${raw.should_adjust}" to boolean`);
+    } else {
+      result.errors.push(`should_adjust: expected boolean, got ${JSON.stringify(raw.should_adjust)}`);
+    }
+
+    result.value = {
+      should_adjust: shouldAdjust,
+      performance_summary: this.validateString(raw.performance_summary, 'performance_summary', result),
+      suggested_adjustments: this.validateString(raw.suggested_adjustments, 'suggested_adjustments', result),
+      new_strategy_focus: this.validateString(raw.new_strategy_focus, 'new_strategy_focus', result)
+    };
+    return result;
+  }
+
+  /**
+   * Only the adjustable plan fields are kept; anything else in the response is dropped
+   */
+  validateAdjustment(responseText: string): ValidationResult<TradePlanAdjustment> {
+    const result: ValidationResult<TradePlanAdjustment> = { value: null, errors: [], repairs: [] };
+    const parsed = this.parseJson(responseText);
+    if (!parsed.value) {
+      result.errors.push(parsed.error as string);
+      return result;
+    }
+
+    const raw = parsed.value;
+    const adjustment: TradePlanAdjustment = {};
+
+    if (raw.trades !== undefined) {
+      if (Array.isArray(raw.trades)) {
+        adjustment.trades = this.validateTrades(raw.trades, result);
+      } else {
+        result.errors.push('"trades" must be an array');
+      }
+    }
+    if (raw.risk_assessment !== undefined) {
+      adjustment.risk_assessment = this.validateString(raw.risk_assessment, 'risk_assessment', result);
+    }
+    if (raw.total_risk_exposure !== undefined) {
+      adjustment.total_risk_exposure = this.validateExposure(raw.total_risk_exposure, result);
+    }
+    if (raw.market_analysis !== undefined) {
+      adjustment.market_analysis = this.validateString(raw.market_analysis, 'market_analysis', result);
+    }
+
+    const ignored = Object.keys(raw).filter(key => !['trades', 'risk_assessment', 'total_risk_exposure', 'market_analysis'].includes(key));
+    if (ignored.length > 0) {
+      result.repairs.push(`ignored unexpected fields: ${ignored.join(', ')}`);
+    }
+
+    result.value = adjustment;
+    return result;
+  }
+
+  // Private helper methods
+
+  private validateTrades(rawTrades: unknown[], result: ValidationResult<unknown>): TradeDecision[] {
+    const trades: TradeDecision[] = [];
+
+    rawTrades.forEach((rawTrade, index) => {
+      const trade = this.validateTrade(rawTrade, `trades[${index}]`, result);
+      if (trade) trades.push(trade);
+    });
+
+    return trades;
+  }
+
+  /**
+   * Returns null (and records an error) when the trade cannot be repaired
+   */
+  private validateTrade(rawTrade: unknown, path: string, result: ValidationResult<unknown>): TradeDecision | null {
+    if (!rawTrade || typeof rawTrade !== 'object') {
+      result.errors.push(`${path}: expected an object`);
+      return null;
+    }
+
+    const raw = rawTrade as Record<string, unknown>;
+    const reject = (reason: string): null => {
+      result.errors.push(`${path}${typeof raw.symbol === 'string' ? ` (${raw.symbol})` : ''}: ${reason} - trade rejected`);
+      return null;
+    };
+
+    const symbol = typeof raw.symbol === 'string' ? raw.symbol.trim().toUpperCase() : '';
+    if (!TICKER_PATTERN.test(symbol)) {
+      return reject(`invalid symbol ${JSON.stringify(raw.symbol)}`);
+    }
+    if (this.knownSymbols.size > 0 && !this.knownSymbols.has(symbol)) {
+      return reject(`unknown symbol ${symbol} (not in today's market data)`);
+    }
+    if (symbol !== raw.symbol) {
+      result.repairs.push(`${path}: normalized symbol "${raw.symbol}" to ${symbol}`);
+    }
+
+    const action = typeof raw.action === 'string' ? raw.action.trim().toUpperCase() : '';
+    if (action !== 'BUY' && action !== 'SELL') {
+      return reject(`action must be BUY or SELL, got ${JSON.stringify(raw.action)}`);
+    }
+    if (action !== raw.action) {
+      result.repairs.push(`${path}: normalized action "${raw.action}" to ${action}`);
+    }
+
+    const price = this.toNumber(raw.price_target);
+    if (price === null || price <= 0) {
+      return reject(`price_target must be a positive number, got ${JSON.stringify(raw.price_target)}`);
+    }
+
+    const rawQuantity = this.toNumber(raw.quantity);
+    if (rawQuantity === null || rawQuantity < 1) {
+      return reject(`quantity must be at least 1 share, got ${JSON.stringify(raw.quantity)}`);
+    }
+    const quantity = Math.floor(rawQuantity);
+    if (quantity !== rawQuantity) {
+      result.repairs.push(`${path}: rounded quantity ${rawQuantity} down to ${quantity}`);
+    }
+
+    let confidence = this.toNumber(raw.confidence);
+    if (confidence !== null && confidence > 1 && confidence <= 100) {
+      result.repairs.push(`${path}: converted confidence ${confidence} from percent to ${confidence / 100}`);
+      confidence = confidence / 100;
+    }
+    if (confidence === null || confidence < 0 || confidence > 1) {
+      return reject(`confidence must be between 0 and 1, got ${JSON.stringify(raw.confidence)}`);
+    }
+
+    // Protective levels must sit on the correct side of the entry; otherwise fall back to the default percentages
+    const direction = action === 'BUY' ? 1 : -1;
+    let stopLoss = this.toNumber(raw.stop_loss);
+    if (stopLoss === null || stopLoss <= 0 || (stopLoss - price) * direction >= 0) {
+      const repaired = this.round(price * (1 - direction * TRADING_CONFIG.STOP_LOSS_PERCENTAGE));
+      result.repairs.push(`${path}: stop_loss ${JSON.stringify(raw.stop_loss)} is invalid for a ${action} at ${price}; set to ${repaired}`);
+      stopLoss = repaired;
+    }
+
+    let takeProfit = this.toNumber(raw.take_profit);
+    if (takeProfit === null || takeProfit <= 0 || (takeProfit - price) * direction <= 0) {
+      const repaired = this.round(price * (1 + direction * TRADING_CONFIG.TAKE_PROFIT_PERCENTAGE));
+      result.repairs.push(`${path}: take_profit ${JSON.stringify(raw.take_profit)} is invalid for a ${action} at ${price}; set to ${repaired}`);
+      takeProfit = repaired;
+    }
+
+    return {
+      symbol,
+      action,
+      quantity,
+      price_target: price,
+      stop_loss: stopLoss,
+      take_profit: takeProfit,
+      confidence,
+      reasoning: typeof raw.reasoning === 'string' ? raw.reasoning : ''
+    };
+  }
+
+  private validateString(value: unknown, field: string, result: ValidationResult<unknown>): string {
+    if (typeof value === 'string') return value;
+    if (value === undefined || value === null) {
+      result.repairs.push(`${field}: missing, defaulted to empty string`);
+      return '';
+    }
+    result.repairs.push(`${field}: converted ${typeof value} to string`);
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private validateExposure(value: unknown, result: ValidationResult<unknown>): number {
+    const exposure = this.toNumber(value);
+    if (exposure === null) {
+      result.repairs.push(`total_risk_exposure: ${JSON.stringify(value)} is not a number, defaulted to 0`);
+      return 0;
+    }
+    if (exposure < 0 || exposure > 1) {
+      const clamped = Math.min(1, Math.max(0, exposure));
+      result.repairs.push(`total_risk_exposure: ${exposure} outside 0-1, clamped to ${clamped}`);
+      return clamped;
+    }
+    return exposure;
+  }
+
+  private toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+      const parsed = Number(value.replace(/[$,%\s]/g, ''));
+      return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+  }
+
+  private round(price: number): number {
+    return Math.round(price * 100) / 100;
+  }
+}
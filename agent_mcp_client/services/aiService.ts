@@ -1,30 +1,37 @@
 /**
- * AI Service - Handles all Claude AI interactions for trade planning and analysis
+ * AI Service - Handles all LLM interactions for trade planning and analysis (provider chosen by LLM_PROVIDER)
  */
 
-import Anthropic from "npm:@anthropic-ai/sdk@^0.30.0";
-import { IAIService, TradePlan, PerformanceAnalysis, TradingLogger, AgentState, ClaudeMessage, ClaudeResponse, MarketDataResponse, TradeDecision, TradingPerformanceData } from '../types/interfaces.ts';
-import { AI_CONFIG, ENV_KEYS } from '../config.ts';
-import { crypto } from "https://deno.land/std@0.208.0/crypto/mod.ts";
+import { IAIService, IDatabaseService, TradePlan, PerformanceAnalysis, TradingLogger, AgentState, ClaudeMessage, ClaudeResponse, MarketDataResponse, TradingPerformanceData, AIResponseType } from '../types/interfaces.ts';
+import { AI_CONFIG, AI_VALIDATION_CONFIG, ALT_DATA_SIGNAL_CONFIG } from '../config.ts';
+import { buildTradePlanId } from '../utils/clientOrderId.ts';
+import { getTradingSessionDate } from '../utils/marketCalendar.ts';
+import { AIResponseValidator, ValidationResult } from './aiResponseValidator.ts';
+import { LLMProvider, createLLMProvider } from './llmProviders.ts';
+import { formatSignalSummary } from './altDataSignalService.ts';
+import { formatWatchlist } from './universeService.ts';
+import { formatIndicatorSummary } from '../utils/technicalIndicators.ts';
 
 export class AIService implements IAIService {
-  private anthropic: Anthropic;
+  private provider: LLMProvider;
   private logger: TradingLogger;
+  private databaseService: IDatabaseService | null;
+  private knownSymbols: string[] = []; // Tickers in the latest market data, reused to validate adjustments
   private dailyRequestCount: number = 0;
   private dailyCost: number = 0;
   private lastRequestTime: number = 0;
 
-  constructor(logger: TradingLogger) {
+  /**
+   * Uses the provider selected by LLM_PROVIDER unless one is passed in
+   */
+  constructor(logger: TradingLogger, databaseService?: IDatabaseService, provider?: LLMProvider) {
     this.logger = logger;
-    
-    const apiKey = Deno.env.get(ENV_KEYS.ANTHROPIC_API_KEY);
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY environment variable not set');
+    this.databaseService = databaseService || null;
+    this.provider = provider || createLLMProvider(logger);
+
+    if (this.provider.name !== 'anthropic') {
+      this.logger.log('STATUS', `🧠 Using ${this.provider.name} LLM provider (${this.provider.model})`);
     }
-    
-    this.anthropic = new Anthropic({
-      apiKey: apiKey,
-    });
   }
 
   /**
@@ -39,21 +46,11 @@ export class AIService implements IAIService {
     const prompt = this.buildTradePlanPrompt(marketData, agentState);
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: AI_CONFIG.MODEL,
-        max_tokens: AI_CONFIG.MAX_TOKENS_TRADE_PLAN,
-        temperature: AI_CONFIG.TEMPERATURE,
-        messages: [{ role: "user", content: prompt }]
-      });
-
-      // Track usage and cost
-      this.trackUsage(response.usage, AI_CONFIG.MAX_TOKENS_TRADE_PLAN);
-
-      const tradePlanText = response.content[0].type === 'text' ? response.content[0].text : '';
+      const tradePlanText = await this.requestCompletion([{ role: 'user', content: prompt }], AI_CONFIG.MAX_TOKENS_TRADE_PLAN, 'trade_plan');
       
-      // Parse Claude's response into structured format
+      // Parse Claude's response into structured format; the ID is stable for the session and strategy
       const tradePlan: TradePlan = {
-        id: crypto.randomUUID(),
+        id: await buildTradePlanId(getTradingSessionDate(), agentState?.current_strategy || 'default'),
         date: new Date().toISOString().split('T')[0],
         market_analysis: tradePlanText,
         trades: [], // Will be populated in next step
@@ -81,26 +78,22 @@ export class AIService implements IAIService {
     await this.checkCostLimits();
 
     const predictionPrompt = this.buildPredictionPrompt(tradePlan, marketData, agentState);
+    this.knownSymbols = AIResponseValidator.symbolsFromMarketData(marketData);
+    const validator = new AIResponseValidator(this.knownSymbols);
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: AI_CONFIG.MODEL,
-        max_tokens: AI_CONFIG.MAX_TOKENS_PREDICTIONS,
-        temperature: AI_CONFIG.TEMPERATURE,
-        messages: [{ role: "user", content: predictionPrompt }]
-      });
-
-      // Track usage and cost
-      this.trackUsage(response.usage, AI_CONFIG.MAX_TOKENS_PREDICTIONS);
-
-      const predictionText = response.content[0].type === 'text' ? response.content[0].text : '';
-      
-      // Extract JSON from Claude's response
-      const predictions = this.extractJsonFromResponse(predictionText);
-      if (predictions && Object.keys(predictions).length > 0) {
-        tradePlan.trades = Array.isArray(predictions.trades) ? predictions.trades as TradeDecision[] : [];
-        tradePlan.risk_assessment = typeof predictions.risk_assessment === 'string' ? predictions.risk_assessment : '';
-        tradePlan.total_risk_exposure = typeof predictions.total_risk_exposure === 'number' ? predictions.total_risk_exposure : 0;
+      // Validate Claude's JSON, retrying once with the errors when trades are rejected
+      const predictions = await this.requestValidated(
+        'predictions',
+        predictionPrompt,
+        AI_CONFIG.MAX_TOKENS_PREDICTIONS,
+        text => validator.validatePredictions(text)
+      );
+
+      if (predictions) {
+        tradePlan.trades = predictions.trades;
+        tradePlan.risk_assessment = predictions.risk_assessment;
+        tradePlan.total_risk_exposure = predictions.total_risk_exposure;
       }
 
       this.logger.log('STATUS', `Generated ${tradePlan.trades.length} trade predictions`);
@@ -121,23 +114,15 @@ export class AIService implements IAIService {
     const prompt = this.buildPerformanceAnalysisPrompt(trades);
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: AI_CONFIG.MODEL,
-        max_tokens: AI_CONFIG.MAX_TOKENS_PERFORMANCE_ANALYSIS,
-        temperature: AI_CONFIG.TEMPERATURE,
-        messages: [{ role: "user", content: prompt }]
-      });
-
-      const analysisText = response.content[0].type === 'text' ? response.content[0].text : '';
-      const rawAnalysis = this.extractJsonFromResponse(analysisText);
+      const validator = new AIResponseValidator();
+      const analysis = await this.requestValidated(
+        'performance_analysis',
+        prompt,
+        AI_CONFIG.MAX_TOKENS_PERFORMANCE_ANALYSIS,
+        text => validator.validatePerformanceAnalysis(text)
+      );
       
-      if (rawAnalysis && Object.keys(rawAnalysis).length > 0) {
-        const analysis: PerformanceAnalysis = {
-          should_adjust: Boolean(rawAnalysis.should_adjust),
-          performance_summary: String(rawAnalysis.performance_summary || ''),
-          suggested_adjustments: String(rawAnalysis.suggested_adjustments || ''),
-          new_strategy_focus: String(rawAnalysis.new_strategy_focus || '')
-        };
+      if (analysis) {
         this.logger.log('STATUS', `Performance analysis complete: ${analysis.should_adjust ? 'Adjustments recommended' : 'Strategy performing well'}`);
         return analysis;
       }
@@ -169,19 +154,22 @@ export class AIService implements IAIService {
 
     const adjustmentPrompt = this.buildAdjustmentPrompt(tradePlan, analysis);
 
-    try {
-      const response = await this.anthropic.messages.create({
-        model: AI_CONFIG.MODEL,
-        max_tokens: AI_CONFIG.MAX_TOKENS_ADJUSTMENTS,
-        temperature: AI_CONFIG.TEMPERATURE,
-        messages: [{ role: "user", content: adjustmentPrompt }]
-      });
+    // Adjusted trades may use any ticker from today's data or the original plan
+    const allowedSymbols = this.knownSymbols.length > 0
+      ? [...this.knownSymbols, ...tradePlan.trades.map(trade => trade.symbol)]
+      : [];
+    const validator = new AIResponseValidator(allowedSymbols);
 
-      const adjustedText = response.content[0].type === 'text' ? response.content[0].text : '';
-      const adjustedPlan = this.extractJsonFromResponse(adjustedText);
+    try {
+      const adjustment = await this.requestValidated(
+        'adjustment',
+        adjustmentPrompt,
+        AI_CONFIG.MAX_TOKENS_ADJUSTMENTS,
+        text => validator.validateAdjustment(text)
+      );
       
-      if (adjustedPlan) {
-        tradePlan = { ...tradePlan, ...adjustedPlan };
+      if (adjustment) {
+        tradePlan = { ...tradePlan, ...adjustment };
       }
 
       this.logger.log('STATUS', 'Trade plan adjusted based on performance analysis');
@@ -216,14 +204,7 @@ export class AIService implements IAIService {
     `;
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: AI_CONFIG.MODEL,
-        max_tokens: 1000,
-        temperature: AI_CONFIG.TEMPERATURE,
-        messages: [{ role: "user", content: prompt }]
-      });
-
-      const sentimentText = response.content[0].type === 'text' ? response.content[0].text : '';
+      const sentimentText = await this.requestCompletion([{ role: 'user', content: prompt }], 1000, 'market_sentiment');
       this.logger.log('STATUS', 'Market sentiment analysis generated');
       return sentimentText;
       
@@ -261,14 +242,7 @@ export class AIService implements IAIService {
     `;
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: AI_CONFIG.MODEL,
-        max_tokens: 800,
-        temperature: AI_CONFIG.TEMPERATURE,
-        messages: [{ role: "user", content: prompt }]
-      });
-
-      const riskText = response.content[0].type === 'text' ? response.content[0].text : '';
+      const riskText = await this.requestCompletion([{ role: 'user', content: prompt }], 800, 'risk_assessment');
       this.logger.log('STATUS', 'Risk assessment generated');
       return riskText;
       
@@ -279,31 +253,32 @@ export class AIService implements IAIService {
   }
 
   /**
-   * Test Claude API connection
+   * Test the LLM provider connection
    */
   async testConnection(): Promise<{ success: boolean; message: string }> {
-    this.logger.log('STATUS', 'Testing Claude API connection...');
+    this.logger.log('STATUS', `Testing ${this.provider.name} LLM connection...`);
 
     try {
-      const response = await this.anthropic.messages.create({
-        model: "claude-3-5-sonnet-20241022",
+      const response = await this.provider.complete({
         max_tokens: 100,
+        temperature: AI_CONFIG.TEMPERATURE,
+        prompt_id: 'connection_test',
         messages: [{
           role: "user",
           content: "Respond with 'API Test Successful' if you can read this message."
         }]
       });
 
-      const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
+      const responseText = response.text;
       
-      this.logger.log('STATUS', 'Claude API connection test successful');
+      this.logger.log('STATUS', `${this.provider.name} LLM connection test successful`);
       return {
         success: true,
         message: `Connection successful. Response: ${responseText}`
       };
       
     } catch (error) {
-      this.logger.log('ALERT', `Claude API connection test failed: ${error}`);
+      this.logger.log('ALERT', `${this.provider.name} LLM connection test failed: ${error}`);
       return {
         success: false,
         message: `Connection failed: ${error}`
@@ -395,6 +370,7 @@ export class AIService implements IAIService {
     - 1% risk per trade rule
     - Maximum 2 trades per day
     - Minimum confidence threshold: 0.6
+    - Only trade symbols from the ranked watchlist when one is provided
 
     IMPORTANT: Respond with valid JSON only. No additional text outside the JSON structure.
     `;
@@ -453,21 +429,108 @@ export class AIService implements IAIService {
     `;
   }
 
-  private extractJsonFromResponse(responseText: string): Record<string, unknown> {
-    try {
-      // Try to find JSON in the response
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        return JSON.parse(jsonMatch[0]);
+  /**
+   * Send a conversation to the LLM provider and return the text of the reply.
+   * promptId names the prompt independently of its data and namespaces its fixture key.
+   */
+  private async requestCompletion(messages: ClaudeMessage[], maxTokens: number, promptId: string): Promise<string> {
+    const response = await this.provider.complete({
+      messages,
+      max_tokens: maxTokens,
+      temperature: AI_CONFIG.TEMPERATURE,
+      prompt_id: promptId
+    });
+
+    // Track usage and cost
+    if (this.provider.metered) {
+      this.trackUsage(response.usage, maxTokens);
+    }
+
+    return response.text;
+  }
+
+  /**
+   * Request a JSON response and validate it, feeding validation errors back to Claude for a retry
+   */
+  private async requestValidated<T>(
+    responseType: AIResponseType,
+    prompt: string,
+    maxTokens: number,
+    validate: (responseText: string) => ValidationResult<T>
+  ): Promise<T | null> {
+    const messages: ClaudeMessage[] = [{ role: 'user', content: prompt }];
+    let responseText = await this.requestCompletion(messages, maxTokens, responseType);
+    let result = validate(responseText);
+    const failedAttempts: Array<{ attempt: number; responseText: string; result: ValidationResult<T> }> = [];
+
+    for (let attempt = 1; result.errors.length > 0; attempt++) {
+      failedAttempts.push({ attempt, responseText, result });
+      this.logger.log('ALERT', `⚠️ Claude ${responseType} response failed validation: ${result.errors.join('; ')}`);
+
+      if (attempt > AI_VALIDATION_CONFIG.MAX_RETRIES) break;
+
+      try {
+        await this.checkCostLimits();
+        messages.push(
+          { role: 'assistant', content: responseText },
+          { role: 'user', content: this.buildValidationFeedbackPrompt(result.errors) }
+        );
+        responseText = await this.requestCompletion(messages, maxTokens, `${responseType}:retry-${attempt}`);
+      } catch (error) {
+        this.logger.log('ALERT', `Validation retry for ${responseType} failed: ${error}`);
+        break;
       }
-      
-      // If no JSON found, try parsing the entire response
-      return JSON.parse(responseText);
-      
-    } catch (error) {
-      this.logger.log('ALERT', `Failed to parse JSON from AI response: ${error}`);
-      return {};
+
+      // Prefer the retry unless it is unusable and the first response was not
+      const retried = validate(responseText);
+      if (retried.value !== null || result.value === null) {
+        result = retried;
+      }
+    }
+
+    if (result.repairs.length > 0) {
+      this.logger.log('STATUS', `🔧 Repaired ${result.repairs.length} fields in Claude ${responseType} response: ${result.repairs.join('; ')}`);
     }
+
+    const recovered = result.errors.length === 0;
+    for (const failed of failedAttempts) {
+      await this.recordValidationFailure(responseType, failed.attempt, failed.responseText, failed.result, recovered);
+    }
+
+    return result.value;
+  }
+
+  private buildValidationFeedbackPrompt(errors: string[]): string {
+    return `
+    Your previous response failed validation:
+    ${errors.map(error => `- ${error}`).join('\n    ')}
+
+    Correct these problems and respond again in the same JSON format.
+    Use only symbols present in the market data, positive prices and quantities, confidence between 0 and 1,
+    and a stop_loss below the entry for BUY trades (above it for SELL trades).
+
+    IMPORTANT: Respond with valid JSON only. No additional text outside the JSON structure.
+    `;
+  }
+
+  private async recordValidationFailure<T>(
+    responseType: AIResponseType,
+    attempt: number,
+    responseText: string,
+    result: ValidationResult<T>,
+    recovered: boolean
+  ): Promise<void> {
+    if (!AI_VALIDATION_CONFIG.RECORD_FAILURES || !this.databaseService) return;
+
+    await this.databaseService.storeAIValidationFailure({
+      response_type: responseType,
+      attempt,
+      errors: result.errors,
+      repairs: result.repairs,
+      raw_response: responseText.substring(0, AI_VALIDATION_CONFIG.MAX_STORED_RESPONSE_CHARS),
+      model: this.provider.model,
+      recovered
+    });
   }
 
   /**
@@ -482,20 +545,44 @@ export class AIService implements IAIService {
         summary.push(`Market Overview: ${JSON.stringify(marketData.market_overview).substring(0, 500)}...`);
       }
       
-      // Add key indicators if available
+      // Add key indicators if available; per-symbol indicators get one line each
       if (marketData.indicators) {
-        summary.push(`Key Indicators: ${JSON.stringify(marketData.indicators).substring(0, 300)}...`);
+        const marketWide = Object.fromEntries(
+          Object.entries(marketData.indicators).filter(([key]) => !marketData.price_data?.[key])
+        );
+        if (Object.keys(marketWide).length > 0) {
+          summary.push(`Key Indicators: ${JSON.stringify(marketWide).substring(0, 300)}...`);
+        }
+
+        const symbolIndicators = formatIndicatorSummary(marketData.indicators);
+        if (symbolIndicators) {
+          summary.push(`Symbol Indicators:\n${symbolIndicators}`);
+        }
+      }
+      
+      // Per-ticker alt-data scores stand in for the raw Quiver records they were computed from
+      const scoredSources: string[] = [];
+      if (marketData.signal_scores && Object.keys(marketData.signal_scores).length > 0) {
+        summary.push(`Alternative Data Signals (-1 bearish to +1 bullish):\n${formatSignalSummary(marketData.signal_scores)}`);
+        scoredSources.push(...Object.values(ALT_DATA_SIGNAL_CONFIG.SOURCE_KEYS));
+      }
+      
+      // Which alternative datasets were collected today
+      if (marketData.collection_report && marketData.collection_report.length > 0) {
+        const sources = marketData.collection_report.map(source =>
+          source.status === 'failed' ? `${source.output_key} (unavailable)` : `${source.output_key} (${source.records} records)`
+        );
+        summary.push(`Data Sources: ${sources.join(', ')}`);
       }
       
-      // Add watchlist if available (limit to top 10)
-      if (marketData.watchlist && Array.isArray(marketData.watchlist)) {
-        const topWatchlist = marketData.watchlist.slice(0, 10);
-        summary.push(`Top Watchlist: ${JSON.stringify(topWatchlist)}`);
+      // Ranked candidate universe; the trade plan should draw from it
+      if (marketData.watchlist && Array.isArray(marketData.watchlist) && marketData.watchlist.length > 0) {
+        summary.push(`Ranked Watchlist (choose trades from these symbols):\n${formatWatchlist(marketData.watchlist)}`);
       }
       
       // Add any other critical data points (limit each to 200 chars)
       Object.keys(marketData).forEach(key => {
-        if (!['market_overview', 'indicators', 'watchlist', 'trading_performance', 'recent_trades'].includes(key)) {
+        if (!['market_overview', 'indicators', 'watchlist', 'trading_performance', 'recent_trades', 'price_data', 'collection_report', 'signal_scores', ...scoredSources].includes(key)) {
           const value = marketData[key];
           if (value && typeof value === 'object') {
             summary.push(`${key}: ${JSON.stringify(value).substring(0, 200)}...`);
@@ -545,6 +632,9 @@ export class AIService implements IAIService {
    * Check cost limits before making API calls
    */
   private async checkCostLimits(): Promise<void> {
+    // Local and replayed responses cost nothing
+    if (!this.provider.metered) return;
+
     const now = Date.now();
     const dayStart = new Date().setHours(0, 0, 0, 0);
     
@@ -0,0 +1,85 @@
+/**
+ * AIService replayed against the shipped LLM fixtures (LLM_PROVIDER=fixture)
+ */
+
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { AgentState, MarketDataResponse, TradingLogger } from '../types/interfaces.ts';
+import { AIService } from './aiService.ts';
+import { FixtureLLMProvider } from './llmProviders.ts';
+
+const FIXTURE_PATH = new URL('../fixtures/llm/responses.json', import.meta.url).pathname;
+const logger: TradingLogger = { log: () => {} };
+
+function marketData(date: string, priceShift: number): MarketDataResponse {
+  return {
+    timestamp: `${date}T10:00:00.000Z`,
+    symbols: ['AAPL', 'MSFT', 'NVDA'],
+    market_sentiment: 'neutral',
+    indicators: { AAPL: { close: 190 + priceShift }, MSFT: { close: 415 + priceShift }, NVDA: { close: 122 + priceShift } }
+  };
+}
+
+function agentState(balance: number): AgentState {
+  return {
+    is_paused: false,
+    last_run: '2026-10-16T20:00:00.000Z',
+    current_strategy: 'momentum_reversal',
+    account_balance: balance,
+    open_positions: [],
+    trade_history: []
+  };
+}
+
+/**
+ * One planning pass in workflow order: plan, predictions, risk, performance review, adjustment
+ */
+async function runPlanning(date: string, priceShift: number, balance: number) {
+  const aiService = new AIService(logger, undefined, new FixtureLLMProvider(logger, FIXTURE_PATH));
+  const data = marketData(date, priceShift);
+
+  const sentiment = await aiService.generateMarketSentiment(data);
+  // The adjustment prompt embeds the whole plan, so the fields taken from the clock are pinned
+  let plan = { ...await aiService.craftTradePlan(data, agentState(balance)), id: 'fixture-plan', date, created_at: `${date}T10:00:00.000Z` };
+  plan = await aiService.makePredictions(plan, data, agentState(balance));
+  plan.risk_assessment = await aiService.generateRiskAssessment(plan, balance);
+  const analysis = await aiService.analyzeTradePerformance([{ symbol: 'AAPL', profit_loss: 120 + priceShift }]);
+  const adjusted = await aiService.adjustTradePlan(plan, analysis);
+
+  return { sentiment, plan, analysis, adjusted };
+}
+
+Deno.test("fixture provider replays the planning workflow", async () => {
+  const { sentiment, plan, analysis, adjusted } = await runPlanning('2026-10-19', 0, 100000);
+
+  assertEquals(sentiment.startsWith('Overall sentiment: cautiously bullish'), true);
+  assertEquals(plan.market_analysis.startsWith('Market overview:'), true);
+  assertEquals(plan.trades.map(t => `${t.action} ${t.quantity} ${t.symbol}`), ['BUY 10 AAPL', 'BUY 5 MSFT', 'SELL 4 NVDA']);
+  assertEquals(plan.risk_assessment.startsWith('Risk profile: moderate'), true);
+  assertEquals(analysis.should_adjust, false);
+  assertEquals(adjusted.total_risk_exposure, 0.016);
+  assertEquals(adjusted.trades.length, 3);
+});
+
+Deno.test("fixture provider rejects prompts it has no recording for", async () => {
+  const provider = new FixtureLLMProvider(logger, FIXTURE_PATH);
+  await assertRejects(() => provider.complete({
+    messages: [{ role: 'user', content: 'Unrecorded prompt' }],
+    max_tokens: 10,
+    temperature: 0,
+    prompt_id: 'not_recorded'
+  }));
+});
+
+Deno.test("fixture provider keys responses on the prompt content, not just its ID", async () => {
+  const provider = new FixtureLLMProvider(logger, FIXTURE_PATH);
+  await assertRejects(() => provider.complete({
+    messages: [{ role: 'user', content: 'Say "Connection test successful"' }],
+    max_tokens: 10,
+    temperature: 0,
+    prompt_id: 'connection_test'
+  }));
+
+  const hash = (content: string) => FixtureLLMProvider.hashPrompt([{ role: 'user', content }]);
+  assertEquals(await hash('Balance $100,000') === await hash('Balance $98,765.43'), false);
+  assertEquals(await hash('Balance $100,000'), await hash('Balance $100,000'));
+});
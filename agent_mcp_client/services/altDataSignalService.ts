@@ -0,0 +1,409 @@
+/**
+ * Alternative-Data Signal Service - Turns raw Quiver records into per-ticker scores
+ * Signals:
+ * - Congress: net buy minus sell dollars
+ * - Insider: net open-market dollars plus a bonus for cluster buys
+ * - Institutional: net 13F market value change
+ * - Dark pool: off-exchange percentage anomaly
+ * Every record is weighted by an exponential recency decay.
+ */
+
+import {
+  TradingLogger,
+  MarketDataResponse,
+  AltDataSignal,
+  TickerSignalScores,
+  CongressTrade,
+  InsiderTrade,
+  SEC13FChange,
+  OffExchangeData
+} from '../types/interfaces.ts';
+import { ALT_DATA_SIGNAL_CONFIG } from '../config.ts';
+import { getTextContent, getJsonContent, getJsonRecords } from '../utils/mcpContent.ts';
+
+const TICKER_PATTERN = /^[A-Z][A-Z.]{0,6}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type TextFields = Record<string, string>;
+
+/** Quiver records as far as they can be recovered; the text format carries only some fields */
+type QuiverRecord<T> = Partial<T> & { Ticker: string };
+
+interface SignalAccumulator {
+  scores: Partial<Record<AltDataSignal, number>>;
+  details: Partial<TickerSignalScores>;
+  record_count: number;
+  latest_activity: number;
+}
+
+export class AltDataSignalService {
+  private logger: TradingLogger;
+
+  constructor(logger: TradingLogger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Score every ticker in the collected Quiver data and attach the result as marketData.signal_scores
+   */
+  withSignalScores(marketData: MarketDataResponse, asOf: Date = new Date()): MarketDataResponse {
+    try {
+      const signalScores = this.scoreMarketData(marketData, asOf);
+      const count = Object.keys(signalScores).length;
+      if (count === 0) return marketData;
+
+      const strongest = AltDataSignalService.topTickers(signalScores, 3)
+        .map(symbol => `${symbol} ${signalScores[symbol].composite.toFixed(2)}`);
+      this.logger.log('ANALYSIS', `📡 Alt-data signals scored for ${count} tickers (strongest: ${strongest.join(', ')})`);
+
+      return { ...marketData, signal_scores: signalScores };
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to score alternative data: ${error}`);
+      return marketData;
+    }
+  }
+
+  /**
+   * Per-ticker scores from whichever Quiver sources are present in marketData
+   */
+  scoreMarketData(marketData: MarketDataResponse, asOf: Date = new Date()): Record<string, TickerSignalScores> {
+    const keys = ALT_DATA_SIGNAL_CONFIG.SOURCE_KEYS;
+    const accumulators = new Map<string, SignalAccumulator>();
+    const accumulatorFor = (symbol: string) => {
+      let accumulator = accumulators.get(symbol);
+      if (!accumulator) {
+        accumulator = { scores: {}, details: {}, record_count: 0, latest_activity: 0 };
+        accumulators.set(symbol, accumulator);
+      }
+      return accumulator;
+    };
+
+    this.scoreCongress(this.getRecords(marketData[keys.congress], this.congressFromText), asOf, accumulatorFor);
+    this.scoreInsiders(this.getRecords(marketData[keys.insider], this.insiderFromText), asOf, accumulatorFor);
+    this.scoreInstitutional(this.getRecords(marketData[keys.institutional], this.sec13fFromText), asOf, accumulatorFor);
+    this.scoreDarkPool(this.getRecords(marketData[keys.dark_pool], this.offExchangeFromText), asOf, accumulatorFor);
+
+    const signalScores: Record<string, TickerSignalScores> = {};
+    for (const [symbol, accumulator] of accumulators) {
+      const available = Object.entries(accumulator.scores) as Array<[AltDataSignal, number]>;
+      if (available.length === 0) continue;
+
+      const totalWeight = available.reduce((sum, [signal]) => sum + ALT_DATA_SIGNAL_CONFIG.WEIGHTS[signal], 0);
+      const composite = totalWeight > 0
+        ? available.reduce((sum, [signal, score]) => sum + ALT_DATA_SIGNAL_CONFIG.WEIGHTS[signal] * score, 0) / totalWeight
+        : 0;
+
+      signalScores[symbol] = {
+        ...accumulator.details,
+        symbol,
+        scores: accumulator.scores,
+        composite,
+        record_count: accumulator.record_count,
+        latest_activity: new Date(accumulator.latest_activity).toISOString().slice(0, 10)
+      };
+    }
+
+    return signalScores;
+  }
+
+  /**
+   * Tickers ordered by the strength of their composite score, either direction
+   */
+  static topTickers(signalScores: Record<string, TickerSignalScores>, limit: number): string[] {
+    return Object.values(signalScores)
+      .sort((a, b) => Math.abs(b.composite) - Math.abs(a.composite))
+      .slice(0, limit)
+      .map(score => score.symbol);
+  }
+
+  // Signal scoring
+
+  private scoreCongress(
+    trades: QuiverRecord<CongressTrade>[],
+    asOf: Date,
+    accumulatorFor: (symbol: string) => SignalAccumulator
+  ): void {
+    const netBySymbol = new Map<string, number>();
+
+    for (const trade of trades) {
+      const recency = this.recency(trade.ReportDate || trade.TransactionDate, 'congress', asOf);
+      const direction = this.direction(trade.Transaction);
+      if (!recency || direction === 0) continue;
+
+      const amount = trade.Amount && trade.Amount > 0 ? trade.Amount : this.rangeMidpoint(trade.Range);
+      netBySymbol.set(trade.Ticker, (netBySymbol.get(trade.Ticker) || 0) + direction * amount * recency.weight);
+      this.touch(accumulatorFor(trade.Ticker), recency.time);
+    }
+
+    for (const [symbol, net] of netBySymbol) {
+      const accumulator = accumulatorFor(symbol);
+      accumulator.details.congress_net_usd = net;
+      accumulator.scores.congress = Math.tanh(net / ALT_DATA_SIGNAL_CONFIG.USD_SCALES.congress);
+    }
+  }
+
+  private scoreInsiders(
+    trades: QuiverRecord<InsiderTrade>[],
+    asOf: Date,
+    accumulatorFor: (symbol: string) => SignalAccumulator
+  ): void {
+    const netBySymbol = new Map<string, number>();
+    const clusterBuyers = new Map<string, Set<string>>();
+
+    for (const trade of trades) {
+      const recency = this.recency(trade.TradeDate, 'insider', asOf);
+      const direction = this.direction(trade.Transaction);
+      if (!recency || direction === 0) continue;
+
+      const value = trade.Value && trade.Value !== 0
+        ? Math.abs(trade.Value)
+        : Math.abs((trade.Shares || 0) * (trade.Price || 0));
+      netBySymbol.set(trade.Ticker, (netBySymbol.get(trade.Ticker) || 0) + direction * value * recency.weight);
+      this.touch(accumulatorFor(trade.Ticker), recency.time);
+
+      if (direction > 0 && recency.ageDays <= ALT_DATA_SIGNAL_CONFIG.INSIDER_CLUSTER_WINDOW_DAYS) {
+        const buyers = clusterBuyers.get(trade.Ticker) || new Set<string>();
+        buyers.add(trade.InsiderName || 'unknown');
+        clusterBuyers.set(trade.Ticker, buyers);
+      }
+    }
+
+    for (const [symbol, net] of netBySymbol) {
+      const buyers = clusterBuyers.get(symbol)?.size || 0;
+      const bonus = buyers >= ALT_DATA_SIGNAL_CONFIG.INSIDER_CLUSTER_MIN_BUYERS ? ALT_DATA_SIGNAL_CONFIG.INSIDER_CLUSTER_BONUS : 0;
+      const accumulator = accumulatorFor(symbol);
+      accumulator.details.insider_net_usd = net;
+      accumulator.details.insider_cluster_buyers = buyers;
+      accumulator.scores.insider = this.clamp(Math.tanh(net / ALT_DATA_SIGNAL_CONFIG.USD_SCALES.insider) + bonus);
+    }
+  }
+
+  private scoreInstitutional(
+    changes: QuiverRecord<SEC13FChange>[],
+    asOf: Date,
+    accumulatorFor: (symbol: string) => SignalAccumulator
+  ): void {
+    const netBySymbol = new Map<string, number>();
+
+    for (const change of changes) {
+      const recency = this.recency(change.FilingDate, 'institutional', asOf);
+      if (!recency || change.MarketValueChange === undefined || !Number.isFinite(change.MarketValueChange)) continue;
+
+      netBySymbol.set(change.Ticker, (netBySymbol.get(change.Ticker) || 0) + change.MarketValueChange * recency.weight);
+      this.touch(accumulatorFor(change.Ticker), recency.time);
+    }
+
+    for (const [symbol, net] of netBySymbol) {
+      const accumulator = accumulatorFor(symbol);
+      accumulator.details.institutional_net_usd = net;
+      accumulator.scores.institutional = Math.tanh(net / ALT_DATA_SIGNAL_CONFIG.USD_SCALES.institutional);
+    }
+  }
+
+  /**
+   * Elevated off-exchange share is read as quiet accumulation. The latest reading is compared
+   * with the ticker's own history, or with every other ticker's latest reading when history is short.
+   */
+  private scoreDarkPool(
+    records: QuiverRecord<OffExchangeData>[],
+    asOf: Date,
+    accumulatorFor: (symbol: string) => SignalAccumulator
+  ): void {
+    const bySymbol = new Map<string, Array<{ percent: number; time: number; weight: number }>>();
+
+    for (const record of records) {
+      const recency = this.recency(record.Date, 'dark_pool', asOf);
+      const percent = record.OffExchangePercent;
+      if (!recency || percent === undefined || !Number.isFinite(percent)) continue;
+
+      const history = bySymbol.get(record.Ticker) || [];
+      history.push({ percent, time: recency.time, weight: recency.weight });
+      bySymbol.set(record.Ticker, history);
+    }
+
+    const latestBySymbol = new Map(
+      Array.from(bySymbol, ([symbol, history]) => [symbol, history.sort((a, b) => a.time - b.time)[history.length - 1]])
+    );
+    const crossSection = this.meanAndDeviation(Array.from(latestBySymbol.values(), latest => latest.percent));
+
+    for (const [symbol, history] of bySymbol) {
+      const latest = latestBySymbol.get(symbol)!;
+      const baseline = history.length >= ALT_DATA_SIGNAL_CONFIG.DARK_POOL_MIN_HISTORY
+        ? this.meanAndDeviation(history.slice(0, -1).map(entry => entry.percent))
+        : crossSection;
+
+      const zscore = baseline && baseline.deviation > 0 ? (latest.percent - baseline.mean) / baseline.deviation : 0;
+      const accumulator = accumulatorFor(symbol);
+      accumulator.details.off_exchange_percent = latest.percent;
+      accumulator.details.off_exchange_zscore = zscore;
+      accumulator.scores.dark_pool = Math.tanh(zscore / ALT_DATA_SIGNAL_CONFIG.DARK_POOL_ZSCORE_SCALE) * latest.weight;
+      for (const entry of history) this.touch(accumulator, entry.time);
+    }
+  }
+
+  // Record extraction
+
+  /**
+   * Accept raw Quiver JSON (an array), tool content carrying a JSON resource or JSON text,
+   * or the MCP server's text format of "Label: value" lines with records ending in '---'
+   */
+  private getRecords<T>(source: unknown, fromText: (fields: TextFields) => QuiverRecord<T>): QuiverRecord<T>[] {
+    if (!source) return [];
+
+    let records: unknown[] = [];
+    if (Array.isArray(source)) {
+      records = source;
+    } else if (typeof source === 'object') {
+      const text = getTextContent(source);
+      records = getJsonRecords(getJsonContent(source)) ??
+        this.parseJsonRecords(text) ??
+        this.parseTextRecords(text).map(fromText);
+    }
+
+    return records
+      .filter((record): record is QuiverRecord<T> =>
+        !!record && typeof record === 'object' && typeof (record as QuiverRecord<T>).Ticker === 'string'
+      )
+      .map(record => ({ ...record, Ticker: record.Ticker.trim().toUpperCase() }))
+      .filter(record => TICKER_PATTERN.test(record.Ticker));
+  }
+
+  private parseJsonRecords(text: string): unknown[] | null {
+    const trimmed = text.trim();
+    if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) return null;
+
+    try {
+      return getJsonRecords(JSON.parse(trimmed));
+    } catch {
+      // Fall through to the text format
+    }
+    return null;
+  }
+
+  private parseTextRecords(text: string): TextFields[] {
+    return text
+      .split(/^---$/m)
+      .map(block => {
+        const fields: TextFields = {};
+        for (const line of block.split('\n')) {
+          const match = line.match(/^([^:]+):\s+(.+)$/);
+          if (match) fields[match[1].trim()] = match[2].trim();
+        }
+        return fields;
+      })
+      .filter(fields => Object.keys(fields).length > 0);
+  }
+
+  private congressFromText = (fields: TextFields): QuiverRecord<CongressTrade> => ({
+    Representative: (fields['Representative'] || '').replace(/\s*\(.*\)$/, ''),
+    Ticker: (fields['Ticker'] || '').split(/\s+/)[0],
+    Transaction: fields['Transaction'] || '',
+    Range: fields['Amount Range'],
+    TransactionDate: fields['Transaction Date'],
+    ReportDate: fields['Report Date']
+  });
+
+  private insiderFromText = (fields: TextFields): QuiverRecord<InsiderTrade> => ({
+    Ticker: this.parenthesizedTicker(fields['Company']),
+    InsiderName: (fields['Insider'] || '').split(' - ')[0],
+    Transaction: fields['Transaction'] || '',
+    Shares: this.parseNumber(fields['Shares']),
+    Price: this.parseNumber(fields['Price']),
+    Value: this.parseNumber(fields['Total Value']),
+    TradeDate: fields['Trade Date']
+  });
+
+  private sec13fFromText = (fields: TextFields): QuiverRecord<SEC13FChange> => ({
+    Ticker: this.parenthesizedTicker(fields['Company']),
+    InstitutionName: fields['Institution'] || '',
+    SharesChange: this.parseNumber(fields['Shares Change']),
+    MarketValueChange: this.parseNumber(fields['Market Value Change']),
+    FilingDate: fields['Filing Date']
+  });
+
+  private offExchangeFromText = (fields: TextFields): QuiverRecord<OffExchangeData> => ({
+    Ticker: fields['Ticker'] || '',
+    Date: fields['Date'],
+    TotalVolume: this.parseNumber(fields['Total Volume']),
+    OffExchangePercent: this.parseNumber(fields['Off-Exchange %'])
+  });
+
+  // Helpers
+
+  /**
+   * Decay weight for a record date, or null when the date is missing or too old
+   */
+  private recency(date: string | undefined, signal: AltDataSignal, asOf: Date): { weight: number; ageDays: number; time: number } | null {
+    const time = date ? Date.parse(date) : NaN;
+    if (!Number.isFinite(time)) return null;
+
+    const ageDays = Math.max(0, (asOf.getTime() - time) / DAY_MS);
+    if (ageDays > ALT_DATA_SIGNAL_CONFIG.MAX_AGE_DAYS) return null;
+
+    return { weight: 0.5 ** (ageDays / ALT_DATA_SIGNAL_CONFIG.HALF_LIFE_DAYS[signal]), ageDays, time };
+  }
+
+  private direction(transaction: string | undefined): number {
+    const value = (transaction || '').trim();
+    if (/^p\b|purchase|buy/i.test(value)) return 1;
+    if (/^s\b|sale|sell/i.test(value)) return -1;
+    return 0; // Exchanges, grants and option exercises carry no signal
+  }
+
+  private rangeMidpoint(range: string | undefined): number {
+    const bounds = (range || '').match(/[\d,]+(?:\.\d+)?/g)?.map(value => Number(value.replace(/,/g, ''))) || [];
+    if (bounds.length === 0) return 0;
+    return bounds.reduce((sum, value) => sum + value, 0) / bounds.length;
+  }
+
+  private parseNumber(value: string | undefined): number | undefined {
+    if (!value) return undefined;
+    const parsed = Number(value.split(/\s+/)[0].replace(/[$,%]/g, ''));
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  private parenthesizedTicker(value: string | undefined): string {
+    return (value || '').match(/\(([^()]+)\)\s*$/)?.[1] || '';
+  }
+
+  private meanAndDeviation(values: number[]): { mean: number; deviation: number } | null {
+    if (values.length < 2) return null;
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    return { mean, deviation: Math.sqrt(variance) };
+  }
+
+  private touch(accumulator: SignalAccumulator, time: number): void {
+    accumulator.record_count++;
+    accumulator.latest_activity = Math.max(accumulator.latest_activity, time);
+  }
+
+  private clamp(value: number): number {
+    return Math.max(-1, Math.min(1, value));
+  }
+}
+
+/**
+ * One line per ticker for AI prompts, strongest composite first
+ */
+export function formatSignalSummary(signalScores: Record<string, TickerSignalScores>, limit: number = ALT_DATA_SIGNAL_CONFIG.PROMPT_TOP_TICKERS): string {
+  const usd = (value: number | undefined) =>
+    value === undefined ? null : `${value < 0 ? '-' : '+'}$${Math.round(Math.abs(value)).toLocaleString('en-US')}`;
+
+  return AltDataSignalService.topTickers(signalScores, limit)
+    .map(symbol => {
+      const s = signalScores[symbol];
+      const parts = [
+        s.scores.congress !== undefined ? `congress ${s.scores.congress.toFixed(2)} (${usd(s.congress_net_usd)})` : null,
+        s.scores.insider !== undefined
+          ? `insider ${s.scores.insider.toFixed(2)} (${usd(s.insider_net_usd)}, ${s.insider_cluster_buyers || 0} buyers)`
+          : null,
+        s.scores.institutional !== undefined ? `13F ${s.scores.institutional.toFixed(2)} (${usd(s.institutional_net_usd)})` : null,
+        s.scores.dark_pool !== undefined
+          ? `dark pool ${s.scores.dark_pool.toFixed(2)} (${s.off_exchange_percent?.toFixed(1)}%, z ${s.off_exchange_zscore?.toFixed(1)})`
+          : null
+      ].filter(Boolean);
+      return `${symbol}: composite ${s.composite.toFixed(2)} - ${parts.join(', ')} - last activity ${s.latest_activity}`;
+    })
+    .join('\n');
+}
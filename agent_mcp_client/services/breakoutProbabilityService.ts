@@ -4,6 +4,7 @@
  */
 
 import { TradingLogger, TradeDecision, MarketDataResponse } from '../types/interfaces.ts';
+import { PRICE_DATA_CONFIG } from '../config.ts';
 
 export interface BreakoutProbabilityResult {
   probability: number;
@@ -33,6 +34,14 @@ export interface BreakoutFilterResult {
   }>;
 }
 
+interface BarSummary {
+  current_volume: number;
+  average_volume: number;
+  recent_prices: number[];
+  current_volatility: number;
+  historical_volatility: number;
+}
+
 export class BreakoutProbabilityService {
   private logger: TradingLogger;
   private readonly PROBABILITY_THRESHOLD = 0.4;
@@ -154,7 +163,7 @@ export class BreakoutProbabilityService {
       volatilityBreakout = this.calculateVolatilityBreakout(trade.symbol, marketData);
       
       // Extract market sentiment
-      marketSentiment = this.calculateMarketSentiment(marketData);
+      marketSentiment = this.calculateMarketSentiment(trade, marketData);
       
       // Calculate technical strength from available indicators
       technicalStrength = this.calculateTechnicalStrength(trade, marketData);
@@ -251,26 +260,30 @@ export class BreakoutProbabilityService {
   }
 
   /**
-   * Calculate market sentiment indicator
+   * Calculate market sentiment indicator, blending overall sentiment with the symbol's alt-data signals
    */
-  private calculateMarketSentiment(marketData: MarketDataResponse): number {
+  private calculateMarketSentiment(trade: TradeDecision, marketData: MarketDataResponse): number {
     try {
+      let overall: number | null = null;
+
       // Check for sentiment data
       if (marketData.market_sentiment) {
         const sentiment = marketData.market_sentiment.toString().toLowerCase();
         
         if (sentiment.includes('bullish') || sentiment.includes('positive')) {
-          return 0.7;
+          overall = 0.7;
         } else if (sentiment.includes('bearish') || sentiment.includes('negative')) {
-          return 0.3;
+          overall = 0.3;
         } else if (sentiment.includes('neutral')) {
-          return 0.5;
+          overall = 0.5;
         }
       }
       
-      // Look for sentiment indicators in other data
-      const sentimentIndicators = this.extractSentimentIndicators(marketData);
-      return sentimentIndicators;
+      // Look for congress, insider, 13F and dark pool signals on this symbol
+      const symbolSignal = this.extractSentimentIndicators(trade, marketData);
+
+      if (overall !== null && symbolSignal !== null) return (overall + symbolSignal) / 2;
+      return overall ?? symbolSignal ?? 0.5;
       
     } catch {
       return 0.5;
@@ -285,8 +298,11 @@ export class BreakoutProbabilityService {
       // Start with trade confidence as baseline
       let technicalStrength = trade.confidence;
       
-      // Look for technical indicators in market data
-      const indicators = marketData.indicators;
+      // Look for technical indicators in market data, preferring the symbol's own computed values
+      const symbolIndicators = marketData.indicators?.[trade.symbol];
+      const indicators = symbolIndicators && typeof symbolIndicators === 'object'
+        ? symbolIndicators as Record<string, unknown>
+        : marketData.indicators;
       if (indicators && typeof indicators === 'object') {
         // Extract RSI, moving averages, etc.
         const rsi = this.extractRSI(indicators);
@@ -386,19 +402,17 @@ export class BreakoutProbabilityService {
 
   // Helper methods for data extraction
 
+  // Explicit per-symbol values (e.g. backtest snapshots) take precedence over values derived from bars
+
   private extractVolumeData(symbol: string, marketData: MarketDataResponse): { current?: number; average?: number } | null {
     // Try to extract volume data from various sources in market data
     try {
-      // Check if symbol-specific data exists
-      const symbolData = marketData[symbol];
-      if (symbolData && typeof symbolData === 'object') {
-        const data = symbolData as any;
-        if (data.volume || data.current_volume || data.avg_volume) {
-          return {
-            current: data.volume || data.current_volume,
-            average: data.avg_volume || data.average_volume
-          };
-        }
+      const data = this.getSymbolData(symbol, marketData);
+      const bars = this.summarizeBars(symbol, marketData);
+      const current = this.numberField(data, 'volume', 'current_volume') || bars?.current_volume;
+      const average = this.numberField(data, 'avg_volume', 'average_volume') || bars?.average_volume;
+      if (current || average) {
+        return { current, average };
       }
       
       // Check indicators for volume data
@@ -418,14 +432,11 @@ export class BreakoutProbabilityService {
 
   private extractPriceData(symbol: string, marketData: MarketDataResponse): { recent_prices?: number[] } | null {
     try {
-      const symbolData = marketData[symbol];
-      if (symbolData && typeof symbolData === 'object') {
-        const data = symbolData as any;
-        if (data.prices || data.recent_prices || data.price_history) {
-          return {
-            recent_prices: data.prices || data.recent_prices || data.price_history
-          };
-        }
+      const data = this.getSymbolData(symbol, marketData);
+      const recentPrices = this.numberArrayField(data, 'prices', 'recent_prices', 'price_history') ||
+        this.summarizeBars(symbol, marketData)?.recent_prices;
+      if (recentPrices) {
+        return { recent_prices: recentPrices };
       }
     } catch {
       // Ignore extraction errors
@@ -436,15 +447,12 @@ export class BreakoutProbabilityService {
 
   private extractVolatilityData(symbol: string, marketData: MarketDataResponse): { current?: number; historical?: number } | null {
     try {
-      const symbolData = marketData[symbol];
-      if (symbolData && typeof symbolData === 'object') {
-        const data = symbolData as any;
-        if (data.volatility || data.current_volatility || data.historical_volatility) {
-          return {
-            current: data.volatility || data.current_volatility,
-            historical: data.historical_volatility || data.avg_volatility
-          };
-        }
+      const data = this.getSymbolData(symbol, marketData);
+      const bars = this.summarizeBars(symbol, marketData);
+      const current = this.numberField(data, 'volatility', 'current_volatility') || bars?.current_volatility;
+      const historical = this.numberField(data, 'historical_volatility', 'avg_volatility') || bars?.historical_volatility;
+      if (current || historical) {
+        return { current, historical };
       }
     } catch {
       // Ignore extraction errors
@@ -453,25 +461,67 @@ export class BreakoutProbabilityService {
     return null;
   }
 
-  private extractSentimentIndicators(marketData: MarketDataResponse): number {
-    try {
-      // Look for sentiment in various data sources
-      if (marketData.congress_trading) {
-        // Positive congress trading activity might indicate bullish sentiment
-        return 0.6;
-      }
-      
-      if (marketData.insider_trading) {
-        // Insider buying might indicate bullish sentiment
-        return 0.6;
+  private getSymbolData(symbol: string, marketData: MarketDataResponse): Record<string, unknown> {
+    const symbolData = marketData[symbol];
+    return symbolData && typeof symbolData === 'object' ? symbolData as Record<string, unknown> : {};
+  }
+
+  // First of the keys holding a usable number
+  private numberField(data: Record<string, unknown>, ...keys: string[]): number | undefined {
+    for (const key of keys) {
+      const value = Number(data[key]);
+      if (Number.isFinite(value) && value !== 0) return value;
+    }
+    return undefined;
+  }
+
+  // First of the keys holding a non-empty array of numbers
+  private numberArrayField(data: Record<string, unknown>, ...keys: string[]): number[] | undefined {
+    for (const key of keys) {
+      const value = data[key];
+      if (Array.isArray(value) && value.length > 0 && value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+        return value;
       }
-      
-      // Default neutral sentiment
-      return 0.5;
-      
-    } catch {
-      return 0.5;
     }
+    return undefined;
+  }
+
+  /**
+   * Volume, momentum and volatility inputs from the symbol's daily OHLCV bars
+   */
+  private summarizeBars(symbol: string, marketData: MarketDataResponse): BarSummary | null {
+    const bars = marketData.price_data?.[symbol]?.bars.slice(-PRICE_DATA_CONFIG.LOOKBACK_BARS);
+    if (!bars || bars.length === 0) return null;
+
+    const closes = bars.map(bar => bar.close);
+    const volumes = bars.map(bar => bar.volume);
+    const returns = closes.slice(1).map((close, i) => (close - closes[i]) / closes[i]);
+
+    return {
+      current_volume: volumes[volumes.length - 1],
+      average_volume: volumes.reduce((sum, v) => sum + v, 0) / volumes.length,
+      recent_prices: closes,
+      current_volatility: this.standardDeviation(returns.slice(-PRICE_DATA_CONFIG.SHORT_VOLATILITY_BARS)),
+      historical_volatility: this.standardDeviation(returns)
+    };
+  }
+
+  private standardDeviation(values: number[]): number {
+    if (values.length < 2) return 0;
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+    return Math.sqrt(variance);
+  }
+
+  /**
+   * Map the symbol's composite alt-data score (-1 to 1) onto 0-1 in the trade's direction
+   */
+  private extractSentimentIndicators(trade: TradeDecision, marketData: MarketDataResponse): number | null {
+    const signal = marketData.signal_scores?.[trade.symbol.toUpperCase()];
+    if (!signal) return null;
+
+    const directional = trade.action === 'SELL' ? -signal.composite : signal.composite;
+    return 0.5 + directional / 2;
   }
 
   private extractRSI(indicators: Record<string, unknown>): number | null {
@@ -0,0 +1,249 @@
+/**
+ * Circuit Breaker Service - Auto-pauses the agent on a bad day or a losing streak
+ * Trips on:
+ * - Day P&L below CIRCUIT_BREAKER_CONFIG.DAILY_LOSS_LIMIT of start-of-day equity
+ * - PERFORMANCE_THRESHOLDS.MAX_CONSECUTIVE_LOSSES losing exits in a row
+ * A trip pauses the agent, cancels pending entry orders (every order when flattening),
+ * optionally flattens positions, records an agent event and emails a resume link.
+ * Without flattening, stop and take-profit orders on held positions stay in place.
+ */
+
+import {
+  TradingLogger,
+  ITradingService,
+  IDatabaseService,
+  IEmailService,
+  AgentState,
+  CircuitBreakerTrip,
+  ClosedLot
+} from '../types/interfaces.ts';
+import { CIRCUIT_BREAKER_CONFIG, PERFORMANCE_THRESHOLDS } from '../config.ts';
+import { buildClientOrderId } from '../utils/clientOrderId.ts';
+import { crypto } from "https://deno.land/std@0.208.0/crypto/mod.ts";
+
+export class CircuitBreakerService {
+  private tradingService: ITradingService;
+  private databaseService: IDatabaseService;
+  private emailService: IEmailService;
+  private logger: TradingLogger;
+
+  constructor(
+    tradingService: ITradingService,
+    databaseService: IDatabaseService,
+    emailService: IEmailService,
+    logger: TradingLogger
+  ) {
+    this.tradingService = tradingService;
+    this.databaseService = databaseService;
+    this.emailService = emailService;
+    this.logger = logger;
+  }
+
+  /**
+   * Check both thresholds and trip the breaker if either is crossed.
+   * Updates the given state in place; the caller persists it when a trip is returned.
+   */
+  async check(state: AgentState): Promise<CircuitBreakerTrip | null> {
+    if (!CIRCUIT_BREAKER_CONFIG.ENABLED || state.is_paused) return null;
+
+    const trip = await this.checkDailyLoss(state) || await this.checkConsecutiveLosses(state);
+    if (!trip) return null;
+
+    await this.trip(state, trip);
+    return trip;
+  }
+
+  // Private helper methods
+
+  private async checkDailyLoss(state: AgentState): Promise<CircuitBreakerTrip | null> {
+    // A manual resume after today's daily-loss trip holds for the rest of the day
+    const previous = state.circuit_breaker;
+    if (previous?.trigger === 'daily_loss' && this.toMarketDate(previous.tripped_at) === this.toMarketDate(new Date().toISOString())) {
+      return null;
+    }
+
+    try {
+      const account = await this.tradingService.getAccountDetails();
+      const equity = account.equity || account.portfolio_value || account.balance;
+      const startOfDayEquity = equity - account.day_pnl;
+      if (!(startOfDayEquity > 0)) return null;
+
+      const dayReturn = account.day_pnl / startOfDayEquity;
+      if (dayReturn > -CIRCUIT_BREAKER_CONFIG.DAILY_LOSS_LIMIT) return null;
+
+      return {
+        trigger: 'daily_loss',
+        reason: `Day P&L $${account.day_pnl.toFixed(2)} (${(dayReturn * 100).toFixed(2)}%) breached the ` +
+          `-${(CIRCUIT_BREAKER_CONFIG.DAILY_LOSS_LIMIT * 100).toFixed(1)}% daily loss limit`,
+        tripped_at: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.log('ALERT', `Circuit breaker could not read account P&L: ${error}`);
+      return null;
+    }
+  }
+
+  private async checkConsecutiveLosses(state: AgentState): Promise<CircuitBreakerTrip | null> {
+    try {
+      const performance = await this.databaseService.getTradingPerformance();
+
+      // Losses before the last trip were already acted on, so the streak restarts after a resume
+      const since = state.circuit_breaker?.tripped_at || '';
+      const exits = this.groupByExit(performance.closed_lots.filter(lot => lot.closed_at > since));
+
+      let streak = 0;
+      for (let i = exits.length - 1; i >= 0 && exits[i].realized_pnl < 0; i--) {
+        streak++;
+      }
+
+      if (streak < PERFORMANCE_THRESHOLDS.MAX_CONSECUTIVE_LOSSES) return null;
+
+      const losingSymbols = exits.slice(-streak).map(exit => exit.symbol).join(', ');
+      return {
+        trigger: 'consecutive_losses',
+        reason: `${streak} consecutive losing trades (${losingSymbols}) reached the limit of ${PERFORMANCE_THRESHOLDS.MAX_CONSECUTIVE_LOSSES}`,
+        tripped_at: new Date().toISOString()
+      };
+    } catch (error) {
+      this.logger.log('ALERT', `Circuit breaker could not read trade performance: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * One exit fill can close several lots; it counts as a single trade
+   */
+  private groupByExit(closedLots: ClosedLot[]): Array<{ symbol: string; realized_pnl: number; closed_at: string }> {
+    const exits = new Map<string, { symbol: string; realized_pnl: number; closed_at: string }>();
+
+    for (const lot of closedLots) {
+      const exit = exits.get(lot.exit_fill_id);
+      if (exit) {
+        exit.realized_pnl += lot.realized_pnl;
+      } else {
+        exits.set(lot.exit_fill_id, { symbol: lot.symbol, realized_pnl: lot.realized_pnl, closed_at: lot.closed_at });
+      }
+    }
+
+    return Array.from(exits.values()).sort((a, b) => a.closed_at.localeCompare(b.closed_at));
+  }
+
+  private async trip(state: AgentState, trip: CircuitBreakerTrip): Promise<void> {
+    this.logger.log('ALERT', `🚨 CIRCUIT BREAKER TRIPPED: ${trip.reason}`);
+
+    const resumeToken = crypto.randomUUID();
+    state.is_paused = true;
+    state.pause_token = resumeToken;
+    state.circuit_breaker = trip;
+
+    let ordersCancelled = false;
+    try {
+      if (CIRCUIT_BREAKER_CONFIG.FLATTEN_POSITIONS) {
+        // Protective legs hold the shares at the broker, so they go before the flatten
+        ordersCancelled = await this.tradingService.cancelAllOrders() && await this.awaitNoOpenOrders();
+        this.logger.log('STATUS', ordersCancelled ? '🚫 All open orders cancelled' : '⚠️ Broker did not confirm order cancellation');
+      } else {
+        ordersCancelled = await this.cancelEntryOrders();
+        this.logger.log('STATUS', ordersCancelled
+          ? '🚫 Pending entry orders cancelled - protective orders left in place'
+          : '⚠️ Broker did not confirm entry order cancellation');
+      }
+    } catch (error) {
+      this.logger.log('ALERT', `Circuit breaker failed to cancel orders: ${error}`);
+    }
+
+    const flattened = CIRCUIT_BREAKER_CONFIG.FLATTEN_POSITIONS ? await this.flattenPositions(trip) : [];
+
+    await this.databaseService.storeAgentEvent('circuit_breaker', trip.reason, {
+      trigger: trip.trigger,
+      orders_cancelled: ordersCancelled,
+      flattened_symbols: flattened
+    });
+
+    const flattenNote = CIRCUIT_BREAKER_CONFIG.FLATTEN_POSITIONS
+      ? ` Flattened positions: ${flattened.length > 0 ? flattened.join(', ') : 'none'}.`
+      : '';
+    await this.emailService.sendResumeEmail(resumeToken, `${trip.reason}.${flattenNote}`);
+  }
+
+  /**
+   * Cancel open orders that would open or add to a position; orders reducing a held
+   * position (bracket legs, monitor exits) are kept. True if every cancel was confirmed.
+   */
+  private async cancelEntryOrders(): Promise<boolean> {
+    const [orders, positions] = await Promise.all([
+      this.tradingService.getPendingOrders(),
+      this.tradingService.getCurrentPositions()
+    ]);
+
+    let allCancelled = true;
+    for (const order of orders) {
+      const position = positions.find(p => p.symbol === order.symbol && p.qty !== 0);
+      const reducesPosition = position && (position.side === 'short' ? order.side === 'buy' : order.side === 'sell');
+      if (reducesPosition) continue;
+
+      if (await this.tradingService.cancelOrder(order.id)) {
+        this.logger.log('TRADE', `🚫 Cancelled pending ${order.side} order ${order.id} for ${order.symbol}`);
+      } else {
+        allCancelled = false;
+      }
+    }
+
+    return allCancelled;
+  }
+
+  /**
+   * Wait until the broker lists no open orders; cancel-all is asynchronous and a leg still
+   * working would hold the shares a flatten order needs
+   */
+  private async awaitNoOpenOrders(): Promise<boolean> {
+    for (let i = 0; i < CIRCUIT_BREAKER_CONFIG.CANCEL_CONFIRM_CHECKS; i++) {
+      if (i > 0) await new Promise(resolve => setTimeout(resolve, CIRCUIT_BREAKER_CONFIG.CANCEL_CONFIRM_DELAY_MS));
+      if ((await this.tradingService.getPendingOrders()).length === 0) return true;
+    }
+
+    this.logger.log('ALERT', `Open orders still listed after ${CIRCUIT_BREAKER_CONFIG.CANCEL_CONFIRM_CHECKS} checks - flattening anyway`);
+    return false;
+  }
+
+  /**
+   * Close every open position with a market order; returns the symbols submitted
+   */
+  private async flattenPositions(trip: CircuitBreakerTrip): Promise<string[]> {
+    const flattened: string[] = [];
+
+    try {
+      const positions = await this.tradingService.getCurrentPositions();
+
+      for (const position of positions) {
+        const quantity = Math.abs(position.qty);
+        if (quantity === 0) continue;
+
+        const execution = await this.tradingService.placeOrder({
+          symbol: position.symbol,
+          side: position.side === 'short' ? 'buy' : 'sell',
+          quantity,
+          order_type: 'market',
+          time_in_force: 'day',
+          reasoning: 'Circuit breaker flatten',
+          client_order_id: buildClientOrderId(`breaker-${trip.tripped_at}`, position.symbol, 'flatten')
+        });
+
+        if (execution.success) {
+          flattened.push(position.symbol);
+          this.logger.log('TRADE', `🧯 Flattened ${position.symbol} (${quantity} shares)`);
+        } else {
+          this.logger.log('ALERT', `❌ Failed to flatten ${position.symbol}: ${execution.error || 'unknown error'}`);
+        }
+      }
+    } catch (error) {
+      this.logger.log('ALERT', `Circuit breaker failed to flatten positions: ${error}`);
+    }
+
+    return flattened;
+  }
+
+  private toMarketDate(timestamp: string): string {
+    return new Date(timestamp).toLocaleDateString('en-US', { timeZone: 'America/New_York' });
+  }
+}
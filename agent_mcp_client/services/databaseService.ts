@@ -13,19 +13,29 @@ import {
   AgentState,
   ExecutedTrade,
   TradeRecord,
+  TradeStorageContext,
+  TradeFillUpdate,
+  TradeMetadataFilter,
+  ClosedLot,
+  AIValidationFailure,
   SupabaseResponse,
   MCPResponse
 } from '../types/interfaces.ts';
-import { DATABASE_CONFIG, PERFORMANCE_THRESHOLDS } from '../config.ts';
+import { DATABASE_CONFIG, LEDGER_CONFIG, PERFORMANCE_THRESHOLDS } from '../config.ts';
+import { ExitStrategyProgress } from './exitStrategyService.ts';
+import { TradeLedgerService } from './tradeLedgerService.ts';
+import { EnhancedTradePlan, EnhancedTradeDecision, EnhancedTradeMetadata } from './enhancedStrategyService.ts';
 import { crypto } from "https://deno.land/std@0.208.0/crypto/mod.ts";
 
 export class DatabaseService implements IDatabaseService {
   private supabaseClient: Client | null = null;
   private logger: TradingLogger;
+  private ledgerService: TradeLedgerService;
 
   constructor(supabaseClient: Client | null, logger: TradingLogger) {
     this.supabaseClient = supabaseClient;
     this.logger = logger;
+    this.ledgerService = new TradeLedgerService(logger);
   }
 
   /**
@@ -38,7 +48,12 @@ export class DatabaseService implements IDatabaseService {
   /**
    * Store trades in Supabase with enhanced data
    */
-  async storeTrades(executedTrades: ExecutedTrade[], tradePlan?: TradePlan, thoughtChain?: string[]): Promise<void> {
+  async storeTrades(
+    executedTrades: ExecutedTrade[],
+    tradePlan?: TradePlan,
+    thoughtChain?: string[],
+    context?: TradeStorageContext
+  ): Promise<void> {
     this.logger.log('STATUS', 'Storing trades in Supabase...');
 
     if (!this.supabaseClient) {
@@ -49,15 +64,25 @@ export class DatabaseService implements IDatabaseService {
       const sessionId = crypto.randomUUID();
       const performance = await this.getTradingPerformance();
       
+      const enhancedTrades = tradePlan && 'enhanced_trades' in tradePlan
+        ? (tradePlan as EnhancedTradePlan).enhanced_trades
+        : [];
+
       for (const trade of executedTrades) {
+        const tradeId = crypto.randomUUID();
         const tradeData = {
-          id: crypto.randomUUID(),
+          id: tradeId,
           session_id: sessionId,
           symbol: trade.symbol,
           action: trade.action,
           quantity: trade.executed_quantity || trade.quantity,
           price_target: trade.price_target,
           executed_price: trade.filled_avg_price || trade.price_target,
+          order_id: trade.order_id || null,
+          client_order_id: trade.client_order_id || null,
+          execution_style: trade.execution_style || null,
+          fees: trade.fees || 0,
+          closes_order_ids: trade.closes_order_ids || null,
           stop_loss: trade.stop_loss,
           take_profit: trade.take_profit,
           confidence: trade.confidence,
@@ -65,9 +90,9 @@ export class DatabaseService implements IDatabaseService {
           executed_at: trade.executed_at || new Date().toISOString(),
           status: trade.status || 'executed',
           
-          // Enhanced data (not available in ExecutedTrade, using defaults)
-          strategy: 'momentum_reversal', // Default strategy
-          account_balance: 0, // Will be updated by agent
+          // Agent context at execution time
+          strategy: context?.strategy || null,
+          account_balance: context?.account_balance ?? null,
           thought_chain: thoughtChain ? JSON.stringify(thoughtChain) : null,
           market_analysis: tradePlan?.market_analysis || null,
           risk_assessment: tradePlan?.risk_assessment || null,
@@ -89,6 +114,12 @@ export class DatabaseService implements IDatabaseService {
           }
         });
 
+        // Keep the sizing, breakout and exit artifacts that explain this position
+        const enhancedTrade = enhancedTrades.find(t => t.symbol === trade.symbol && t.action === trade.action);
+        if (enhancedTrade) {
+          await this.storeTradeMetadata(this.buildTradeMetadata(tradeId, trade, enhancedTrade, tradePlan, context));
+        }
+
         this.logger.log('STATUS', `💾 Stored ${trade.symbol} trade with full context`);
       }
 
@@ -99,6 +130,50 @@ export class DatabaseService implements IDatabaseService {
     }
   }
 
+  /**
+   * Record the broker's final fill for the trade row placed with this order
+   */
+  async updateTradeFill(orderId: string, fill: TradeFillUpdate): Promise<void> {
+    if (!this.supabaseClient) return;
+
+    try {
+      const data: Record<string, unknown> = {
+        status: fill.status,
+        order_status: fill.order_status,
+        executed_quantity: fill.filled_quantity,
+        filled_at: fill.filled_at || null,
+        updated_at: new Date().toISOString()
+      };
+      // Quantity must stay positive, so a zero fill leaves the ordered quantity on the failed row
+      if (fill.filled_quantity > 0) {
+        data.quantity = fill.filled_quantity;
+      }
+      if (fill.filled_avg_price) {
+        data.executed_price = fill.filled_avg_price;
+        data.filled_avg_price = fill.filled_avg_price;
+      }
+      if (fill.filled_at) {
+        data.executed_at = fill.filled_at;
+      }
+      if (fill.fees !== undefined) {
+        data.fees = fill.fees;
+      }
+
+      await this.supabaseClient.callTool({
+        name: 'update',
+        arguments: {
+          table: 'trades',
+          where: `order_id = "${orderId}"`,
+          data
+        }
+      });
+
+      this.logger.log('STATUS', `💾 Updated trade for order ${orderId}: ${fill.order_status}`);
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to update trade fill for order ${orderId}: ${error}`);
+    }
+  }
+
   /**
    * Get historical trades from Supabase
    */
@@ -138,10 +213,12 @@ export class DatabaseService implements IDatabaseService {
   }
 
   /**
-   * Get trading performance analytics
+   * Get trading performance analytics from realized, lot-matched round trips
    */
   async getTradingPerformance(): Promise<TradingPerformance> {
-    const trades = await this.getHistoricalTrades(DATABASE_CONFIG.PERFORMANCE_ANALYSIS_DAYS);
+    const cutoff = this.getCutoffDate(DATABASE_CONFIG.PERFORMANCE_ANALYSIS_DAYS);
+    const allTrades = await this.getHistoricalTrades(DATABASE_CONFIG.PERFORMANCE_ANALYSIS_DAYS + LEDGER_CONFIG.ENTRY_LOOKBACK_DAYS);
+    const trades = allTrades.filter(t => t.executed_at >= cutoff);
     
     if (trades.length === 0) {
       return {
@@ -153,29 +230,18 @@ export class DatabaseService implements IDatabaseService {
         worst_trade: null,
         symbols_traded: [],
         symbol_frequency: {},
-        recent_trades: []
+        recent_trades: [],
+        realized_pnl: 0,
+        total_fees: 0,
+        avg_holding_period_days: 0,
+        closed_lots: []
       };
     }
 
-    // Calculate performance metrics
-    const winningTrades = trades.filter(t => this.calculateTradeReturn(t) > 0);
-    const winRate = winningTrades.length / trades.length;
-    
-    const returns = trades.map(t => this.calculateTradeReturn(t));
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const totalReturn = returns.reduce((sum, r) => sum + r, 0);
-    
-    const bestTrade = trades.reduce((best, trade) => {
-      const tradeReturn = this.calculateTradeReturn(trade);
-      const bestReturn = this.calculateTradeReturn(best);
-      return tradeReturn > bestReturn ? trade : best;
-    }, trades[0]);
-    
-    const worstTrade = trades.reduce((worst, trade) => {
-      const tradeReturn = this.calculateTradeReturn(trade);
-      const worstReturn = this.calculateTradeReturn(worst);
-      return tradeReturn < worstReturn ? trade : worst;
-    }, trades[0]);
+    // Entries before the window are replayed so exits inside it match their real cost basis
+    const ledger = this.ledgerService.buildFromTradeRecords(allTrades);
+    const closedLots = ledger.closed_lots.filter(lot => lot.closed_at >= cutoff);
+    const summary = this.ledgerService.summarize(closedLots);
 
     const symbolCounts = trades.reduce((acc, trade) => {
       acc[trade.symbol] = (acc[trade.symbol] || 0) + 1;
@@ -183,18 +249,22 @@ export class DatabaseService implements IDatabaseService {
     }, {} as Record<string, number>);
 
     const performance: TradingPerformance = {
-      total_trades: trades.length,
-      win_rate: winRate,
-      avg_return: avgReturn,
-      total_return: totalReturn,
-      best_trade: bestTrade,
-      worst_trade: worstTrade,
+      total_trades: summary.closed_lot_count,
+      win_rate: summary.win_rate,
+      avg_return: summary.avg_return,
+      total_return: summary.total_return,
+      best_trade: this.findExitTrade(trades, summary.best_lot),
+      worst_trade: this.findExitTrade(trades, summary.worst_lot),
       symbols_traded: Object.keys(symbolCounts),
       symbol_frequency: symbolCounts,
-      recent_trades: trades.slice(0, 5)
+      recent_trades: trades.slice(0, 5),
+      realized_pnl: summary.realized_pnl,
+      total_fees: summary.total_fees,
+      avg_holding_period_days: summary.avg_holding_period_days,
+      closed_lots: closedLots
     };
 
-    this.logger.log('ANALYSIS', `Performance: ${trades.length} trades, ${(winRate * 100).toFixed(1)}% win rate, ${(avgReturn * 100).toFixed(2)}% avg return`);
+    this.logger.log('ANALYSIS', `Performance: ${summary.closed_lot_count} closed lots, ${(summary.win_rate * 100).toFixed(1)}% win rate, ${(summary.avg_return * 100).toFixed(2)}% avg return, $${summary.realized_pnl.toFixed(2)} realized`);
     return performance;
   }
 
@@ -202,7 +272,9 @@ export class DatabaseService implements IDatabaseService {
    * Get symbol-specific analysis
    */
   async getSymbolAnalysis(symbol: string): Promise<SymbolAnalysis> {
-    const trades = await this.getHistoricalTrades(DATABASE_CONFIG.SYMBOL_ANALYSIS_DAYS, symbol);
+    const cutoff = this.getCutoffDate(DATABASE_CONFIG.SYMBOL_ANALYSIS_DAYS);
+    const allTrades = await this.getHistoricalTrades(DATABASE_CONFIG.SYMBOL_ANALYSIS_DAYS + LEDGER_CONFIG.ENTRY_LOOKBACK_DAYS, symbol);
+    const trades = allTrades.filter(t => t.executed_at >= cutoff);
     
     if (trades.length === 0) {
       return {
@@ -211,32 +283,36 @@ export class DatabaseService implements IDatabaseService {
         avg_confidence: 0,
         win_rate: 0,
         avg_return: 0,
+        realized_pnl: 0,
+        closed_lot_count: 0,
         last_trade: null,
         patterns: [],
         recommendation: "Insufficient data for recommendation"
       };
     }
 
+    const closedLots = this.ledgerService.buildFromTradeRecords(allTrades).closed_lots
+      .filter(lot => lot.closed_at >= cutoff);
+    const summary = this.ledgerService.summarize(closedLots);
     const avgConfidence = trades.reduce((sum, t) => sum + (t.confidence || 0), 0) / trades.length;
-    const winningTrades = trades.filter(t => this.calculateTradeReturn(t) > 0);
-    const winRate = winningTrades.length / trades.length;
-    const avgReturn = trades.reduce((sum, t) => sum + this.calculateTradeReturn(t), 0) / trades.length;
 
     // Analyze patterns
-    const patterns = this.analyzeTradePatterns(trades);
+    const patterns = this.analyzeTradePatterns(trades, closedLots);
 
     const analysis: SymbolAnalysis = {
       symbol,
       trade_count: trades.length,
       avg_confidence: avgConfidence,
-      win_rate: winRate,
-      avg_return: avgReturn,
+      win_rate: summary.win_rate,
+      avg_return: summary.avg_return,
+      realized_pnl: summary.realized_pnl,
+      closed_lot_count: summary.closed_lot_count,
       last_trade: trades[0],
       patterns,
-      recommendation: this.generateSymbolRecommendation(trades, patterns)
+      recommendation: this.generateSymbolRecommendation(trades, closedLots, summary.win_rate)
     };
 
-    this.logger.log('ANALYSIS', `${symbol}: ${trades.length} trades, ${(winRate * 100).toFixed(1)}% win rate, confidence: ${(avgConfidence * 100).toFixed(1)}%`);
+    this.logger.log('ANALYSIS', `${symbol}: ${trades.length} trades, ${closedLots.length} closed lots, ${(summary.win_rate * 100).toFixed(1)}% win rate, confidence: ${(avgConfidence * 100).toFixed(1)}%`);
     return analysis;
   }
 
@@ -250,8 +326,9 @@ export class DatabaseService implements IDatabaseService {
     }
 
     try {
+      // A re-run of the session's workflow reuses the plan ID, so replace its earlier row
       await this.supabaseClient.callTool({
-        name: 'insert',
+        name: 'upsert',
         arguments: {
           table: 'predictions',
           data: {
@@ -262,6 +339,7 @@ export class DatabaseService implements IDatabaseService {
             risk_assessment: tradePlan.risk_assessment,
             total_risk_exposure: tradePlan.total_risk_exposure,
             strategy_used: 'momentum_reversal', // Should be passed from agent state
+            watchlist: tradePlan.watchlist ? JSON.stringify(tradePlan.watchlist) : null,
             created_at: tradePlan.created_at
           }
         }
@@ -411,6 +489,35 @@ export class DatabaseService implements IDatabaseService {
     }
   }
 
+  /**
+   * Store a Claude response that failed schema validation
+   */
+  async storeAIValidationFailure(failure: AIValidationFailure): Promise<void> {
+    if (!this.supabaseClient) return;
+
+    try {
+      await this.supabaseClient.callTool({
+        name: 'insert',
+        arguments: {
+          table: 'ai_validation_failures',
+          data: {
+            id: crypto.randomUUID(),
+            response_type: failure.response_type,
+            attempt: failure.attempt,
+            errors: JSON.stringify(failure.errors),
+            repairs: JSON.stringify(failure.repairs),
+            raw_response: failure.raw_response,
+            model: failure.model,
+            recovered: failure.recovered,
+            created_at: new Date().toISOString()
+          }
+        }
+      });
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to store AI validation failure: ${error}`);
+    }
+  }
+
   /**
    * Store agent state in database
    */
@@ -441,6 +548,7 @@ export class DatabaseService implements IDatabaseService {
             open_positions: JSON.stringify(state.open_positions),
             trade_history: JSON.stringify(state.trade_history),
             pause_token: state.pause_token,
+            circuit_breaker: state.circuit_breaker ? JSON.stringify(state.circuit_breaker) : null,
             updated_at: new Date().toISOString(),
             created_at: new Date().toISOString()
           }
@@ -479,7 +587,8 @@ export class DatabaseService implements IDatabaseService {
           account_balance: stateData.account_balance || 0,
           open_positions: stateData.open_positions ? JSON.parse(stateData.open_positions) : [],
           trade_history: stateData.trade_history ? JSON.parse(stateData.trade_history) : [],
-          pause_token: stateData.pause_token || undefined
+          pause_token: stateData.pause_token || undefined,
+          circuit_breaker: stateData.circuit_breaker ? JSON.parse(stateData.circuit_breaker) : undefined
         };
       }
 
@@ -533,6 +642,142 @@ export class DatabaseService implements IDatabaseService {
     }
   }
 
+  /**
+   * Store the enhanced strategy artifacts behind one trade
+   */
+  async storeTradeMetadata(metadata: EnhancedTradeMetadata): Promise<void> {
+    if (!this.supabaseClient) {
+      throw new Error('Supabase client not available');
+    }
+
+    try {
+      await this.supabaseClient.callTool({
+        name: 'insert',
+        arguments: {
+          table: 'trade_metadata',
+          data: {
+            ...metadata,
+            stop_loss_price: metadata.exit_strategy.stop_loss.trigger_price,
+            take_profit_prices: metadata.exit_strategy.take_profit_levels.map(level => level.trigger_price)
+          }
+        }
+      });
+    } catch (error) {
+      // The trade row itself is already stored; missing metadata should not fail the batch
+      this.logger.log('ALERT', `Failed to store trade metadata for ${metadata.symbol}: ${error}`);
+    }
+  }
+
+  /**
+   * Read back trade metadata, newest first
+   */
+  async getTradeMetadata(filter: TradeMetadataFilter = {}, limit: number = 50): Promise<EnhancedTradeMetadata[]> {
+    if (!this.supabaseClient) {
+      this.logger.log('ALERT', 'Supabase client not available for trade metadata');
+      return [];
+    }
+
+    try {
+      const conditions = Object.entries(filter)
+        .filter(([, value]) => value)
+        .map(([key, value]) => `${key} = '${value}'`);
+
+      const result = await this.supabaseClient.callTool({
+        name: 'select',
+        arguments: {
+          table: 'trade_metadata',
+          filter: conditions.length > 0 ? conditions.join(' AND ') : undefined,
+          order: 'created_at DESC',
+          limit
+        }
+      });
+
+      return this.extractDataFromResult(result).map(row => this.convertToTradeMetadata(row));
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to get trade metadata: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Store (insert or update) exit strategy progress for a monitored position
+   */
+  async storeExitStrategyProgress(progress: ExitStrategyProgress): Promise<void> {
+    if (!this.supabaseClient) {
+      throw new Error('Supabase client not available');
+    }
+
+    try {
+      await this.supabaseClient.callTool({
+        name: 'upsert',
+        arguments: {
+          table: 'exit_strategy_progress',
+          data: {
+            id: progress.id,
+            symbol: progress.symbol,
+            trade_plan_id: progress.trade_plan_id || null,
+            entry_order_id: progress.entry_order_id || null,
+            entry_cancel_at: progress.entry_cancel_at || null,
+            protective_order_ids: JSON.stringify(progress.protective_order_ids || []),
+            strategy: JSON.stringify(progress.strategy),
+            remaining_quantity: progress.remaining_quantity,
+            levels: JSON.stringify(progress.levels),
+            status: progress.status,
+            created_at: progress.created_at,
+            updated_at: progress.updated_at
+          },
+          options: {
+            onConflict: 'id',
+            ignoreDuplicates: false
+          }
+        }
+      });
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to store exit strategy progress for ${progress.symbol}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Get exit strategies that are still being monitored
+   */
+  async getActiveExitStrategies(): Promise<ExitStrategyProgress[]> {
+    if (!this.supabaseClient) {
+      throw new Error('Supabase client not available');
+    }
+
+    try {
+      const result = await this.supabaseClient.callTool({
+        name: 'select',
+        arguments: {
+          table: 'exit_strategy_progress',
+          filter: `status = 'active'`,
+          order: 'created_at ASC'
+        }
+      });
+
+      return this.extractDataFromResult(result).map(row => ({
+        id: String(row.id),
+        symbol: String(row.symbol),
+        trade_plan_id: row.trade_plan_id ? String(row.trade_plan_id) : undefined,
+        entry_order_id: row.entry_order_id ? String(row.entry_order_id) : undefined,
+        entry_cancel_at: row.entry_cancel_at ? String(row.entry_cancel_at) : undefined,
+        protective_order_ids: typeof row.protective_order_ids === 'string'
+          ? JSON.parse(row.protective_order_ids)
+          : (Array.isArray(row.protective_order_ids) ? row.protective_order_ids.map(String) : []),
+        strategy: typeof row.strategy === 'string' ? JSON.parse(row.strategy) : row.strategy,
+        remaining_quantity: Number(row.remaining_quantity || 0),
+        levels: typeof row.levels === 'string' ? JSON.parse(row.levels) : (row.levels || []),
+        status: row.status === 'closed' ? 'closed' : 'active',
+        created_at: String(row.created_at || new Date().toISOString()),
+        updated_at: String(row.updated_at || new Date().toISOString())
+      }) as ExitStrategyProgress);
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to get active exit strategies: ${error}`);
+      throw error;
+    }
+  }
+
   /**
    * Test database connection
    */
@@ -572,24 +817,31 @@ export class DatabaseService implements IDatabaseService {
 
   // Private helper methods
 
-  private calculateTradeReturn(trade: TradeRecord): number {
-    if (!trade) return 0;
-    const entry = trade.price_target || 0;
-    const exit = trade.executed_price || entry;
-    return trade.action === 'BUY' ? (exit - entry) / entry : (entry - exit) / entry;
+  private getCutoffDate(days: number): string {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - days);
+    return cutoffDate.toISOString();
+  }
+
+  /**
+   * Find the stored exit row that closed a lot
+   */
+  private findExitTrade(trades: TradeRecord[], lot: ClosedLot | null): TradeRecord | null {
+    if (!lot) return null;
+    return trades.find(t => (t.order_id || t.id) === lot.exit_fill_id) || null;
   }
 
-  private analyzeTradePatterns(trades: TradeRecord[]): TradePattern[] {
+  private analyzeTradePatterns(trades: TradeRecord[], closedLots: ClosedLot[]): TradePattern[] {
     const patterns: TradePattern[] = [];
     
-    // Consecutive wins/losses
+    // Consecutive wins/losses over realized round trips, in the order they closed
     let consecutiveWins = 0;
     let consecutiveLosses = 0;
     let maxWinStreak = 0;
     let maxLossStreak = 0;
     
-    for (const trade of trades) {
-      const isWin = this.calculateTradeReturn(trade) > 0;
+    for (const lot of closedLots) {
+      const isWin = lot.realized_pnl > 0;
       if (isWin) {
         consecutiveWins++;
         consecutiveLosses = 0;
@@ -627,10 +879,9 @@ export class DatabaseService implements IDatabaseService {
     return patterns;
   }
 
-  private generateSymbolRecommendation(trades: TradeRecord[], patterns: TradePattern[]): string {
-    if (trades.length < 3) return "Insufficient data for recommendation";
+  private generateSymbolRecommendation(trades: TradeRecord[], closedLots: ClosedLot[], winRate: number): string {
+    if (closedLots.length < 3) return "Insufficient data for recommendation";
     
-    const winRate = trades.filter(t => this.calculateTradeReturn(t) > 0).length / trades.length;
     const avgConfidence = trades.reduce((sum, t) => sum + (t.confidence || 0), 0) / trades.length;
     
     if (winRate > PERFORMANCE_THRESHOLDS.STRONG_BUY_WIN_RATE && avgConfidence > PERFORMANCE_THRESHOLDS.STRONG_BUY_CONFIDENCE) {
@@ -672,6 +923,9 @@ export class DatabaseService implements IDatabaseService {
       quantity: Number(row.quantity || 0),
       price_target: Number(row.price_target || 0),
       executed_price: row.executed_price ? Number(row.executed_price) : undefined,
+      order_id: row.order_id ? String(row.order_id) : undefined,
+      fees: row.fees ? Number(row.fees) : 0,
+      closes_order_ids: Array.isArray(row.closes_order_ids) ? row.closes_order_ids.map(String) : undefined,
       stop_loss: Number(row.stop_loss || 0),
       take_profit: Number(row.take_profit || 0),
       confidence: Number(row.confidence || 0),
@@ -693,6 +947,69 @@ export class DatabaseService implements IDatabaseService {
     }));
   }
 
+  private buildTradeMetadata(
+    tradeId: string,
+    trade: ExecutedTrade,
+    enhancedTrade: EnhancedTradeDecision,
+    tradePlan?: TradePlan,
+    context?: TradeStorageContext
+  ): EnhancedTradeMetadata {
+    return {
+      id: crypto.randomUUID(),
+      trade_id: tradeId,
+      trade_plan_id: tradePlan?.id,
+      order_id: trade.order_id,
+      symbol: trade.symbol,
+      action: trade.action,
+      strategy: context?.strategy,
+      account_balance: context?.account_balance,
+      signal_strength: enhancedTrade.position_sizing.signal_strength,
+      beta_cdf_value: enhancedTrade.position_sizing.beta_cdf_value,
+      position_percentage: enhancedTrade.position_sizing.position_percentage,
+      position_size: enhancedTrade.position_sizing.position_size,
+      original_quantity: enhancedTrade.original_quantity,
+      enhanced_quantity: enhancedTrade.enhanced_quantity,
+      risk_adjusted: enhancedTrade.risk_adjusted,
+      breakout_probability: enhancedTrade.breakout_probability,
+      breakout_indicators: enhancedTrade.breakout_indicators,
+      breakout_reasoning: enhancedTrade.breakout_reasoning,
+      filter_passed: enhancedTrade.filter_passed,
+      exit_strategy: enhancedTrade.exit_strategy,
+      created_at: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Convert a raw trade_metadata row, parsing JSON columns returned as text
+   */
+  private convertToTradeMetadata(row: Record<string, unknown>): EnhancedTradeMetadata {
+    const parseJson = <T>(value: unknown): T => (typeof value === 'string' ? JSON.parse(value) : value) as T;
+
+    return {
+      id: String(row.id || ''),
+      trade_id: row.trade_id ? String(row.trade_id) : undefined,
+      trade_plan_id: row.trade_plan_id ? String(row.trade_plan_id) : undefined,
+      order_id: row.order_id ? String(row.order_id) : undefined,
+      symbol: String(row.symbol || ''),
+      action: row.action === 'SELL' ? 'SELL' : 'BUY',
+      strategy: row.strategy ? String(row.strategy) : undefined,
+      account_balance: row.account_balance != null ? Number(row.account_balance) : undefined,
+      signal_strength: Number(row.signal_strength || 0),
+      beta_cdf_value: Number(row.beta_cdf_value || 0),
+      position_percentage: Number(row.position_percentage || 0),
+      position_size: Number(row.position_size || 0),
+      original_quantity: Number(row.original_quantity || 0),
+      enhanced_quantity: Number(row.enhanced_quantity || 0),
+      risk_adjusted: Boolean(row.risk_adjusted),
+      breakout_probability: Number(row.breakout_probability || 0),
+      breakout_indicators: parseJson(row.breakout_indicators),
+      breakout_reasoning: String(row.breakout_reasoning || ''),
+      filter_passed: Boolean(row.filter_passed),
+      exit_strategy: parseJson(row.exit_strategy),
+      created_at: String(row.created_at || new Date().toISOString())
+    };
+  }
+
   /**
    * Update client connection (for stopping/starting services)
    */
@@ -2,7 +2,17 @@
  * Direct Alpaca API Service - Replaces MCP server for Railway deployment
  */
 
-import { ITradingService, TradingLogger, AccountDetails, Position, Order, ExecutedTrade, TradePlan, AgentState, TradeDecision, AlpacaOrder } from '../types/interfaces.ts';
+import { ITradingService, TradingLogger, AccountDetails, Position, Order, OrderRequest, TradeExecutionResult, ExecutedTrade, TradePlan, AgentState, TradeDecision, AlpacaOrder, EntryExecutionStyle, IEntryScheduler, ProtectiveOrderIds } from '../types/interfaces.ts';
+import { buildClientOrderId } from '../utils/clientOrderId.ts';
+import { isMarketOpen, getNextOpen, formatExchangeTime } from '../utils/marketCalendar.ts';
+import {
+  getEntryExecutionStyle,
+  entryLimitPrice,
+  entryCancelDeadline,
+  twapSliceQuantities,
+  twapSliceTimes,
+  scheduledEntry
+} from '../utils/entryExecution.ts';
 
 export class DirectAlpacaService implements ITradingService {
   private logger: TradingLogger;
@@ -10,6 +20,7 @@ export class DirectAlpacaService implements ITradingService {
   private secretKey: string;
   private baseUrl: string;
   private paperTrading: boolean;
+  private entryScheduler: IEntryScheduler | null = null;
 
   constructor(logger: TradingLogger) {
     this.logger = logger;
@@ -46,7 +57,7 @@ export class DirectAlpacaService implements ITradingService {
         balance: parseFloat(data.cash),
         buying_power: parseFloat(data.buying_power),
         portfolio_value: parseFloat(data.portfolio_value),
-        day_pnl: parseFloat(data.daytrade_count || '0'),
+        day_pnl: parseFloat(data.equity) - parseFloat(data.last_equity || data.equity),
         cash: parseFloat(data.cash),
         equity: parseFloat(data.equity)
       };
@@ -118,7 +129,8 @@ export class DirectAlpacaService implements ITradingService {
         status: (order.status as string) as 'new' | 'partially_filled' | 'filled' | 'canceled' | 'rejected',
         time_in_force: 'day' as const,
         created_at: order.created_at as string,
-        updated_at: order.updated_at as string
+        updated_at: order.updated_at as string,
+        client_order_id: order.client_order_id as string | undefined
       }));
     } catch (error) {
       this.logger.log('ALERT', `Failed to get orders: ${error}`);
@@ -129,7 +141,7 @@ export class DirectAlpacaService implements ITradingService {
   /**
    * Place a market order
    */
-  async placeMarketOrder(symbol: string, side: 'buy' | 'sell', quantity: number): Promise<ExecutedTrade[]> {
+  async placeMarketOrder(symbol: string, side: 'buy' | 'sell', quantity: number, clientOrderId?: string): Promise<ExecutedTrade[]> {
     try {
       const orderData = {
         symbol: symbol,
@@ -139,50 +151,82 @@ export class DirectAlpacaService implements ITradingService {
         time_in_force: 'day'
       };
 
-      const response = await fetch(`${this.baseUrl}/v2/orders`, {
-        method: 'POST',
-        headers: {
-          'APCA-API-KEY-ID': this.apiKey,
-          'APCA-API-SECRET-KEY': this.secretKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(orderData)
-      });
-
-      if (!response.ok) {
-        throw new Error(`Alpaca API error: ${response.status} ${response.statusText}`);
-      }
-
-      const order = await response.json();
+      const order = await this.submitOrder(orderData, clientOrderId);
       
       this.logger.log('TRADE', `Placed ${side} order for ${quantity} shares of ${symbol}`);
       
-      return [{
-        symbol: order.symbol,
-        action: order.side === 'buy' ? 'BUY' : 'SELL',
-        quantity: parseFloat(order.qty),
-        price_target: order.filled_avg_price ? parseFloat(order.filled_avg_price) : 0,
-        stop_loss: 0,
-        take_profit: 0,
-        confidence: 0.8,
-        reasoning: 'Direct API order',
-        executed_quantity: parseFloat(order.filled_qty),
-        execution_result: {
-          success: order.status === 'filled',
-          orderId: order.id,
-          filledPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : 0
-        },
-        executed_at: order.filled_at || order.created_at,
-        order_id: order.id,
-        filled_avg_price: order.filled_avg_price ? parseFloat(order.filled_avg_price) : 0,
-        status: order.status === 'filled' ? 'executed' : 'pending'
-      }];
+      return [this.toExecutedTrade(order, 'Direct API order')];
     } catch (error) {
       this.logger.log('ALERT', `Failed to place market order: ${error}`);
       throw error;
     }
   }
 
+  /**
+   * Place a day limit order; the order tracker cancels any unfilled remainder at the entry deadline
+   */
+  async placeLimitOrder(
+    symbol: string,
+    side: 'buy' | 'sell',
+    quantity: number,
+    limitPrice: number,
+    clientOrderId?: string
+  ): Promise<ExecutedTrade[]> {
+    try {
+      const orderData = {
+        symbol: symbol,
+        qty: quantity.toString(),
+        side: side,
+        type: 'limit',
+        limit_price: this.formatPrice(limitPrice),
+        time_in_force: 'day'
+      };
+
+      const order = await this.submitOrder(orderData, clientOrderId);
+
+      this.logger.log('TRADE', `Placed ${side} limit order for ${quantity} shares of ${symbol} @ $${orderData.limit_price}`);
+
+      return [this.toExecutedTrade(order, 'Direct API limit order')];
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to place limit order: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Place a single order (used for exits outside of a trade plan)
+   */
+  async placeOrder(order: OrderRequest): Promise<TradeExecutionResult> {
+    try {
+      const orderData: Record<string, string> = {
+        symbol: order.symbol,
+        qty: order.quantity.toString(),
+        side: order.side,
+        type: order.order_type,
+        time_in_force: order.time_in_force || 'day'
+      };
+
+      if (order.order_type === 'limit' && order.price) {
+        orderData.limit_price = order.price.toFixed(2);
+      } else if (order.order_type === 'stop' && order.price) {
+        orderData.stop_price = order.price.toFixed(2);
+      }
+
+      const result = await this.submitOrder(orderData, order.client_order_id);
+
+      this.logger.log('TRADE', `Placed ${order.order_type} ${order.side} order for ${order.quantity} shares of ${order.symbol}`);
+
+      return {
+        success: true,
+        orderId: result.id,
+        filledPrice: result.filled_avg_price ? parseFloat(result.filled_avg_price) : undefined
+      };
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to place ${order.order_type} order for ${order.symbol}: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  }
+
   /**
    * Cancel all orders
    */
@@ -237,12 +281,31 @@ export class DirectAlpacaService implements ITradingService {
    */
   async executeTrades(tradePlan: TradePlan, agentState?: AgentState): Promise<ExecutedTrade[]> {
     const executedTrades: ExecutedTrade[] = [];
+    const style = getEntryExecutionStyle();
+    if (style !== 'market') {
+      this.logger.log('TRADE', `Entry execution style: ${style}`);
+    }
     
     for (const trade of tradePlan.trades) {
       try {
-        const side = trade.action === 'BUY' ? 'buy' : 'sell';
-        const trades = await this.placeMarketOrder(trade.symbol, side, trade.quantity);
-        executedTrades.push(...trades);
+        if (style === 'twap') {
+          executedTrades.push(...await this.placeTwapEntry(trade, tradePlan.id));
+          continue;
+        }
+
+        // A re-run of the plan finds the entry it already placed instead of buying again
+        const clientOrderId = buildClientOrderId(tradePlan.id, trade.symbol, 'entry');
+
+        // A collar priced before the open would come from a stale quote, so the entry waits for the open
+        if (style === 'marketable_limit' && !isMarketOpen() && this.entryScheduler) {
+          const openAt = getNextOpen();
+          this.entryScheduler.schedule(openAt, tradePlan.id, `${trade.action} ${trade.symbol} marketable-limit entry`,
+            () => this.placeEntry(trade, style, clientOrderId));
+          executedTrades.push(scheduledEntry(trade, clientOrderId, style, entryCancelDeadline(style, openAt), openAt));
+          continue;
+        }
+
+        executedTrades.push(...await this.placeEntry(trade, style, clientOrderId));
       } catch (error) {
         this.logger.log('ALERT', `Failed to execute trade for ${trade.symbol}: ${error}`);
       }
@@ -252,11 +315,129 @@ export class DirectAlpacaService implements ITradingService {
   }
 
   /**
-   * Set stop loss and take profit (not implemented for direct API)
+   * Place a bracket order: market (or limit) entry with stop loss and take profit legs
+   */
+  async placeBracketOrder(trade: TradeDecision, clientOrderId?: string, limitPrice?: number): Promise<ExecutedTrade> {
+    try {
+      const orderData = {
+        symbol: trade.symbol,
+        qty: trade.quantity.toString(),
+        side: trade.action === 'BUY' ? 'buy' : 'sell',
+        type: limitPrice ? 'limit' : 'market',
+        ...(limitPrice ? { limit_price: this.formatPrice(limitPrice) } : {}),
+        time_in_force: 'gtc', // Legs inherit the parent's time in force
+        order_class: 'bracket',
+        take_profit: {
+          limit_price: this.formatPrice(trade.take_profit)
+        },
+        stop_loss: {
+          stop_price: this.formatPrice(trade.stop_loss)
+        }
+      };
+
+      const order = await this.submitOrder(orderData, clientOrderId);
+      const childOrderIds = this.extractChildOrderIds(order.legs);
+
+      this.logger.log('TRADE', 
+        `Placed bracket ${orderData.side} order for ${trade.quantity} ${trade.symbol} ` +
+        `(stop $${orderData.stop_loss.stop_price}, take profit $${orderData.take_profit.limit_price})`
+      );
+
+      return {
+        ...trade,
+        executed_quantity: parseFloat(order.filled_qty || '0') || 0,
+        execution_result: {
+          success: true,
+          orderId: order.id,
+          filledPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined
+        },
+        executed_at: order.filled_at || order.created_at,
+        order_id: order.id,
+        client_order_id: order.client_order_id,
+        filled_avg_price: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
+        fees: Number(order.commission) || 0,
+        status: order.status === 'filled' ? 'executed' : 'pending',
+        order_class: 'bracket',
+        child_order_ids: childOrderIds
+      };
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to place bracket order for ${trade.symbol}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Place an OCO exit order: take profit limit and stop loss, one cancels the other
+   */
+  async placeOcoOrder(
+    symbol: string,
+    side: 'buy' | 'sell',
+    quantity: number,
+    takeProfitPrice: number,
+    stopLossPrice: number,
+    clientOrderId?: string
+  ): Promise<{ order_id: string; child_order_ids: ProtectiveOrderIds }> {
+    try {
+      const orderData = {
+        symbol,
+        qty: quantity.toString(),
+        side,
+        type: 'limit',
+        time_in_force: 'gtc',
+        order_class: 'oco',
+        take_profit: {
+          limit_price: this.formatPrice(takeProfitPrice)
+        },
+        stop_loss: {
+          stop_price: this.formatPrice(stopLossPrice)
+        }
+      };
+
+      const order = await this.submitOrder(orderData, clientOrderId);
+
+      this.logger.log('TRADE', 
+        `Placed OCO ${side} order for ${quantity} ${symbol} ` +
+        `(stop $${orderData.stop_loss.stop_price}, take profit $${orderData.take_profit.limit_price})`
+      );
+
+      // The parent of an OCO order is the take profit leg; the stop is its only child
+      return {
+        order_id: order.id,
+        child_order_ids: {
+          take_profit: order.id,
+          stop_loss: this.extractChildOrderIds(order.legs).stop_loss
+        }
+      };
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to place OCO order for ${symbol}: ${error}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Set stop loss and take profit on an existing position with an OCO order
    */
-  setStopLossAndTakeProfit(trade: TradeDecision, orderId: string): Promise<void> {
-    this.logger.log('STATUS', `Stop loss and take profit not implemented for direct API`);
-    return Promise.resolve();
+  async setStopLossAndTakeProfit(trade: TradeDecision, orderId: string, tradePlanId?: string): Promise<ProtectiveOrderIds | undefined> {
+    if (!this.hasValidProtectiveLevels(trade)) {
+      this.logger.log('ALERT', `Cannot protect ${trade.symbol} (order ${orderId}) - invalid stop/take-profit levels`);
+      return undefined;
+    }
+
+    try {
+      const oco = await this.placeOcoOrder(
+        trade.symbol,
+        trade.action === 'BUY' ? 'sell' : 'buy',
+        trade.quantity,
+        trade.take_profit,
+        trade.stop_loss,
+        buildClientOrderId(tradePlanId || `order-${orderId}`, trade.symbol, 'protect')
+      );
+      this.logger.log('STATUS', `Set stop loss and take profit for ${trade.symbol} (entry order ${orderId})`);
+      return oco.child_order_ids;
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to set stop/profit orders for ${trade.symbol}: ${error}`);
+      return undefined;
+    }
   }
 
   /**
@@ -339,6 +520,7 @@ export class DirectAlpacaService implements ITradingService {
         asset_class: data.asset_class,
         qty: data.qty,
         filled_qty: data.filled_qty,
+        filled_avg_price: data.filled_avg_price,
         type: data.type,
         side: data.side,
         time_in_force: data.time_in_force,
@@ -354,6 +536,31 @@ export class DirectAlpacaService implements ITradingService {
     }
   }
 
+  /**
+   * Find an order by its client_order_id, or null when the broker has none
+   */
+  async findOrderByClientOrderId(clientOrderId: string): Promise<AlpacaOrder | null> {
+    const response = await fetch(
+      `${this.baseUrl}/v2/orders:by_client_order_id?client_order_id=${encodeURIComponent(clientOrderId)}`,
+      {
+        headers: {
+          'APCA-API-KEY-ID': this.apiKey,
+          'APCA-API-SECRET-KEY': this.secretKey,
+        }
+      }
+    );
+
+    if (response.status === 404) {
+      await response.body?.cancel();
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Alpaca API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
   async getMarketData(symbol: string): Promise<Record<string, unknown>> {
     try {
       const response = await fetch(`https://data.alpaca.markets/v2/stocks/${symbol}/quotes/latest`, {
@@ -375,9 +582,207 @@ export class DirectAlpacaService implements ITradingService {
     }
   }
 
-  waitForMarketOpen(): Promise<void> {
-    this.logger.log('STATUS', 'Market open check not implemented for direct API');
-    return Promise.resolve();
+  // Private helper methods
+
+  /**
+   * Submit one entry in the given style; bracket orders attach the protective stop and take profit at the broker
+   */
+  private async placeEntry(trade: TradeDecision, style: EntryExecutionStyle, clientOrderId: string): Promise<ExecutedTrade[]> {
+    const limitPrice = style === 'market'
+      ? undefined
+      : entryLimitPrice(style, trade, style === 'limit' ? {} : await this.getMarketData(trade.symbol));
+    const side = trade.action === 'BUY' ? 'buy' : 'sell';
+
+    let entries: ExecutedTrade[];
+    if (this.hasValidProtectiveLevels(trade)) {
+      entries = [await this.placeBracketOrder(trade, clientOrderId, limitPrice)];
+    } else if (limitPrice) {
+      this.logger.log('ALERT', `Invalid stop/take-profit for ${trade.symbol} - placing unprotected limit order`);
+      entries = await this.placeLimitOrder(trade.symbol, side, trade.quantity, limitPrice, clientOrderId);
+    } else {
+      this.logger.log('ALERT', `Invalid stop/take-profit for ${trade.symbol} - placing unprotected market order`);
+      entries = await this.placeMarketOrder(trade.symbol, side, trade.quantity, clientOrderId);
+    }
+
+    const cancelAt = style !== 'market' ? entryCancelDeadline(style) : undefined;
+    return entries.map(entry => ({ ...entry, execution_style: style, ...(cancelAt ? { cancel_at: cancelAt } : {}) }));
+  }
+
+  /**
+   * Spread an entry over TWAP_WINDOW_MINUTES from now (or the open) as marketable-limit slices.
+   * Slices due now are placed here; the rest go to the entry scheduler so the workflow does not wait.
+   * A failed slice does not stop the rest.
+   */
+  private async placeTwapEntry(trade: TradeDecision, tradePlanId: string): Promise<ExecutedTrade[]> {
+    if (!this.entryScheduler) {
+      throw new Error('TWAP entries need an entry scheduler');
+    }
+
+    const slices = twapSliceQuantities(trade.quantity);
+    const times = twapSliceTimes(slices.length);
+    const interval = times.length > 1 ? times[1].getTime() - times[0].getTime() : 0;
+    const cancelAt = entryCancelDeadline('twap');
+    const sliceTrades: ExecutedTrade[] = [];
+
+    this.logger.log('TRADE',
+      `⏳ TWAP ${trade.action} ${trade.quantity} ${trade.symbol} in ${slices.length} slices every ` +
+      `${Math.round(interval / 60000)} min from ${formatExchangeTime(times[0])}`
+    );
+
+    for (const [i, sliceQuantity] of slices.entries()) {
+      const sliceTrade = { ...trade, quantity: sliceQuantity };
+      const clientOrderId = buildClientOrderId(tradePlanId, trade.symbol, `entry-twap-${i + 1}`);
+      const submit = async () => (await this.placeEntry(sliceTrade, 'marketable_limit', clientOrderId))
+        .map(entry => ({ ...entry, execution_style: 'twap' as const, cancel_at: cancelAt }));
+
+      if (times[i].getTime() > Date.now()) {
+        this.entryScheduler.schedule(times[i], tradePlanId, `TWAP slice ${i + 1}/${slices.length} for ${trade.symbol}`, submit);
+        sliceTrades.push(scheduledEntry(sliceTrade, clientOrderId, 'twap', cancelAt, times[i]));
+        continue;
+      }
+
+      try {
+        sliceTrades.push(...await submit());
+      } catch (error) {
+        this.logger.log('ALERT', `TWAP slice ${i + 1}/${slices.length} for ${trade.symbol} failed: ${error}`);
+      }
+    }
+
+    return sliceTrades;
+  }
+
+  private toExecutedTrade(order: AlpacaOrder, reasoning: string): ExecutedTrade {
+    return {
+      symbol: order.symbol,
+      action: order.side === 'buy' ? 'BUY' : 'SELL',
+      quantity: parseFloat(order.qty),
+      price_target: order.filled_avg_price ? parseFloat(order.filled_avg_price) : 0,
+      stop_loss: 0,
+      take_profit: 0,
+      confidence: 0.8,
+      reasoning,
+      executed_quantity: parseFloat(order.filled_qty),
+      execution_result: {
+        success: order.status === 'filled',
+        orderId: order.id,
+        filledPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : 0
+      },
+      executed_at: order.filled_at || order.created_at,
+      order_id: order.id,
+      client_order_id: order.client_order_id,
+      filled_avg_price: order.filled_avg_price ? parseFloat(order.filled_avg_price) : 0,
+      fees: Number(order.commission) || 0,
+      status: order.status === 'filled' ? 'executed' : 'pending'
+    };
+  }
+
+  /**
+   * POST an order once per client_order_id: an order the broker already holds under the ID
+   * (from an earlier run or a request that timed out after Alpaca accepted it) is returned instead
+   */
+  private async submitOrder(orderData: Record<string, unknown>, clientOrderId?: string): Promise<AlpacaOrder> {
+    if (clientOrderId) {
+      const existing = await this.findExistingOrder(clientOrderId);
+      if (existing) return existing;
+    }
+
+    const response = await fetch(`${this.baseUrl}/v2/orders`, {
+      method: 'POST',
+      headers: {
+        'APCA-API-KEY-ID': this.apiKey,
+        'APCA-API-SECRET-KEY': this.secretKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(clientOrderId ? { ...orderData, client_order_id: clientOrderId } : orderData)
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+
+      // Alpaca rejects a reused client_order_id; the order from the earlier attempt is the result
+      if (clientOrderId && response.status === 422 && /client_order_id/i.test(body)) {
+        const existing = await this.findExistingOrder(clientOrderId);
+        if (existing) return existing;
+      }
+      throw new Error(`Alpaca API error: ${response.status} ${response.statusText} - ${body}`);
+    }
+
+    return await response.json();
+  }
+
+  private async findExistingOrder(clientOrderId: string): Promise<AlpacaOrder | null> {
+    try {
+      const existing = await this.findOrderByClientOrderId(clientOrderId);
+      if (existing) {
+        this.logger.log('TRADE', `♻️ ${existing.symbol} order ${clientOrderId} already at broker (${existing.status}) - not resubmitting`);
+      }
+      return existing;
+    } catch (error) {
+      // Alpaca still rejects a duplicate client_order_id, so submitting stays safe
+      this.logger.log('ALERT', `Order lookup for ${clientOrderId} failed, submitting: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Check that stop loss and take profit sit on the correct side of the entry
+   */
+  private hasValidProtectiveLevels(trade: TradeDecision): boolean {
+    if (!(trade.stop_loss > 0) || !(trade.take_profit > 0) || !(trade.price_target > 0)) {
+      return false;
+    }
+
+    return trade.action === 'BUY'
+      ? trade.stop_loss < trade.price_target && trade.take_profit > trade.price_target
+      : trade.stop_loss > trade.price_target && trade.take_profit < trade.price_target;
+  }
+
+  /**
+   * Map bracket/OCO legs to stop loss and take profit order IDs
+   */
+  private extractChildOrderIds(legs: unknown): ProtectiveOrderIds {
+    const childOrderIds: ProtectiveOrderIds = {};
+    if (!Array.isArray(legs)) return childOrderIds;
+
+    for (const leg of legs as Array<Record<string, unknown>>) {
+      if (leg.type === 'stop' || leg.type === 'stop_limit' || leg.type === 'trailing_stop') {
+        childOrderIds.stop_loss = leg.id as string;
+      } else if (leg.type === 'limit') {
+        childOrderIds.take_profit = leg.id as string;
+      }
+    }
+
+    return childOrderIds;
+  }
+
+  /**
+   * Alpaca rejects sub-penny prices for stocks above $1
+   */
+  private formatPrice(price: number): string {
+    return price >= 1 ? price.toFixed(2) : price.toFixed(4);
+  }
+
+  setEntryScheduler(scheduler: IEntryScheduler): void {
+    this.entryScheduler = scheduler;
+  }
+
+  async waitForMarketOpen(): Promise<void> {
+    if (isMarketOpen()) {
+      return;
+    }
+
+    const nextOpen = getNextOpen();
+    const waitTime = nextOpen.getTime() - Date.now();
+
+    this.logger.log('STATUS', `Waiting ${Math.round(waitTime / 60000)} minutes for market open at ${formatExchangeTime(nextOpen)}`);
+
+    // For long waits (more than 1 hour), just log and return; day orders queue until the open
+    if (waitTime > 3600000) {
+      this.logger.log('STATUS', 'Market opens later today or tomorrow - orders will queue for the open');
+      return;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, waitTime));
   }
 
   // Note: cancelAllOrders is already implemented above
@@ -6,6 +6,7 @@ import { Resend } from "resend";
 import { IEmailService, TradePlan, AccountDetails, TradingLogger, TradeRecord } from '../types/interfaces.ts';
 import { EMAIL_CONFIG, ENV_KEYS, isEmailConfigured } from '../config.ts';
 import { crypto } from "https://deno.land/std@0.208.0/crypto/mod.ts";
+import { RiskAssessment } from './riskEngineService.ts';
 
 export class EmailService implements IEmailService {
   private resend: Resend | null = null;
@@ -224,14 +225,17 @@ export class EmailService implements IEmailService {
   }
 
   /**
-   * Send resume email with resume link
+   * Send resume email with resume link; a reason marks an automatic pause
    */
-  async sendResumeEmail(resumeToken: string): Promise<void> {
-    const resumeContent = this.buildResumeEmailContent(resumeToken);
+  async sendResumeEmail(resumeToken: string, reason?: string): Promise<void> {
+    const resumeContent = this.buildResumeEmailContent(resumeToken, reason);
+    const subject = reason
+      ? '🚨 Trading Agent Auto-Paused - Resume Link'
+      : '⏸️ Trading Agent Paused - Resume Link';
 
     let emailsSent = 0;
     for (const recipient of EMAIL_CONFIG.recipients) {
-      if (await this.sendEmail(recipient, '⏸️ Trading Agent Paused - Resume Link', resumeContent)) {
+      if (await this.sendEmail(recipient, subject, resumeContent)) {
         emailsSent++;
       }
     }
@@ -239,6 +243,25 @@ export class EmailService implements IEmailService {
     this.logger.log('STATUS', `Resume email sent to ${emailsSent}/${EMAIL_CONFIG.recipients.length} recipients`);
   }
 
+  /**
+   * Send pre-trade risk decisions
+   */
+  async sendRiskAssessmentEmail(assessment: RiskAssessment): Promise<void> {
+    const riskContent = this.buildRiskAssessmentContent(assessment);
+    const subject = assessment.rejected + assessment.resized > 0
+      ? `🛡️ Risk Engine - ${assessment.rejected} rejected, ${assessment.resized} resized`
+      : `🛡️ Risk Engine - ${assessment.accepted} trades approved`;
+
+    let emailsSent = 0;
+    for (const recipient of EMAIL_CONFIG.tradePlanRecipients) {
+      if (await this.sendEmail(recipient, subject, riskContent)) {
+        emailsSent++;
+      }
+    }
+    
+    this.logger.log('STATUS', `Risk assessment emailed to ${emailsSent}/${EMAIL_CONFIG.tradePlanRecipients.length} recipients`);
+  }
+
   /**
    * Send startup notification
    */
@@ -411,10 +434,15 @@ ${error.stack || 'No stack trace available'}
     `;
   }
 
-  private buildResumeEmailContent(resumeToken: string): string {
+  private buildResumeEmailContent(resumeToken: string, reason?: string): string {
+    const pauseDescription = reason
+      ? `<p>The autonomous trading agent was paused automatically by the circuit breaker.</p>
+    <p><strong>Reason:</strong> ${reason}</p>`
+      : '<p>The autonomous trading agent has been paused as requested.</p>';
+
     return `
-    <h2>⏸️ Trading Agent Paused</h2>
-    <p>The autonomous trading agent has been paused as requested.</p>
+    <h2>${reason ? '🚨' : '⏸️'} Trading Agent Paused</h2>
+    ${pauseDescription}
     <p>Click the button below to resume trading when you're ready:</p>
     
     <div style="text-align: center; margin: 30px 0;">
@@ -429,7 +457,7 @@ ${error.stack || 'No stack trace available'}
       <ul>
         <li>This link is secure and will expire after use</li>
         <li>Trading will resume on the next scheduled run</li>
-        <li>All current positions remain unchanged</li>
+        <li>${reason ? 'Review open positions before resuming' : 'All current positions remain unchanged'}</li>
       </ul>
     </div>
     
@@ -499,6 +527,30 @@ ${error.stack || 'No stack trace available'}
     `;
   }
 
+  private buildRiskAssessmentContent(assessment: RiskAssessment): string {
+    const colors = { accept: '#d4edda', resize: '#fff3cd', reject: '#f8d7da' };
+
+    return `
+    <h2>🛡️ Pre-Trade Risk Assessment</h2>
+    <p>${assessment.accepted} accepted, ${assessment.resized} resized, ${assessment.rejected} rejected</p>
+    <p><strong>Equity:</strong> $${assessment.equity.toLocaleString()}</p>
+    <p><strong>Gross Exposure:</strong> $${assessment.gross_exposure_before.toFixed(2)} → $${assessment.gross_exposure_after.toFixed(2)}</p>
+    <p><strong>Net Exposure After:</strong> $${assessment.net_exposure_after.toFixed(2)}</p>
+    
+    ${assessment.decisions.map(decision => `
+      <div style="background: ${colors[decision.decision]}; border: 1px solid #ccc; padding: 10px; margin: 10px 0;">
+        <h4>${decision.decision.toUpperCase()}: ${decision.action} ${decision.symbol}</h4>
+        <p><strong>Quantity:</strong> ${decision.requested_quantity}${decision.decision === 'resize' ? ` → ${decision.approved_quantity}` : ''} @ $${decision.price}</p>
+        <ul>
+          ${decision.checks.map(check => `<li>${check.passed ? '✅' : '❌'} ${check.limit}: ${check.detail}</li>`).join('')}
+        </ul>
+      </div>
+    `).join('')}
+    
+    <p><small>Evaluated at ${new Date(assessment.evaluated_at).toLocaleString('en-US', { timeZone: 'America/New_York' })}</small></p>
+    `;
+  }
+
   private buildTestEmailContent(): string {
     return `
     <h2>🧪 Ada Analytics Test Email</h2>
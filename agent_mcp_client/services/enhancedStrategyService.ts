@@ -13,7 +13,7 @@ import {
   ITradingService 
 } from '../types/interfaces.ts';
 import { PositionSizingService, PositionSizingResult } from './positionSizingService.ts';
-import { BreakoutProbabilityService, BreakoutFilterResult } from './breakoutProbabilityService.ts';
+import { BreakoutProbabilityService, BreakoutFilterResult, BreakoutIndicators } from './breakoutProbabilityService.ts';
 import { ExitStrategyService, EnhancedExitStrategy } from './exitStrategyService.ts';
 
 export interface EnhancedTradePlan extends TradePlan {
@@ -27,6 +27,8 @@ export interface EnhancedTradePlan extends TradePlan {
 export interface EnhancedTradeDecision extends TradeDecision {
   position_sizing: PositionSizingResult;
   breakout_probability: number;
+  breakout_indicators: BreakoutIndicators;
+  breakout_reasoning: string;
   exit_strategy: EnhancedExitStrategy;
   original_quantity: number;
   enhanced_quantity: number;
@@ -34,6 +36,31 @@ export interface EnhancedTradeDecision extends TradeDecision {
   filter_passed: boolean;
 }
 
+// Per-trade record of why and how a position was opened, persisted alongside the trade row
+export interface EnhancedTradeMetadata {
+  id: string;
+  trade_id?: string;
+  trade_plan_id?: string;
+  order_id?: string;
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  strategy?: string;
+  account_balance?: number;
+  signal_strength: number;
+  beta_cdf_value: number;
+  position_percentage: number;
+  position_size: number;
+  original_quantity: number;
+  enhanced_quantity: number;
+  risk_adjusted: boolean;
+  breakout_probability: number;
+  breakout_indicators: BreakoutIndicators;
+  breakout_reasoning: string;
+  filter_passed: boolean;
+  exit_strategy: EnhancedExitStrategy;
+  created_at: string;
+}
+
 export interface StrategyPerformanceMetrics {
   original_trade_count: number;
   filtered_trade_count: number;
@@ -137,6 +164,8 @@ export class EnhancedStrategyService {
           ...enhancedTradeWithExits,
           position_sizing: positionSizing,
           breakout_probability: breakoutResult.probability,
+          breakout_indicators: breakoutResult.market_indicators,
+          breakout_reasoning: breakoutResult.reasoning,
           exit_strategy: exitStrategy,
           original_quantity: trade.quantity,
           enhanced_quantity: positionSizing.position_size,
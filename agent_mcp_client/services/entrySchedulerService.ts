@@ -0,0 +1,66 @@
+/**
+ * Entry Scheduler Service - Submits entry orders at a later time, off the trading workflow
+ * Brokers hand it TWAP slices and marketable-limit entries held for the open, so the workflow
+ * does not sleep through the window and collars are priced from a live quote. Each batch of
+ * orders placed goes to the listener for storage and order tracking.
+ */
+
+import { TradingLogger, ExecutedTrade, IEntryScheduler } from '../types/interfaces.ts';
+import { formatExchangeTime } from '../utils/marketCalendar.ts';
+
+export type ScheduledEntriesListener = (tradePlanId: string, trades: ExecutedTrade[]) => Promise<void>;
+
+export class EntrySchedulerService implements IEntryScheduler {
+  private logger: TradingLogger;
+  private listener: ScheduledEntriesListener | null = null;
+  private timers: Set<ReturnType<typeof setTimeout>> = new Set();
+
+  constructor(logger: TradingLogger) {
+    this.logger = logger;
+  }
+
+  /**
+   * Receives the orders each scheduled submission placed
+   */
+  setListener(listener: ScheduledEntriesListener): void {
+    this.listener = listener;
+  }
+
+  schedule(at: Date, tradePlanId: string, description: string, submit: () => Promise<ExecutedTrade[]>): void {
+    const delay = Math.max(0, at.getTime() - Date.now());
+    const timer = setTimeout(async () => {
+      this.timers.delete(timer);
+      await this.run(tradePlanId, description, submit);
+    }, delay);
+    this.timers.add(timer);
+
+    this.logger.log('TRADE', `🗓️ Scheduled ${description} for ${formatExchangeTime(at)}`);
+  }
+
+  getPendingCount(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Drop every submission that has not run yet
+   */
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  // Private helper methods
+
+  private async run(tradePlanId: string, description: string, submit: () => Promise<ExecutedTrade[]>): Promise<void> {
+    try {
+      const trades = await submit();
+      if (trades.length > 0 && this.listener) {
+        await this.listener(tradePlanId, trades);
+      }
+    } catch (error) {
+      this.logger.log('ALERT', `Scheduled ${description} failed: ${error}`);
+    }
+  }
+}
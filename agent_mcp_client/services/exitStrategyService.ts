@@ -32,6 +32,31 @@ export interface EnhancedExitStrategy {
   reasoning: string;
 }
 
+export interface ExitLevelProgress {
+  level_key: string;          // 'stop_loss' or 'take_profit_<n>'
+  target_quantity: number;    // Shares this level is meant to exit
+  submitted_quantity: number; // Shares sent to the broker for this level and not cancelled unfilled
+  filled_quantity?: number;   // Shares the broker confirmed filled
+  order_ids: string[];
+  pending_order_ids?: string[]; // Orders not yet in a final state
+  completed_at?: string;      // Set once the level's fills are confirmed
+}
+
+export interface ExitStrategyProgress {
+  id: string;
+  symbol: string;
+  trade_plan_id?: string;
+  entry_order_id?: string;
+  entry_cancel_at?: string; // Until then an entry that is scheduled or still working is not mistaken for a closed position
+  protective_order_ids?: string[]; // Broker-side bracket legs, cancelled before the monitor exits
+  strategy: EnhancedExitStrategy;
+  remaining_quantity: number;
+  levels: ExitLevelProgress[];
+  status: 'active' | 'closed';
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ExitOrderResult {
   success: boolean;
   order_id?: string;
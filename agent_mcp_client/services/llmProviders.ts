@@ -0,0 +1,209 @@
+/**
+ * LLM Providers - Interchangeable backends for AIService
+ * Implements:
+ * - Anthropic (Claude) via the official SDK
+ * - Any OpenAI-compatible chat completions endpoint (Ollama, vLLM, LM Studio, ...)
+ * - Fixture replay of recorded responses keyed by prompt hash, with a record mode
+ */
+
+import Anthropic from "npm:@anthropic-ai/sdk@^0.30.0";
+import { TradingLogger, ClaudeMessage, LLMProviderName } from '../types/interfaces.ts';
+import { AI_CONFIG, LLM_CONFIG, ENV_KEYS } from '../config.ts';
+import { crypto } from "https://deno.land/std@0.208.0/crypto/mod.ts";
+
+export interface LLMCompletionRequest {
+  messages: ClaudeMessage[];
+  max_tokens: number;
+  temperature: number;
+  prompt_id?: string; // Stable name of the prompt (e.g. predictions, predictions:retry-1); namespaces the fixture key
+}
+
+export interface LLMCompletion {
+  text: string;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  readonly metered: boolean; // Paid API calls count against AI_CONFIG cost and request limits
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+interface FixtureEntry {
+  prompt_preview: string;
+  model: string;
+  response: string;
+  recorded_at: string;
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  readonly metered = true;
+  private anthropic: Anthropic;
+
+  constructor(model: string = AI_CONFIG.MODEL) {
+    const apiKey = Deno.env.get(ENV_KEYS.ANTHROPIC_API_KEY);
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY environment variable not set');
+    }
+
+    this.model = model;
+    this.anthropic = new Anthropic({ apiKey });
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.anthropic.messages.create({
+      model: this.model,
+      max_tokens: request.max_tokens,
+      temperature: request.temperature,
+      messages: request.messages
+    });
+
+    return {
+      text: response.content[0]?.type === 'text' ? response.content[0].text : '',
+      usage: response.usage
+    };
+  }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly metered = false;
+  private baseUrl: string;
+  private apiKey: string | null;
+
+  constructor(
+    baseUrl: string = LLM_CONFIG.OPENAI_BASE_URL,
+    model: string = LLM_CONFIG.OPENAI_MODEL,
+    apiKey: string | null = LLM_CONFIG.OPENAI_API_KEY
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.apiKey = apiKey;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.max_tokens,
+        temperature: request.temperature,
+        messages: request.messages
+      }),
+      signal: AbortSignal.timeout(LLM_CONFIG.REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM endpoint error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      usage: {
+        input_tokens: data.usage?.prompt_tokens || 0,
+        output_tokens: data.usage?.completion_tokens || 0
+      }
+    };
+  }
+}
+
+/**
+ * Replays recorded responses keyed by prompt ID and a hash of the conversation, so each
+ * distinct prompt gets its own response. In record mode, misses are forwarded to another
+ * provider and the response is saved to the fixture file.
+ */
+export class FixtureLLMProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  readonly model: string;
+  readonly metered: boolean;
+  private logger: TradingLogger;
+  private fixturePath: string;
+  private recordFrom: LLMProvider | null;
+  private fixtures: Record<string, FixtureEntry> | null = null;
+
+  constructor(logger: TradingLogger, fixturePath: string = LLM_CONFIG.FIXTURE_PATH, recordFrom: LLMProvider | null = null) {
+    this.logger = logger;
+    this.fixturePath = fixturePath;
+    this.recordFrom = recordFrom;
+    this.model = recordFrom ? recordFrom.model : 'fixture';
+    this.metered = recordFrom ? recordFrom.metered : false;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const fixtures = await this.loadFixtures();
+    const hash = await FixtureLLMProvider.hashPrompt(request.messages);
+    const key = request.prompt_id ? `${request.prompt_id}:${hash}` : hash;
+    const entry = fixtures[key];
+
+    if (entry) {
+      return { text: entry.response, usage: { input_tokens: 0, output_tokens: 0 } };
+    }
+
+    if (!this.recordFrom) {
+      throw new Error(`No recorded LLM response for prompt ${key} in ${this.fixturePath} - run with LLM_FIXTURE_MODE=record to capture it`);
+    }
+
+    const completion = await this.recordFrom.complete(request);
+    const lastMessage = request.messages[request.messages.length - 1]?.content || '';
+    fixtures[key] = {
+      prompt_preview: lastMessage.trim().substring(0, 200),
+      model: this.recordFrom.model,
+      response: completion.text,
+      recorded_at: new Date().toISOString()
+    };
+
+    await Deno.writeTextFile(this.fixturePath, JSON.stringify(fixtures, null, 2));
+    this.logger.log('STATUS', `📼 Recorded LLM response ${key.substring(0, 40)} to ${this.fixturePath}`);
+    return completion;
+  }
+
+  /**
+   * SHA-256 of the full conversation; any change to a prompt produces a new key
+   */
+  static async hashPrompt(messages: ClaudeMessage[]): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(messages)));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private async loadFixtures(): Promise<Record<string, FixtureEntry>> {
+    if (this.fixtures) return this.fixtures;
+
+    try {
+      this.fixtures = JSON.parse(await Deno.readTextFile(this.fixturePath)) as Record<string, FixtureEntry>;
+      this.logger.log('STATUS', `📼 Loaded ${Object.keys(this.fixtures).length} recorded LLM responses`);
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+      this.fixtures = {};
+    }
+
+    return this.fixtures;
+  }
+}
+
+/**
+ * Build the provider selected by LLM_PROVIDER
+ */
+export function createLLMProvider(logger: TradingLogger, name: LLMProviderName = LLM_CONFIG.PROVIDER): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleProvider();
+    case 'fixture': {
+      const recordFrom = LLM_CONFIG.FIXTURE_MODE === 'record'
+        ? createLLMProvider(logger, LLM_CONFIG.RECORD_FROM)
+        : null;
+      return new FixtureLLMProvider(logger, LLM_CONFIG.FIXTURE_PATH, recordFrom);
+    }
+    case 'anthropic':
+    default:
+      return new AnthropicProvider();
+  }
+}
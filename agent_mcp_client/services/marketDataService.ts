@@ -3,16 +3,41 @@
  */
 
 import { Client } from "npm:@modelcontextprotocol/sdk@^1.0.0/client/index.js";
-import { IMarketDataService, TradingLogger, LogLevel, MarketDataResponse } from '../types/interfaces.ts';
+import {
+  IMarketDataService,
+  TradingLogger,
+  LogLevel,
+  MarketDataResponse,
+  QuiverCollectionStep,
+  DataSourceReport,
+  DataSourceStatus
+} from '../types/interfaces.ts';
 import { MARKET_DATA_CONFIG } from '../config.ts';
+import { getTextContent, getJsonResource, getJsonContent, getJsonRecords } from '../utils/mcpContent.ts';
+
+export type HistoricalDataset = 'congress_trading' | 'insider_trading' | 'sec13f_changes' | 'off_exchange' | 'etf_holdings';
+
+const RECORD_SEPARATOR = /^---$/gm;
+
+const STATUS_ICONS: Record<DataSourceStatus, string> = {
+  success: '✅',
+  empty: '⚪',
+  failed: '❌'
+};
 
 export class MarketDataService implements IMarketDataService {
   private quiverClient: Client | null = null;
   private logger: TradingLogger;
+  private collectionPlan: QuiverCollectionStep[];
 
-  constructor(quiverClient: Client | null, logger: TradingLogger) {
+  constructor(
+    quiverClient: Client | null,
+    logger: TradingLogger,
+    collectionPlan: QuiverCollectionStep[] = MARKET_DATA_CONFIG.COLLECTION_PLAN
+  ) {
     this.quiverClient = quiverClient;
     this.logger = logger;
+    this.collectionPlan = collectionPlan;
   }
 
   /**
@@ -23,7 +48,7 @@ export class MarketDataService implements IMarketDataService {
   }
 
   /**
-   * Collect market data from Quiver
+   * Collect market data from Quiver by running each enabled step of the collection plan
    */
   async collectMarketData(): Promise<MarketDataResponse> {
     this.logger.log('ANALYSIS', 'Collecting market data from Quiver...');
@@ -32,44 +57,32 @@ export class MarketDataService implements IMarketDataService {
       throw new Error('Quiver client not available');
     }
 
-    try {
-      // Get available tools from Quiver
-      const { tools } = await this.quiverClient.listTools();
-      const dataCollectionTools = tools.filter(tool => 
-        MARKET_DATA_CONFIG.TOOL_FILTERS.some(filter => 
-          tool.name.includes(filter)
-        )
-      );
+    const steps = this.collectionPlan.filter(step => step.enabled);
+    const marketData: MarketDataResponse = {};
+    const report: DataSourceReport[] = [];
 
-      const marketData: MarketDataResponse = {};
+    for (const [index, step] of steps.entries()) {
+      const sourceReport = await this.runCollectionStep(step, marketData);
+      report.push(sourceReport);
 
-      // Collect data from available tools (limit to avoid overload)
-      const toolsToUse = dataCollectionTools.slice(0, MARKET_DATA_CONFIG.MAX_TOOLS_PER_COLLECTION);
-      
-      for (const tool of toolsToUse) {
-        try {
-          const result = await this.quiverClient.callTool({
-            name: tool.name,
-            arguments: this.getToolArguments(tool.name)
-          });
-          
-          marketData[tool.name] = result;
-          
-          // Add delay between requests to avoid rate limits
-          await this.delay(MARKET_DATA_CONFIG.REQUEST_DELAY_MS);
-          
-        } catch (error) {
-          this.logger.log('ALERT', `Failed to collect data from ${tool.name}: ${error}`);
-        }
-      }
+      const detail = sourceReport.status === 'failed'
+        ? sourceReport.error
+        : `${sourceReport.records}/${sourceReport.total_records} records`;
+      this.logger.log(sourceReport.status === 'failed' ? 'ALERT' : 'STATUS',
+        `${STATUS_ICONS[sourceReport.status]} ${step.output_key} (${step.tool}): ${detail} in ${sourceReport.latency_ms}ms`
+      );
 
-      this.logger.log('STATUS', `Collected data from ${Object.keys(marketData).length} sources`);
-      return marketData;
-      
-    } catch (error) {
-      this.logger.log('ALERT', `Market data collection failed: ${error}`);
-      throw error;
+      // Add delay between requests to avoid rate limits
+      if (index < steps.length - 1) {
+        await this.delay(MARKET_DATA_CONFIG.REQUEST_DELAY_MS);
+      }
     }
+
+    marketData.collection_report = report;
+
+    const succeeded = report.filter(source => source.status === 'success').length;
+    this.logger.log('STATUS', `Collected data from ${succeeded}/${report.length} sources`);
+    return marketData;
   }
 
   /**
@@ -278,6 +291,33 @@ export class MarketDataService implements IMarketDataService {
     }
   }
 
+  /**
+   * Per-ticker history from one of the get_historical_* tools, newest first
+   */
+  async getHistoricalData(
+    dataset: HistoricalDataset,
+    ticker: string,
+    options: { start_date?: string; end_date?: string; page?: number; page_size?: number; format?: 'json' | 'text' } = {}
+  ): Promise<Record<string, unknown>> {
+    if (!this.quiverClient) {
+      throw new Error('Quiver client not available');
+    }
+
+    try {
+      const result = await this.quiverClient.callTool({
+        name: `get_historical_${dataset}`,
+        arguments: { ticker: ticker.toUpperCase(), ...options }
+      });
+
+      this.logger.log('STATUS', `Retrieved historical ${dataset} data for ${ticker.toUpperCase()}`);
+      return result;
+      
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to get historical ${dataset} data for ${ticker}: ${error}`);
+      throw error;
+    }
+  }
+
   /**
    * Get comprehensive market snapshot
    */
@@ -344,31 +384,75 @@ export class MarketDataService implements IMarketDataService {
   }
 
   /**
-   * Get tool-specific arguments based on tool name
+   * Call one plan step, trim its output to max_records and store it under output_key
    */
-  private getToolArguments(toolName: string): Record<string, unknown> {
-    const baseArgs = {
-      limit: MARKET_DATA_CONFIG.DEFAULT_LIMIT,
-      timeframe: MARKET_DATA_CONFIG.DEFAULT_TIMEFRAME
+  private async runCollectionStep(step: QuiverCollectionStep, marketData: MarketDataResponse): Promise<DataSourceReport> {
+    const startedAt = Date.now();
+    const report: DataSourceReport = {
+      tool: step.tool,
+      output_key: step.output_key,
+      status: 'failed',
+      latency_ms: 0,
+      records: 0,
+      total_records: 0
     };
 
-    // Tool-specific argument customization
-    switch (toolName) {
-      case 'get_live_congress_trading':
-        return { normalized: true };
-      case 'get_live_insider_trading':
-        return {};
-      case 'get_live_lobbying':
-        return {};
-      case 'get_live_sec13f_changes':
-        return {};
-      case 'get_live_off_exchange':
-        return {};
-      case 'get_live_etf_holdings':
-        return {};
-      default:
-        return baseArgs;
+    try {
+      const result = await this.quiverClient!.callTool({
+        name: step.tool,
+        arguments: step.arguments
+      });
+      report.latency_ms = Date.now() - startedAt;
+
+      const text = getTextContent(result);
+      if (result.isError || text.startsWith('Failed to retrieve')) {
+        report.error = text || 'tool returned an error';
+        return report;
+      }
+
+      // JSON mode: trim the resource's records array and keep the text summary
+      const resource = getJsonResource(result);
+      const body = getJsonContent(result);
+      const records = getJsonRecords(body);
+      if (resource && records) {
+        report.total_records = records.length;
+        report.records = Math.min(records.length, step.max_records);
+        report.status = report.records > 0 ? 'success' : 'empty';
+
+        const trimmed = records.slice(0, step.max_records);
+        marketData[step.output_key] = {
+          ...result,
+          content: [
+            {
+              ...resource,
+              resource: {
+                ...resource.resource,
+                text: JSON.stringify(Array.isArray(body) ? trimmed : { ...(body as Record<string, unknown>), records: trimmed })
+              }
+            },
+            { type: 'text', text }
+          ]
+        };
+        return report;
+      }
+
+      // Text mode: Quiver tools end every record with a '---' line; keep the first max_records
+      const separators = [...text.matchAll(RECORD_SEPARATOR)];
+      const cutoff = separators[step.max_records - 1];
+      report.total_records = separators.length;
+      report.records = Math.min(separators.length, step.max_records);
+      report.status = report.records > 0 ? 'success' : 'empty';
+
+      marketData[step.output_key] = {
+        ...result,
+        content: [{ type: 'text', text: cutoff ? text.slice(0, cutoff.index! + cutoff[0].length) : text }]
+      };
+    } catch (error) {
+      report.latency_ms = Date.now() - startedAt;
+      report.error = error instanceof Error ? error.message : String(error);
     }
+
+    return report;
   }
 
   /**
@@ -0,0 +1,271 @@
+/**
+ * Order Tracker Service - Follows submitted orders until the broker reports a final state
+ * Polls getOrderStatus for every pending trade, writes the fill quantity, average price and
+ * fill time back to the ExecutedTrade and its trades row, and records rejections, cancels,
+ * expiries and timeouts as agent events. Limit-style entries are cancelled at their cancel_at deadline.
+ */
+
+import {
+  TradingLogger,
+  ITradingService,
+  IDatabaseService,
+  ExecutedTrade,
+  AlpacaOrder,
+  TradeFillUpdate
+} from '../types/interfaces.ts';
+import { ORDER_TRACKER_CONFIG } from '../config.ts';
+import { isMarketOpen, getNextOpen } from '../utils/marketCalendar.ts';
+
+// Broker states after which an order can no longer fill
+export const FINAL_ORDER_STATUSES: AlpacaOrder['status'][] = ['filled', 'canceled', 'expired', 'rejected', 'done_for_day', 'replaced'];
+
+export interface OrderTrackingUpdate {
+  order_id: string;
+  symbol: string;
+  order_status: AlpacaOrder['status'] | 'timeout' | 'deadline_canceled';
+  filled_quantity: number;
+  filled_avg_price?: number;
+}
+
+interface TrackedOrder {
+  trade: ExecutedTrade;
+  deadline: number;
+  cancel_at?: number;
+  last_status?: AlpacaOrder['status'];
+}
+
+export class OrderTrackerService {
+  private logger: TradingLogger;
+  private tradingService: ITradingService;
+  private databaseService: IDatabaseService;
+  private tracked: Map<string, TrackedOrder> = new Map();
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private isPolling = false;
+
+  constructor(tradingService: ITradingService, databaseService: IDatabaseService, logger: TradingLogger) {
+    this.tradingService = tradingService;
+    this.databaseService = databaseService;
+    this.logger = logger;
+  }
+
+  /**
+   * Swap the trading service (e.g. after services are re-initialized)
+   */
+  setTradingService(tradingService: ITradingService): void {
+    this.tradingService = tradingService;
+  }
+
+  /**
+   * Start tracking every pending trade with a broker order; returns how many were added.
+   * The trades are updated in place as their orders resolve.
+   */
+  track(trades: ExecutedTrade[]): number {
+    if (!ORDER_TRACKER_CONFIG.ENABLED) return 0;
+
+    // Orders sent while the market is closed get the full timeout once it opens
+    const now = new Date();
+    const clockStart = isMarketOpen(now) ? now : getNextOpen(now);
+    const deadline = clockStart.getTime() + ORDER_TRACKER_CONFIG.TIMEOUT_MINUTES * 60000;
+
+    let added = 0;
+    for (const trade of trades) {
+      if (trade.status !== 'pending' || !trade.order_id || this.tracked.has(trade.order_id)) continue;
+
+      // Entries with a cancel deadline stay tracked until the cancel has settled
+      const cancelAt = trade.cancel_at ? new Date(trade.cancel_at).getTime() : undefined;
+      this.tracked.set(trade.order_id, {
+        trade,
+        deadline: cancelAt ? Math.max(deadline, cancelAt + ORDER_TRACKER_CONFIG.TIMEOUT_MINUTES * 60000) : deadline,
+        cancel_at: cancelAt
+      });
+      added++;
+    }
+
+    if (added > 0) {
+      this.logger.log('TRADE', `📡 Tracking ${added} pending order(s) until filled or ${ORDER_TRACKER_CONFIG.TIMEOUT_MINUTES} min after the open`);
+      this.schedulePoll();
+    }
+    return added;
+  }
+
+  /**
+   * Check every tracked order once; returns the orders that resolved or timed out
+   */
+  async pollOnce(): Promise<OrderTrackingUpdate[]> {
+    const updates: OrderTrackingUpdate[] = [];
+    if (this.isPolling) return updates;
+
+    this.isPolling = true;
+    try {
+      for (const [orderId, tracked] of this.tracked) {
+        const order = await this.tradingService.getOrderStatus(orderId);
+
+        if (order?.status && FINAL_ORDER_STATUSES.includes(order.status)) {
+          this.tracked.delete(orderId);
+          updates.push(await this.resolve(tracked.trade, order));
+        } else if (tracked.cancel_at && Date.now() >= tracked.cancel_at) {
+          const update = await this.cancelAtDeadline(tracked.trade, orderId);
+          if (update) {
+            this.tracked.delete(orderId);
+            updates.push(update);
+          }
+        } else if (Date.now() >= tracked.deadline) {
+          this.tracked.delete(orderId);
+          updates.push(await this.timeOut(tracked.trade, order));
+        } else if (order?.status && order.status !== tracked.last_status) {
+          tracked.last_status = order.status;
+          tracked.trade.order_status = order.status;
+          this.logger.log('TRADE', `📡 ${tracked.trade.symbol} order ${orderId}: ${order.status} (${order.filled_qty || 0}/${order.qty} filled)`);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+
+    return updates;
+  }
+
+  /**
+   * Stop polling; tracked orders are dropped
+   */
+  stop(): void {
+    if (this.pollTimer !== null) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.tracked.clear();
+  }
+
+  getTrackedOrderIds(): string[] {
+    return [...this.tracked.keys()];
+  }
+
+  // Private helper methods
+
+  private schedulePoll(): void {
+    if (this.pollTimer !== null) return;
+
+    this.pollTimer = setTimeout(async () => {
+      this.pollTimer = null;
+      try {
+        await this.pollOnce();
+      } catch (error) {
+        this.logger.log('ALERT', `Order tracker poll failed: ${error}`);
+      }
+      if (this.tracked.size > 0) this.schedulePoll();
+    }, ORDER_TRACKER_CONFIG.POLL_INTERVAL_MS);
+  }
+
+  private async resolve(trade: ExecutedTrade, order: AlpacaOrder): Promise<OrderTrackingUpdate> {
+    const fill = this.applyFill(trade, order);
+
+    if (order.status === 'filled' || (order.status === 'done_for_day' && fill.filled_quantity > 0)) {
+      this.logger.log('TRADE', `✅ ${trade.symbol} order ${order.id} filled: ${fill.filled_quantity} @ $${fill.filled_avg_price?.toFixed(2) ?? 'n/a'}`);
+    } else {
+      const partial = fill.filled_quantity > 0 ? ` after ${fill.filled_quantity}/${order.qty} filled` : '';
+      const reason = `${trade.symbol} ${trade.action} order ${order.id} ${order.status}${partial}`;
+      this.logger.log('ALERT', `⚠️ ${reason}`);
+      await this.databaseService.storeAgentEvent(order.status === 'rejected' ? 'order_rejected' : 'order_canceled', reason, {
+        order_id: order.id,
+        symbol: trade.symbol,
+        order_status: order.status,
+        ordered_quantity: Number(order.qty),
+        filled_quantity: fill.filled_quantity
+      });
+    }
+
+    await this.databaseService.updateTradeFill(order.id, fill);
+    return { order_id: order.id, symbol: trade.symbol, ...fill };
+  }
+
+  /**
+   * Cancel the unfilled remainder of a limit-style entry; null while the cancel is still pending at the broker
+   */
+  private async cancelAtDeadline(trade: ExecutedTrade, orderId: string): Promise<OrderTrackingUpdate | null> {
+    const cancelled = await this.tradingService.cancelOrder(orderId);
+    const order = await this.tradingService.getOrderStatus(orderId);
+    if (!order?.status || !FINAL_ORDER_STATUSES.includes(order.status)) {
+      if (!cancelled) {
+        this.logger.log('ALERT', `Failed to cancel ${trade.symbol} order ${orderId} at its deadline - retrying next poll`);
+      }
+      return null;
+    }
+
+    // The order filled (or was otherwise finalized) before the cancel reached it
+    if (order.status !== 'canceled') {
+      return await this.resolve(trade, order);
+    }
+
+    const fill = this.applyFill(trade, order);
+    const reason = `${trade.symbol} ${trade.execution_style || 'limit'} entry ${orderId} cancelled at its deadline ` +
+      `with ${fill.filled_quantity}/${order.qty} filled`;
+    this.logger.log('TRADE', `⏹️ ${reason}`);
+    await this.databaseService.storeAgentEvent('order_deadline_canceled', reason, {
+      order_id: orderId,
+      symbol: trade.symbol,
+      execution_style: trade.execution_style || null,
+      ordered_quantity: Number(order.qty),
+      filled_quantity: fill.filled_quantity
+    });
+
+    await this.databaseService.updateTradeFill(orderId, fill);
+    return { order_id: orderId, symbol: trade.symbol, ...fill, order_status: 'deadline_canceled' };
+  }
+
+  private async timeOut(trade: ExecutedTrade, order: AlpacaOrder | null): Promise<OrderTrackingUpdate> {
+    const orderId = trade.order_id as string;
+    const reason = `${trade.symbol} ${trade.action} order ${orderId} still ${order?.status || 'unknown'} after ${ORDER_TRACKER_CONFIG.TIMEOUT_MINUTES} min`;
+    this.logger.log('ALERT', `⏱️ ${reason} - no longer tracking`);
+
+    // Record any partial fill; the row stays pending because the order is still live at the broker
+    const fill: TradeFillUpdate = order
+      ? this.applyFill(trade, order, false)
+      : { status: 'pending', order_status: trade.order_status || 'new', filled_quantity: 0 };
+
+    await this.databaseService.storeAgentEvent('order_timeout', reason, {
+      order_id: orderId,
+      symbol: trade.symbol,
+      order_status: order?.status || null,
+      filled_quantity: fill.filled_quantity
+    });
+    if (order) {
+      await this.databaseService.updateTradeFill(orderId, fill);
+    }
+
+    return { order_id: orderId, symbol: trade.symbol, ...fill, order_status: 'timeout' };
+  }
+
+  /**
+   * Copy the broker's fill onto the trade and build the matching row update.
+   * A final order is executed if anything filled and failed otherwise.
+   */
+  private applyFill(trade: ExecutedTrade, order: AlpacaOrder, isFinal: boolean = true): TradeFillUpdate {
+    const filledQuantity = Number(order.filled_qty) || 0;
+    const filledAvgPrice = order.filled_avg_price ? Number(order.filled_avg_price) : undefined;
+    const fees = Number(order.commission) || 0;
+
+    trade.order_status = order.status;
+    trade.executed_quantity = filledQuantity;
+    trade.fees = fees;
+    trade.status = !isFinal ? 'pending' : filledQuantity > 0 ? 'executed' : 'failed';
+    if (filledAvgPrice) {
+      trade.filled_avg_price = filledAvgPrice;
+      trade.execution_result = { ...trade.execution_result, filledPrice: filledAvgPrice };
+    }
+    if (order.filled_at) {
+      trade.filled_at = order.filled_at;
+    }
+    if (trade.status === 'failed') {
+      trade.execution_result = { ...trade.execution_result, success: false, error: `Order ${order.status}` };
+    }
+
+    return {
+      status: trade.status,
+      order_status: order.status,
+      filled_quantity: filledQuantity,
+      filled_avg_price: filledAvgPrice,
+      filled_at: order.filled_at,
+      fees
+    };
+  }
+}
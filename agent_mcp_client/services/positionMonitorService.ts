@@ -0,0 +1,629 @@
+/**
+ * Position Monitor Service - Intraday loop that acts on exit strategy triggers
+ * Polls prices for monitored positions and submits stop-loss / batch take-profit exits,
+ * persisting per-level progress so a restart never fires the same level twice
+ */
+
+import {
+  TradingLogger,
+  ITradingService,
+  ExecutedTrade,
+  OrderRequest,
+  Position
+} from '../types/interfaces.ts';
+import { FILE_PATHS, POSITION_MONITOR_CONFIG } from '../config.ts';
+import { crypto } from "https://deno.land/std@0.208.0/crypto/mod.ts";
+import { DatabaseService } from './databaseService.ts';
+import { buildClientOrderId } from '../utils/clientOrderId.ts';
+import { FINAL_ORDER_STATUSES, OrderTrackerService } from './orderTrackerService.ts';
+import {
+  ExitStrategyService,
+  EnhancedExitStrategy,
+  ExitLevel,
+  ExitLevelProgress,
+  ExitStrategyProgress
+} from './exitStrategyService.ts';
+import { EnhancedTradePlan } from './enhancedStrategyService.ts';
+
+export interface MonitorCycleResult {
+  positions_checked: number;
+  orders_submitted: number;
+  orders_failed: number;
+  positions_closed: number;
+}
+
+export class PositionMonitorService {
+  private logger: TradingLogger;
+  private tradingService: ITradingService;
+  private databaseService: DatabaseService;
+  private orderTrackerService: OrderTrackerService;
+  private exitStrategyService: ExitStrategyService;
+  private isRunning = false;
+
+  constructor(
+    tradingService: ITradingService,
+    databaseService: DatabaseService,
+    orderTrackerService: OrderTrackerService,
+    logger: TradingLogger
+  ) {
+    this.tradingService = tradingService;
+    this.databaseService = databaseService;
+    this.orderTrackerService = orderTrackerService;
+    this.logger = logger;
+    this.exitStrategyService = new ExitStrategyService(logger);
+  }
+
+  /**
+   * Swap the trading service (e.g. after services are re-initialized)
+   */
+  setTradingService(tradingService: ITradingService): void {
+    this.tradingService = tradingService;
+  }
+
+  /**
+   * Start monitoring the positions opened by an executed enhanced plan
+   */
+  async registerExecutedTrades(enhancedPlan: EnhancedTradePlan, executedTrades: ExecutedTrade[]): Promise<void> {
+    const progressList = await this.loadProgress();
+    let registered = 0;
+
+    for (const trade of this.mergeEntrySlices(executedTrades)) {
+      const enhancedTrade = enhancedPlan.enhanced_trades.find(t => t.symbol === trade.symbol && t.action === trade.action);
+      if (!enhancedTrade) continue;
+
+      // Rebuild the strategy if the broker filled a different quantity or price than planned
+      const entryPrice = trade.filled_avg_price || enhancedTrade.exit_strategy.entry_price;
+      const strategy = trade.executed_quantity === enhancedTrade.exit_strategy.total_quantity &&
+        entryPrice === enhancedTrade.exit_strategy.entry_price
+        ? enhancedTrade.exit_strategy
+        : this.exitStrategyService.createExitStrategy({ ...enhancedTrade, quantity: trade.executed_quantity }, entryPrice);
+
+      const progress = this.createProgress(strategy, enhancedPlan.id, trade.order_id);
+      if (trade.cancel_at) {
+        progress.entry_cancel_at = trade.cancel_at;
+      }
+      const protectiveOrderIds = this.protectiveOrderIds(executedTrades, trade);
+      if (protectiveOrderIds.length > 0) {
+        progress.protective_order_ids = protectiveOrderIds;
+      }
+
+      // Replace any earlier active strategy for the same symbol
+      for (const existing of progressList) {
+        if (existing.symbol === progress.symbol && existing.status === 'active') {
+          existing.status = 'closed';
+          existing.updated_at = new Date().toISOString();
+          await this.saveProgress(existing, progressList);
+        }
+      }
+
+      progressList.push(progress);
+      await this.saveProgress(progress, progressList);
+      registered++;
+    }
+
+    this.logger.log('STATUS', `👁️ Position monitor registered ${registered} new exit strategies`);
+  }
+
+  /**
+   * Run one monitoring pass over every active exit strategy
+   */
+  async runMonitorCycle(): Promise<MonitorCycleResult> {
+    const result: MonitorCycleResult = {
+      positions_checked: 0,
+      orders_submitted: 0,
+      orders_failed: 0,
+      positions_closed: 0
+    };
+
+    if (this.isRunning) {
+      this.logger.log('STATUS', '👁️ Position monitor cycle already running - skipping');
+      return result;
+    }
+
+    this.isRunning = true;
+
+    try {
+      const progressList = await this.loadProgress();
+      const active = progressList.filter(p => p.status === 'active');
+      if (active.length === 0) return result;
+
+      const positions = await this.tradingService.getCurrentPositions();
+
+      for (const progress of active) {
+        result.positions_checked++;
+
+        const position = positions.find(p => p.symbol === progress.symbol);
+        if (!position && await this.awaitingEntryFill(progress)) continue;
+
+        await this.syncLevelOrders(progress);
+        if (!this.syncWithBrokerPosition(progress, position)) {
+          result.positions_closed++;
+          await this.saveProgress(progress, progressList);
+          continue;
+        }
+
+        const currentPrice = await this.getCurrentPrice(progress.symbol, position);
+        if (!currentPrice) {
+          this.logger.log('ALERT', `👁️ No price available for ${progress.symbol} - skipping this cycle`);
+          continue;
+        }
+
+        const cycle = await this.processTriggers(progress, currentPrice, Math.abs(position?.qty || 0), progressList);
+        result.orders_submitted += cycle.submitted;
+        result.orders_failed += cycle.failed;
+        if (progress.status === 'closed') result.positions_closed++;
+
+        await this.delay(POSITION_MONITOR_CONFIG.REQUEST_DELAY_MS);
+      }
+
+      if (result.orders_submitted > 0 || result.orders_failed > 0) {
+        this.logger.log('TRADE',
+          `👁️ Monitor cycle: ${result.positions_checked} positions, ` +
+          `${result.orders_submitted} exits submitted, ${result.orders_failed} failed, ${result.positions_closed} closed`
+        );
+      }
+
+      return result;
+
+    } catch (error) {
+      this.logger.log('ALERT', `❌ Position monitor cycle failed: ${error}`);
+      return result;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Get the exit strategies currently being monitored
+   */
+  async getActiveProgress(): Promise<ExitStrategyProgress[]> {
+    const progressList = await this.loadProgress();
+    return progressList.filter(p => p.status === 'active');
+  }
+
+  // Private helper methods
+
+  /**
+   * Combine TWAP slices of one entry into a single trade, so the symbol gets one exit strategy for the full quantity.
+   * Entries still working at the broker are sized at their ordered quantity; the broker position corrects it once filled.
+   */
+  private mergeEntrySlices(executedTrades: ExecutedTrade[]): ExecutedTrade[] {
+    const merged: ExecutedTrade[] = [];
+
+    for (const trade of executedTrades) {
+      const size = trade.executed_quantity || (trade.status === 'pending' ? trade.quantity : 0);
+      if (trade.status === 'failed' || size <= 0) continue;
+
+      const existing = merged.find(t => t.symbol === trade.symbol && t.action === trade.action);
+      if (!existing) {
+        merged.push({ ...trade, executed_quantity: size });
+        continue;
+      }
+
+      const quantity = existing.executed_quantity + size;
+      existing.filled_avg_price = existing.filled_avg_price && trade.filled_avg_price
+        ? (existing.filled_avg_price * existing.executed_quantity + trade.filled_avg_price * size) / quantity
+        : undefined;
+      existing.executed_quantity = quantity;
+    }
+
+    return merged;
+  }
+
+  private protectiveOrderIds(executedTrades: ExecutedTrade[], entry: ExecutedTrade): string[] {
+    return executedTrades
+      .filter(t => t.symbol === entry.symbol && t.action === entry.action && t.child_order_ids)
+      .flatMap(t => Object.values(t.child_order_ids || {}))
+      .filter((id): id is string => !!id);
+  }
+
+  /**
+   * Check triggers for one position and submit exits for levels that have not fired yet
+   */
+  private async processTriggers(
+    progress: ExitStrategyProgress,
+    currentPrice: number,
+    brokerQuantity: number,
+    progressList: ExitStrategyProgress[]
+  ): Promise<{ submitted: number; failed: number }> {
+    const strategy = progress.strategy;
+    const triggers = this.exitStrategyService.checkExitTriggers(strategy, currentPrice, progress.remaining_quantity);
+    let submitted = 0;
+    let failed = 0;
+
+    if (!triggers.should_exit) return { submitted, failed };
+
+    const triggeredLevels: Array<{ level: ExitLevel; key: string }> = triggers.triggered_stops.length > 0
+      ? [{ level: strategy.stop_loss, key: 'stop_loss' }]
+      : triggers.triggered_profits.map(level => ({
+          level,
+          key: `take_profit_${strategy.take_profit_levels.indexOf(level) + 1}`
+        }));
+
+    for (const { level, key } of triggeredLevels) {
+      const levelProgress = progress.levels.find(l => l.level_key === key);
+      if (!levelProgress || levelProgress.completed_at || levelProgress.pending_order_ids?.length) continue;
+
+      // The stop sells whatever the broker holds, so shares returned by cancelled or expired exits are covered
+      const isStop = key === 'stop_loss';
+      if (!isStop && progress.remaining_quantity <= 0) continue;
+
+      const order = this.buildLevelOrder(progress, level, levelProgress, currentPrice, isStop ? brokerQuantity : undefined);
+      if (!order) continue;
+
+      this.logger.log('TRADE',
+        `👁️ ${strategy.symbol} ${key} triggered at $${currentPrice.toFixed(2)} - ` +
+        `submitting ${order.order_type} ${order.side} ${order.quantity}`
+      );
+
+      // Bracket legs hold the position at the broker, so release them before the first monitor exit
+      if (progress.protective_order_ids?.length) {
+        const released = await this.cancelProtectiveOrders(progress);
+        await this.saveProgress(progress, progressList);
+        if (!released) {
+          failed++;
+          this.logger.log('ALERT', `❌ Protective orders for ${strategy.symbol} still working - retrying ${key} next cycle`);
+          continue;
+        }
+      }
+
+      // A stop exits the full position, so clear any resting exit orders first
+      if (isStop) {
+        await this.cancelOpenExitOrders(strategy);
+      }
+
+      const execution = await this.tradingService.placeOrder(order);
+
+      if (!execution.success) {
+        failed++;
+        this.logger.log('ALERT', `❌ Exit order for ${strategy.symbol} (${key}) failed: ${execution.error || 'unknown error'}`);
+        continue;
+      }
+
+      submitted++;
+      levelProgress.submitted_quantity += order.quantity;
+      if (execution.orderId) {
+        levelProgress.order_ids.push(execution.orderId);
+        levelProgress.pending_order_ids = [...(levelProgress.pending_order_ids || []), execution.orderId];
+      }
+
+      // Completion and closing wait for confirmed fills (syncLevelOrders / syncWithBrokerPosition)
+      progress.remaining_quantity = Math.max(0, progress.remaining_quantity - order.quantity);
+      progress.updated_at = new Date().toISOString();
+
+      // Persist after every submission so a restart cannot resubmit this level
+      await this.saveProgress(progress, progressList);
+      await this.recordExitTrade(progress, order, execution.orderId, currentPrice);
+    }
+
+    return { submitted, failed };
+  }
+
+  /**
+   * Build the exit order for a level, capped to what is left on the level and the position.
+   * A full exit given the broker's live quantity sells all of it.
+   */
+  private buildLevelOrder(
+    progress: ExitStrategyProgress,
+    level: ExitLevel,
+    levelProgress: ExitLevelProgress,
+    currentPrice: number,
+    brokerQuantity?: number
+  ): OrderRequest | null {
+    const { strategy, remaining_quantity: remainingQuantity } = progress;
+    const levelRemaining = levelProgress.target_quantity - levelProgress.submitted_quantity;
+    const quantity = level.percentage === 1.0
+      ? brokerQuantity ?? remainingQuantity
+      : Math.min(levelRemaining, remainingQuantity);
+
+    if (quantity <= 0) return null;
+
+    const [generated] = this.exitStrategyService.generateExitOrders(strategy, [level], currentPrice, remainingQuantity);
+
+    return {
+      symbol: strategy.symbol,
+      side: strategy.action === 'BUY' ? 'sell' : 'buy',
+      quantity,
+      order_type: generated?.order_type || (level.order_type === 'limit' ? 'limit' : 'market'),
+      price: generated?.price ?? (level.order_type === 'limit' ? level.trigger_price : undefined),
+      time_in_force: POSITION_MONITOR_CONFIG.EXIT_ORDER_TIME_IN_FORCE,
+      reasoning: level.reasoning,
+      // Numbered per submission so a restart before progress is saved reuses the same order
+      client_order_id: buildClientOrderId(
+        progress.trade_plan_id || progress.id,
+        strategy.symbol,
+        `${levelProgress.level_key}-${levelProgress.order_ids.length + 1}`
+      )
+    };
+  }
+
+  /**
+   * Poll each level's pending exit orders. Fills are counted toward the level; the unfilled part of a
+   * cancelled, expired or rejected order goes back to the remaining quantity so a later exit covers it.
+   */
+  private async syncLevelOrders(progress: ExitStrategyProgress): Promise<void> {
+    for (const levelProgress of progress.levels) {
+      const stillPending: string[] = [];
+
+      for (const orderId of levelProgress.pending_order_ids || []) {
+        let order = null;
+        try {
+          order = await this.tradingService.getOrderStatus(orderId);
+        } catch (error) {
+          this.logger.log('ALERT', `Failed to poll exit order ${orderId} for ${progress.symbol}: ${error}`);
+        }
+        if (!order?.status || !FINAL_ORDER_STATUSES.includes(order.status)) {
+          stillPending.push(orderId);
+          continue;
+        }
+
+        const filled = Number(order.filled_qty) || 0;
+        const unfilled = Math.max(0, (Number(order.qty) || 0) - filled);
+        levelProgress.filled_quantity = (levelProgress.filled_quantity || 0) + filled;
+
+        if (unfilled > 0) {
+          levelProgress.submitted_quantity = Math.max(0, levelProgress.submitted_quantity - unfilled);
+          progress.remaining_quantity += unfilled;
+          this.logger.log('ALERT',
+            `👁️ ${progress.symbol} ${levelProgress.level_key} order ${orderId} ${order.status} with ${unfilled} unfilled - returned to the position`
+          );
+        }
+        progress.updated_at = new Date().toISOString();
+      }
+
+      levelProgress.pending_order_ids = stillPending;
+      const filledQuantity = levelProgress.filled_quantity || 0;
+      if (!levelProgress.completed_at && stillPending.length === 0 && filledQuantity > 0 &&
+        (filledQuantity >= levelProgress.target_quantity || levelProgress.level_key === 'stop_loss')) {
+        levelProgress.completed_at = new Date().toISOString();
+      }
+    }
+  }
+
+  /**
+   * True while nothing has been sold and the entry is scheduled or still working, so a not-yet-filled
+   * entry is not mistaken for a closed position
+   */
+  private async awaitingEntryFill(progress: ExitStrategyProgress): Promise<boolean> {
+    if (progress.levels.some(level => level.submitted_quantity > 0)) return false;
+    if (progress.entry_cancel_at && Date.now() < new Date(progress.entry_cancel_at).getTime()) return true;
+    if (!progress.entry_order_id) return false;
+
+    try {
+      const order = await this.tradingService.getOrderStatus(progress.entry_order_id);
+      return !!order?.status && !FINAL_ORDER_STATUSES.includes(order.status);
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to poll entry order ${progress.entry_order_id} for ${progress.symbol}: ${error}`);
+      return true;
+    }
+  }
+
+  /**
+   * Reconcile remaining quantity with the broker; returns false if the position is gone
+   */
+  private syncWithBrokerPosition(progress: ExitStrategyProgress, position: Position | undefined): boolean {
+    if (!position || Math.abs(position.qty) === 0) {
+      this.logger.log('STATUS', `👁️ ${progress.symbol} no longer held at broker - closing exit strategy`);
+      progress.status = 'closed';
+      progress.remaining_quantity = 0;
+      progress.updated_at = new Date().toISOString();
+      return false;
+    }
+
+    // Shares held at the broker that no working exit order covers, in either direction
+    const working = progress.levels.reduce(
+      (sum, level) => sum + Math.max(0, level.submitted_quantity - (level.filled_quantity || 0)), 0
+    );
+    const uncovered = Math.max(0, Math.abs(position.qty) - working);
+    if (uncovered !== progress.remaining_quantity) {
+      this.logger.log('ALERT',
+        `👁️ ${progress.symbol} broker quantity ${Math.abs(position.qty)} leaves ${uncovered} uncovered, tracked ${progress.remaining_quantity} - adjusting`
+      );
+      progress.remaining_quantity = uncovered;
+      progress.updated_at = new Date().toISOString();
+    }
+
+    return true;
+  }
+
+  private async getCurrentPrice(symbol: string, position?: Position): Promise<number | null> {
+    try {
+      const data = await this.tradingService.getMarketData(symbol);
+      const price = this.extractPrice(data);
+      if (price) return price;
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to poll price for ${symbol}: ${error}`);
+    }
+
+    return position && position.current_price > 0 ? position.current_price : null;
+  }
+
+  /**
+   * Extract a last/mid price from either a raw Alpaca quote/trade or an MCP text response
+   */
+  private extractPrice(data: Record<string, unknown>): number | null {
+    const numeric = (value: unknown): number | null => {
+      const n = Number(value);
+      return Number.isFinite(n) && n > 0 ? n : null;
+    };
+
+    const direct = numeric(data.price) ?? numeric(data.p) ?? numeric(data.current_price);
+    if (direct) return direct;
+
+    const ask = numeric(data.ap);
+    const bid = numeric(data.bp);
+    if (ask && bid) return (ask + bid) / 2;
+
+    if (Array.isArray(data.content)) {
+      const text = data.content
+        .map(item => (item && typeof item === 'object' && 'text' in item) ? String(item.text) : '')
+        .join(' ');
+      const match = text.match(/price[:\s]+\$?([0-9,]+\.?[0-9]*)/i);
+      if (match) return numeric(match[1].replace(/,/g, ''));
+    }
+
+    return ask ?? bid;
+  }
+
+  private async cancelOpenExitOrders(strategy: EnhancedExitStrategy): Promise<void> {
+    const exitSide = strategy.action === 'BUY' ? 'sell' : 'buy';
+
+    try {
+      const orders = await this.tradingService.getPendingOrders();
+      for (const order of orders.filter(o => o.symbol === strategy.symbol && o.side === exitSide)) {
+        await this.tradingService.cancelOrder(order.id);
+      }
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to cancel resting exit orders for ${strategy.symbol}: ${error}`);
+    }
+  }
+
+  /**
+   * Store the exit as a pending trade row and hand it to the order tracker; the row only
+   * reaches the ledger once the tracker writes the broker's fill
+   */
+  private async recordExitTrade(
+    progress: ExitStrategyProgress,
+    order: OrderRequest,
+    orderId: string | undefined,
+    triggerPrice: number
+  ): Promise<void> {
+    const strategy = progress.strategy;
+    const exitTrade: ExecutedTrade = {
+      symbol: strategy.symbol,
+      action: order.side === 'sell' ? 'SELL' : 'BUY',
+      quantity: order.quantity,
+      price_target: order.price ?? triggerPrice,
+      stop_loss: strategy.stop_loss.trigger_price,
+      take_profit: strategy.take_profit_levels[0]?.trigger_price || 0,
+      confidence: 1,
+      reasoning: order.reasoning || 'Exit strategy trigger',
+      executed_quantity: 0,
+      execution_result: { success: true, orderId },
+      executed_at: new Date().toISOString(),
+      order_id: orderId,
+      client_order_id: order.client_order_id,
+      status: 'pending',
+      closes_order_ids: progress.entry_order_id ? [progress.entry_order_id] : undefined
+    };
+
+    try {
+      await this.databaseService.storeTrades([exitTrade]);
+    } catch (error) {
+      this.logger.log('STATUS', `Exit for ${strategy.symbol} not recorded in trade history: ${error}`);
+    }
+
+    if (!orderId) {
+      this.logger.log('ALERT', `Exit for ${strategy.symbol} returned no order ID - its fill cannot be tracked`);
+      return;
+    }
+    this.orderTrackerService.track([exitTrade]);
+  }
+
+  /**
+   * Cancel the protective orders and wait until the broker reports each one final, since a cancel
+   * is asynchronous and the shares stay held until it lands. Orders still working stay on the
+   * progress for the next cycle; returns true once all of them are released.
+   */
+  private async cancelProtectiveOrders(progress: ExitStrategyProgress): Promise<boolean> {
+    const orderIds = progress.protective_order_ids || [];
+    for (const orderId of orderIds) {
+      try {
+        await this.tradingService.cancelOrder(orderId);
+      } catch (error) {
+        this.logger.log('ALERT', `Failed to cancel protective order ${orderId} for ${progress.symbol}: ${error}`);
+      }
+    }
+
+    const stillWorking: string[] = [];
+    for (const orderId of orderIds) {
+      if (!await this.awaitFinalOrder(orderId)) stillWorking.push(orderId);
+    }
+
+    progress.protective_order_ids = stillWorking;
+    progress.updated_at = new Date().toISOString();
+    return stillWorking.length === 0;
+  }
+
+  private async awaitFinalOrder(orderId: string): Promise<boolean> {
+    for (let i = 0; i < POSITION_MONITOR_CONFIG.CANCEL_CONFIRM_CHECKS; i++) {
+      if (i > 0) await this.delay(POSITION_MONITOR_CONFIG.REQUEST_DELAY_MS);
+      try {
+        const order = await this.tradingService.getOrderStatus(orderId);
+        if (order?.status && FINAL_ORDER_STATUSES.includes(order.status)) return true;
+      } catch (error) {
+        this.logger.log('ALERT', `Failed to poll protective order ${orderId}: ${error}`);
+      }
+    }
+    return false;
+  }
+
+  private createProgress(strategy: EnhancedExitStrategy, tradePlanId?: string, entryOrderId?: string): ExitStrategyProgress {
+    const now = new Date().toISOString();
+
+    const levels: ExitLevelProgress[] = [
+      {
+        level_key: 'stop_loss',
+        target_quantity: strategy.total_quantity,
+        submitted_quantity: 0,
+        order_ids: []
+      },
+      ...strategy.take_profit_levels.map((level, index) => ({
+        level_key: `take_profit_${index + 1}`,
+        target_quantity: Math.floor(strategy.total_quantity * level.percentage),
+        submitted_quantity: 0,
+        order_ids: []
+      }))
+    ];
+
+    return {
+      id: crypto.randomUUID(),
+      symbol: strategy.symbol,
+      trade_plan_id: tradePlanId,
+      entry_order_id: entryOrderId,
+      strategy,
+      remaining_quantity: strategy.total_quantity,
+      levels,
+      status: 'active',
+      created_at: now,
+      updated_at: now
+    };
+  }
+
+  /**
+   * Load progress from the database, falling back to the local file
+   */
+  private async loadProgress(): Promise<ExitStrategyProgress[]> {
+    try {
+      return await this.databaseService.getActiveExitStrategies();
+    } catch {
+      try {
+        const data = await Deno.readTextFile(FILE_PATHS.EXIT_STRATEGIES);
+        return JSON.parse(data) as ExitStrategyProgress[];
+      } catch {
+        return [];
+      }
+    }
+  }
+
+  /**
+   * Save progress to the database, falling back to the local file
+   */
+  private async saveProgress(progress: ExitStrategyProgress, progressList: ExitStrategyProgress[]): Promise<void> {
+    try {
+      await this.databaseService.storeExitStrategyProgress(progress);
+    } catch {
+      try {
+        // Closed strategies are dropped from the file once persisted
+        const active = progressList.filter(p => p.status === 'active');
+        await Deno.writeTextFile(FILE_PATHS.EXIT_STRATEGIES, JSON.stringify(active, null, 2));
+      } catch (fileError) {
+        this.logger.log('ALERT', `Failed to persist exit strategy progress for ${progress.symbol}: ${fileError}`);
+      }
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Price Data Service - Daily OHLCV bars and latest quotes for candidate symbols
+ * Sources:
+ * - Alpaca market data API (live)
+ * - A local CSV/JSON bar file (fixture mode, also used by the backtester)
+ */
+
+import {
+  TradingLogger,
+  MarketDataResponse,
+  PriceBar,
+  Quote,
+  SymbolPriceData,
+  AssetInfo
+} from '../types/interfaces.ts';
+import { PRICE_DATA_CONFIG } from '../config.ts';
+
+export type PriceDataMode = 'alpaca' | 'fixture';
+
+interface AlpacaBar {
+  t: string;
+  o: number;
+  h: number;
+  l: number;
+  c: number;
+  v: number;
+}
+
+interface AlpacaAsset {
+  symbol: string;
+  status: string;
+  tradable: boolean;
+  shortable: boolean;
+}
+
+interface AlpacaSnapshot {
+  latestTrade?: { p: number; t: string };
+  latestQuote?: { bp: number; ap: number; t: string };
+}
+
+export class PriceDataService {
+  private logger: TradingLogger;
+  private mode: PriceDataMode;
+  private fixturePath: string;
+  private apiKey: string;
+  private secretKey: string;
+  private fixtureBars: Promise<Map<string, PriceBar[]>> | null = null;
+
+  constructor(
+    logger: TradingLogger,
+    mode: PriceDataMode = PRICE_DATA_CONFIG.MODE,
+    fixturePath: string = PRICE_DATA_CONFIG.FIXTURE_PATH
+  ) {
+    this.logger = logger;
+    this.mode = mode;
+    this.fixturePath = fixturePath;
+    this.apiKey = Deno.env.get('ALPACA_API_KEY') || '';
+    this.secretKey = Deno.env.get('ALPACA_SECRET_KEY') || '';
+  }
+
+  /**
+   * Fetch bars and quotes for each symbol and attach them under marketData.price_data.
+   * Symbols without data are left out so indicators fall back to their defaults.
+   */
+  async attachPriceData(marketData: MarketDataResponse, symbols: string[]): Promise<MarketDataResponse> {
+    const unique = [...new Set(symbols.map(symbol => symbol.toUpperCase()))];
+    if (unique.length === 0) return marketData;
+
+    try {
+      const priceData = await this.getPriceData(unique);
+      const missing = unique.filter(symbol => !priceData[symbol]);
+
+      this.logger.log('ANALYSIS',
+        `📊 Price data (${this.mode}): ${Object.keys(priceData).length}/${unique.length} symbols` +
+        (missing.length > 0 ? ` - no bars for ${missing.join(', ')}` : '')
+      );
+
+      return {
+        ...marketData,
+        price_data: { ...(marketData.price_data || {}), ...priceData }
+      };
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to fetch price data: ${error}`);
+      return marketData;
+    }
+  }
+
+  /**
+   * Bars plus latest quote per symbol, keyed by symbol
+   */
+  async getPriceData(symbols: string[], lookbackBars: number = PRICE_DATA_CONFIG.HISTORY_BARS): Promise<Record<string, SymbolPriceData>> {
+    const [barsBySymbol, quotes] = await Promise.all([
+      this.getBars(symbols, lookbackBars),
+      this.getQuotes(symbols)
+    ]);
+
+    const fetchedAt = new Date().toISOString();
+    const priceData: Record<string, SymbolPriceData> = {};
+
+    for (const [symbol, bars] of barsBySymbol) {
+      if (bars.length === 0) continue;
+      priceData[symbol] = {
+        symbol,
+        bars,
+        quote: quotes.get(symbol) || null,
+        source: this.mode,
+        fetched_at: fetchedAt
+      };
+    }
+
+    return priceData;
+  }
+
+  /**
+   * The most recent daily bars per symbol, oldest first
+   */
+  async getBars(symbols: string[], lookbackBars: number = PRICE_DATA_CONFIG.HISTORY_BARS): Promise<Map<string, PriceBar[]>> {
+    if (this.mode === 'fixture') {
+      const fixtureBars = await this.getFixtureBars();
+      return new Map(symbols.map(symbol => [symbol, (fixtureBars.get(symbol) || []).slice(-lookbackBars)]));
+    }
+
+    // Roughly 7 calendar days per 5 trading days, plus room for holidays
+    const start = new Date(Date.now() - (Math.ceil(lookbackBars * 1.5) + 10) * 24 * 60 * 60 * 1000);
+    const barsBySymbol = new Map<string, PriceBar[]>(symbols.map(symbol => [symbol, []]));
+    let pageToken: string | undefined;
+
+    do {
+      const params = new URLSearchParams({
+        symbols: symbols.join(','),
+        timeframe: '1Day',
+        start: start.toISOString(),
+        adjustment: 'split',
+        feed: PRICE_DATA_CONFIG.FEED,
+        limit: '10000'
+      });
+      if (pageToken) params.set('page_token', pageToken);
+
+      const data = await this.requestMarketData(`/stocks/bars?${params}`) as {
+        bars?: Record<string, AlpacaBar[]>;
+        next_page_token?: string | null;
+      };
+
+      for (const [symbol, bars] of Object.entries(data.bars || {})) {
+        barsBySymbol.get(symbol)?.push(...bars.map(bar => this.toPriceBar(symbol, bar)));
+      }
+      pageToken = data.next_page_token || undefined;
+    } while (pageToken);
+
+    for (const [symbol, bars] of barsBySymbol) {
+      barsBySymbol.set(symbol, bars.slice(-lookbackBars));
+    }
+    return barsBySymbol;
+  }
+
+  /**
+   * Latest quote per symbol; fixture quotes are the last close
+   */
+  async getQuotes(symbols: string[]): Promise<Map<string, Quote>> {
+    const quotes = new Map<string, Quote>();
+
+    if (this.mode === 'fixture') {
+      const fixtureBars = await this.getFixtureBars();
+      for (const symbol of symbols) {
+        const last = fixtureBars.get(symbol)?.at(-1);
+        if (last) {
+          quotes.set(symbol, { symbol, bid: last.close, ask: last.close, last: last.close, timestamp: `${last.date}T20:00:00.000Z` });
+        }
+      }
+      return quotes;
+    }
+
+    try {
+      const params = new URLSearchParams({ symbols: symbols.join(','), feed: PRICE_DATA_CONFIG.FEED });
+      const snapshots = await this.requestMarketData(`/stocks/snapshots?${params}`) as Record<string, AlpacaSnapshot>;
+
+      for (const [symbol, snapshot] of Object.entries(snapshots)) {
+        const last = snapshot.latestTrade?.p || 0;
+        quotes.set(symbol, {
+          symbol,
+          bid: snapshot.latestQuote?.bp || last,
+          ask: snapshot.latestQuote?.ap || last,
+          last,
+          timestamp: snapshot.latestTrade?.t || snapshot.latestQuote?.t || new Date().toISOString()
+        });
+      }
+    } catch (error) {
+      // Bars alone are enough for the indicators
+      this.logger.log('ALERT', `Failed to fetch quotes: ${error}`);
+    }
+
+    return quotes;
+  }
+
+  /**
+   * Asset status per symbol. Symbols Alpaca does not know come back as not tradable;
+   * fixture mode and lookup errors leave the symbol out so callers treat it as unknown.
+   */
+  async getAssets(symbols: string[]): Promise<Map<string, AssetInfo>> {
+    const assets = new Map<string, AssetInfo>();
+    if (this.mode === 'fixture') return assets;
+
+    await Promise.all(symbols.map(async symbol => {
+      try {
+        const asset = await this.requestMarketData(`/assets/${encodeURIComponent(symbol)}`, PRICE_DATA_CONFIG.TRADING_URL) as AlpacaAsset;
+        assets.set(symbol, { symbol, tradable: asset.tradable, shortable: asset.shortable, status: asset.status });
+      } catch (error) {
+        if (String(error).includes(' 404 ')) {
+          assets.set(symbol, { symbol, tradable: false, shortable: false, status: 'unknown' });
+        } else {
+          this.logger.log('ALERT', `Failed to look up asset ${symbol}: ${error}`);
+        }
+      }
+    }));
+
+    return assets;
+  }
+
+  /**
+   * Read bars from a CSV (date,symbol,open,high,low,close,volume) or JSON array file
+   */
+  async loadBarsFromFile(path: string): Promise<PriceBar[]> {
+    const content = await Deno.readTextFile(path);
+
+    const rawBars: Array<Record<string, unknown>> = path.toLowerCase().endsWith('.csv')
+      ? this.parseCsv(content)
+      : JSON.parse(content);
+
+    return rawBars
+      .map(row => ({
+        date: String(row.date ?? row.timestamp ?? '').slice(0, 10),
+        symbol: String(row.symbol ?? '').toUpperCase(),
+        open: Number(row.open),
+        high: Number(row.high),
+        low: Number(row.low),
+        close: Number(row.close),
+        volume: Number(row.volume ?? 0)
+      }))
+      .filter(bar => bar.date && bar.symbol && Number.isFinite(bar.close))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  // Private helper methods
+
+  private getFixtureBars(): Promise<Map<string, PriceBar[]>> {
+    // Cache the pending load so parallel bar and quote lookups read the file once
+    if (!this.fixtureBars) {
+      this.fixtureBars = this.loadFixtureBars();
+      this.fixtureBars.catch(() => { this.fixtureBars = null; });
+    }
+    return this.fixtureBars;
+  }
+
+  private async loadFixtureBars(): Promise<Map<string, PriceBar[]>> {
+    const grouped = new Map<string, PriceBar[]>();
+    for (const bar of await this.loadBarsFromFile(this.fixturePath)) {
+      const list = grouped.get(bar.symbol) || [];
+      list.push(bar);
+      grouped.set(bar.symbol, list);
+    }
+
+    this.logger.log('STATUS', `📂 Loaded fixture bars for ${grouped.size} symbols from ${this.fixturePath}`);
+    return grouped;
+  }
+
+  private async requestMarketData(path: string, baseUrl: string = PRICE_DATA_CONFIG.DATA_URL): Promise<unknown> {
+    if (!this.apiKey || !this.secretKey) {
+      throw new Error('ALPACA_API_KEY and ALPACA_SECRET_KEY are required for live price data');
+    }
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      headers: {
+        'APCA-API-KEY-ID': this.apiKey,
+        'APCA-API-SECRET-KEY': this.secretKey,
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Alpaca API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json();
+  }
+
+  private toPriceBar(symbol: string, bar: AlpacaBar): PriceBar {
+    return {
+      date: bar.t.slice(0, 10),
+      symbol,
+      open: bar.o,
+      high: bar.h,
+      low: bar.l,
+      close: bar.c,
+      volume: bar.v
+    };
+  }
+
+  private parseCsv(content: string): Array<Record<string, unknown>> {
+    const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+    if (lines.length === 0) return [];
+
+    const headers = lines[0].split(',').map(h => h.trim().toLowerCase());
+    return lines.slice(1).map(line => {
+      const values = line.split(',');
+      const row: Record<string, unknown> = {};
+      headers.forEach((header, i) => {
+        row[header] = values[i]?.trim();
+      });
+      return row;
+    });
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * Reconciliation Service - Diffs broker positions and open orders against the trades table
+ * Categorizes each mismatch as:
+ * - unknown_position: the broker holds a position the trades table has no record of
+ * - quantity_drift: broker and recorded quantities disagree
+ * - missing_stop: a held position has no resting stop and no active exit strategy
+ * - orphan_order: an open order with nothing to open or protect
+ * Safe cases are healed (stale pending rows, missing stops, our orphaned exit orders);
+ * the rest are alerted. AgentState positions and trade history are refreshed from the result.
+ */
+
+import {
+  TradingLogger,
+  ITradingService,
+  IDatabaseService,
+  AgentState,
+  Position,
+  Order,
+  TradeRecord,
+  TradeFillUpdate
+} from '../types/interfaces.ts';
+import { RECONCILIATION_CONFIG, DATABASE_CONFIG, LEDGER_CONFIG } from '../config.ts';
+import { TradeLedgerService } from './tradeLedgerService.ts';
+import { PositionMonitorService } from './positionMonitorService.ts';
+import { ExitStrategyProgress } from './exitStrategyService.ts';
+import { FINAL_ORDER_STATUSES } from './orderTrackerService.ts';
+import { buildClientOrderId, parseClientOrderId } from '../utils/clientOrderId.ts';
+import { toExchangeTime } from '../utils/marketCalendar.ts';
+
+export type ReconciliationTrigger = 'startup' | 'pre_workflow' | 'post_close';
+
+export type ReconciliationMismatchType = 'unknown_position' | 'quantity_drift' | 'missing_stop' | 'orphan_order';
+
+export interface ReconciliationMismatch {
+  type: ReconciliationMismatchType;
+  symbol: string;
+  detail: string;
+  broker_quantity?: number;
+  recorded_quantity?: number;
+  order_id?: string;
+  healed: boolean;
+  action?: string; // What the heal did, e.g. the stop order placed or the order cancelled
+}
+
+export interface ReconciliationReport {
+  trigger: ReconciliationTrigger;
+  reconciled_at: string;
+  positions: number;
+  open_orders: number;
+  fills_recovered: number; // Pending trade rows whose orders had already reached a final state
+  mismatches: ReconciliationMismatch[];
+}
+
+const STOP_ORDER_TYPES: Order['order_type'][] = ['stop', 'stop_limit'];
+
+export class ReconciliationService {
+  private tradingService: ITradingService;
+  private databaseService: IDatabaseService;
+  private positionMonitorService: PositionMonitorService | null;
+  private ledgerService: TradeLedgerService;
+  private logger: TradingLogger;
+  private isRunning = false;
+
+  constructor(
+    tradingService: ITradingService,
+    databaseService: IDatabaseService,
+    positionMonitorService: PositionMonitorService | null,
+    logger: TradingLogger
+  ) {
+    this.tradingService = tradingService;
+    this.databaseService = databaseService;
+    this.positionMonitorService = positionMonitorService;
+    this.ledgerService = new TradeLedgerService(logger);
+    this.logger = logger;
+  }
+
+  /**
+   * Swap the trading service (e.g. after services are re-initialized)
+   */
+  setTradingService(tradingService: ITradingService): void {
+    this.tradingService = tradingService;
+  }
+
+  /**
+   * Reconcile once. Updates open_positions and trade_history on the given state in place;
+   * the caller persists it. Returns null when disabled or a run is already in progress.
+   */
+  async reconcile(state: AgentState, trigger: ReconciliationTrigger): Promise<ReconciliationReport | null> {
+    if (!RECONCILIATION_CONFIG.ENABLED) return null;
+    if (this.isRunning) {
+      this.logger.log('STATUS', '🔍 Reconciliation already running - skipping');
+      return null;
+    }
+
+    this.isRunning = true;
+    try {
+      const [positions, orders, trades, progress] = await Promise.all([
+        this.tradingService.getCurrentPositions(),
+        this.tradingService.getPendingOrders(),
+        this.databaseService.getHistoricalTrades(LEDGER_CONFIG.ENTRY_LOOKBACK_DAYS),
+        this.positionMonitorService ? this.positionMonitorService.getActiveProgress() : Promise.resolve([])
+      ]);
+
+      const report: ReconciliationReport = {
+        trigger,
+        reconciled_at: new Date().toISOString(),
+        positions: positions.length,
+        open_orders: orders.length,
+        fills_recovered: await this.recoverPendingFills(trades),
+        mismatches: []
+      };
+
+      const held = positions.filter(p => Math.abs(p.qty) > RECONCILIATION_CONFIG.QUANTITY_TOLERANCE);
+      const recorded = this.recordedQuantities(trades, orders);
+
+      report.mismatches.push(...this.diffQuantities(held, recorded));
+      report.mismatches.push(...await this.checkStops(held, orders, trades, progress));
+      report.mismatches.push(...await this.checkOrders(held, recorded, orders, trades, progress));
+
+      state.open_positions = positions;
+      state.trade_history = this.recentHistory(trades);
+
+      await this.record(report);
+      return report;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  // Private helper methods
+
+  /**
+   * Finalize pending rows the order tracker never resolved (e.g. after a restart); returns how many
+   */
+  private async recoverPendingFills(trades: TradeRecord[]): Promise<number> {
+    const cutoff = Date.now() - DATABASE_CONFIG.RECENT_TRADES_DAYS * 24 * 60 * 60 * 1000;
+    let recovered = 0;
+
+    for (const trade of trades) {
+      if (trade.status !== 'pending' || !trade.order_id || new Date(trade.executed_at).getTime() < cutoff) continue;
+
+      const order = await this.tradingService.getOrderStatus(trade.order_id);
+      if (!order?.status || !FINAL_ORDER_STATUSES.includes(order.status)) continue;
+
+      const filledQuantity = Number(order.filled_qty) || 0;
+      const fill: TradeFillUpdate = {
+        status: filledQuantity > 0 ? 'executed' : 'failed',
+        order_status: order.status,
+        filled_quantity: filledQuantity,
+        filled_avg_price: order.filled_avg_price ? Number(order.filled_avg_price) : undefined,
+        filled_at: order.filled_at,
+        fees: Number(order.commission) || 0
+      };
+      await this.databaseService.updateTradeFill(trade.order_id, fill);
+
+      // Keep the in-memory row in step so the ledger below sees the fill
+      trade.status = fill.status;
+      if (filledQuantity > 0) trade.quantity = filledQuantity;
+      if (fill.filled_avg_price) trade.executed_price = fill.filled_avg_price;
+      if (fill.filled_at) trade.executed_at = fill.filled_at;
+      trade.fees = fill.fees;
+
+      this.logger.log('TRADE', `🔍 Recovered ${trade.symbol} order ${order.id}: ${order.status} (${filledQuantity} filled)`);
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Signed open quantity per symbol from the ledger, plus partial fills on our still-open orders
+   */
+  private recordedQuantities(trades: TradeRecord[], orders: Order[]): Map<string, number> {
+    const quantities = new Map<string, number>();
+    const add = (symbol: string, quantity: number) => quantities.set(symbol, (quantities.get(symbol) || 0) + quantity);
+
+    for (const lot of this.ledgerService.buildFromTradeRecords(trades).open_lots) {
+      add(lot.symbol, lot.side === 'long' ? lot.remaining_quantity : -lot.remaining_quantity);
+    }
+
+    const pendingOrderIds = new Set(trades.filter(t => t.status === 'pending' && t.order_id).map(t => t.order_id));
+    for (const order of orders) {
+      if (!order.filled_qty || !pendingOrderIds.has(order.id)) continue;
+      add(order.symbol, order.side === 'buy' ? order.filled_qty : -order.filled_qty);
+    }
+
+    return quantities;
+  }
+
+  private diffQuantities(positions: Position[], recorded: Map<string, number>): ReconciliationMismatch[] {
+    const mismatches: ReconciliationMismatch[] = [];
+    const symbols = new Set([...positions.map(p => p.symbol), ...recorded.keys()]);
+
+    for (const symbol of symbols) {
+      const position = positions.find(p => p.symbol === symbol);
+      const brokerQuantity = position ? this.signedQuantity(position) : 0;
+      const recordedQuantity = recorded.get(symbol) || 0;
+      if (Math.abs(brokerQuantity - recordedQuantity) <= RECONCILIATION_CONFIG.QUANTITY_TOLERANCE) continue;
+
+      const unknown = Math.abs(recordedQuantity) <= RECONCILIATION_CONFIG.QUANTITY_TOLERANCE;
+      mismatches.push({
+        type: unknown ? 'unknown_position' : 'quantity_drift',
+        symbol,
+        detail: unknown
+          ? `Broker holds ${brokerQuantity} shares with no matching trade record`
+          : `Broker holds ${brokerQuantity} shares, trades table has ${recordedQuantity}`,
+        broker_quantity: brokerQuantity,
+        recorded_quantity: recordedQuantity,
+        healed: false
+      });
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Every held position needs a resting stop or an active exit strategy watching it
+   */
+  private async checkStops(
+    positions: Position[],
+    orders: Order[],
+    trades: TradeRecord[],
+    progress: ExitStrategyProgress[]
+  ): Promise<ReconciliationMismatch[]> {
+    const mismatches: ReconciliationMismatch[] = [];
+
+    for (const position of positions) {
+      const exitSide = position.side === 'short' ? 'buy' : 'sell';
+      const hasStop = orders.some(o => o.symbol === position.symbol && o.side === exitSide && STOP_ORDER_TYPES.includes(o.order_type));
+      const monitored = progress.some(p => p.symbol === position.symbol);
+      if (hasStop || monitored) continue;
+
+      const mismatch: ReconciliationMismatch = {
+        type: 'missing_stop',
+        symbol: position.symbol,
+        detail: `${position.side} ${Math.abs(position.qty)} shares with no stop order or active exit strategy`,
+        broker_quantity: this.signedQuantity(position),
+        healed: false
+      };
+
+      if (RECONCILIATION_CONFIG.HEAL_MISSING_STOPS) {
+        await this.placeMissingStop(position, trades, mismatch);
+      }
+      mismatches.push(mismatch);
+    }
+
+    return mismatches;
+  }
+
+  /**
+   * Re-place the stop from the latest matching entry; only when it is still on the right side of the price
+   */
+  private async placeMissingStop(position: Position, trades: TradeRecord[], mismatch: ReconciliationMismatch): Promise<void> {
+    const entryAction = position.side === 'short' ? 'SELL' : 'BUY';
+    const entry = trades
+      .filter(t => t.symbol === position.symbol && t.action === entryAction && t.status === 'executed' && t.stop_loss > 0)
+      .sort((a, b) => b.executed_at.localeCompare(a.executed_at))[0];
+
+    if (!entry) {
+      mismatch.detail += '; no recorded entry with a stop_loss to restore';
+      return;
+    }
+
+    const stopPrice = entry.stop_loss;
+    const valid = position.side === 'short' ? stopPrice > position.current_price : stopPrice < position.current_price;
+    if (!valid) {
+      mismatch.detail += `; recorded stop $${stopPrice.toFixed(2)} is already through the price $${position.current_price.toFixed(2)}`;
+      return;
+    }
+
+    // One reconciliation stop per symbol per trading day; a retry finds it instead of stacking stops
+    const date = toExchangeTime().date;
+    const execution = await this.tradingService.placeOrder({
+      symbol: position.symbol,
+      side: position.side === 'short' ? 'buy' : 'sell',
+      quantity: Math.abs(position.qty),
+      order_type: 'stop',
+      price: stopPrice,
+      time_in_force: 'gtc',
+      reasoning: 'Reconciliation: restore missing stop',
+      client_order_id: buildClientOrderId(entry.trade_plan_id || 'reconcile', position.symbol, `reconcile_stop-${date}`)
+    });
+
+    if (execution.success) {
+      mismatch.healed = true;
+      mismatch.order_id = execution.orderId;
+      mismatch.action = `Placed stop @ $${stopPrice.toFixed(2)}`;
+    } else {
+      mismatch.detail += `; failed to place stop: ${execution.error || 'unknown error'}`;
+    }
+  }
+
+  /**
+   * Open orders on symbols with no position: our exit orders are cancelled, foreign orders are alerted.
+   * Orders on held symbols are left alone since they protect or add to the position.
+   */
+  private async checkOrders(
+    positions: Position[],
+    recorded: Map<string, number>,
+    orders: Order[],
+    trades: TradeRecord[],
+    progress: ExitStrategyProgress[]
+  ): Promise<ReconciliationMismatch[]> {
+    const mismatches: ReconciliationMismatch[] = [];
+    const knownOrderIds = new Set([
+      ...trades.map(t => t.order_id).filter((id): id is string => !!id),
+      ...progress.flatMap(p => p.protective_order_ids || [])
+    ]);
+    const isOurs = (order: Order) => knownOrderIds.has(order.id) || parseClientOrderId(order.client_order_id) !== null;
+
+    // Bracket legs carry broker-generated IDs, so a pending entry of ours vouches for its symbol
+    const symbolsWithPendingEntry = new Set(
+      orders.filter(o => isOurs(o) && !this.isExitOrder(o)).map(o => o.symbol)
+    );
+
+    for (const order of orders) {
+      if (positions.some(p => p.symbol === order.symbol)) continue;
+
+      if (isOurs(order) && this.isExitOrder(order)) {
+        const mismatch: ReconciliationMismatch = {
+          type: 'orphan_order',
+          symbol: order.symbol,
+          detail: `${order.order_type} ${order.side} ${order.qty} exit order with no position to protect`,
+          order_id: order.id,
+          healed: false
+        };
+
+        if (RECONCILIATION_CONFIG.CANCEL_ORPHAN_EXIT_ORDERS) {
+          mismatch.healed = await this.tradingService.cancelOrder(order.id);
+          if (mismatch.healed) mismatch.action = 'Cancelled order';
+        }
+        mismatches.push(mismatch);
+      } else if (!isOurs(order) && !symbolsWithPendingEntry.has(order.symbol) && !recorded.get(order.symbol)) {
+        mismatches.push({
+          type: 'orphan_order',
+          symbol: order.symbol,
+          detail: `${order.order_type} ${order.side} ${order.qty} order not placed by the agent`,
+          order_id: order.id,
+          healed: false
+        });
+      }
+    }
+
+    return mismatches;
+  }
+
+  private isExitOrder(order: Order): boolean {
+    const parsed = parseClientOrderId(order.client_order_id);
+    // Entry legs are 'entry' or a TWAP slice such as 'entry-twap-2'
+    return parsed ? !parsed.leg.startsWith('entry') : STOP_ORDER_TYPES.includes(order.order_type);
+  }
+
+  private recentHistory(trades: TradeRecord[]): TradeRecord[] {
+    const cutoff = Date.now() - DATABASE_CONFIG.RECENT_TRADES_DAYS * 24 * 60 * 60 * 1000;
+    return trades
+      .filter(t => new Date(t.executed_at).getTime() >= cutoff)
+      .sort((a, b) => b.executed_at.localeCompare(a.executed_at))
+      .slice(0, RECONCILIATION_CONFIG.TRADE_HISTORY_LIMIT);
+  }
+
+  private signedQuantity(position: Position): number {
+    return position.side === 'short' ? -Math.abs(position.qty) : Math.abs(position.qty);
+  }
+
+  private async record(report: ReconciliationReport): Promise<void> {
+    const unhealed = report.mismatches.filter(m => !m.healed);
+    const healed = report.mismatches.filter(m => m.healed);
+
+    for (const mismatch of healed) {
+      this.logger.log('TRADE', `🩹 ${mismatch.type} ${mismatch.symbol}: ${mismatch.detail} - ${mismatch.action}`);
+    }
+    for (const mismatch of unhealed) {
+      this.logger.log('ALERT', `⚠️ ${mismatch.type} ${mismatch.symbol}: ${mismatch.detail}`);
+    }
+
+    this.logger.log('STATUS',
+      `🔍 Reconciliation (${report.trigger}): ${report.positions} positions, ${report.open_orders} open orders, ` +
+      `${report.fills_recovered} fills recovered, ${healed.length} healed, ${unhealed.length} need attention`
+    );
+
+    if (report.mismatches.length === 0) return;
+
+    const reason = `${report.mismatches.length} broker mismatch(es) on ${report.trigger}: ` +
+      report.mismatches.map(m => `${m.type} ${m.symbol}${m.healed ? ' (healed)' : ''}`).join(', ');
+    await this.databaseService.storeAgentEvent('reconciliation_mismatch', reason, {
+      trigger: report.trigger,
+      positions: report.positions,
+      open_orders: report.open_orders,
+      fills_recovered: report.fills_recovered,
+      mismatches: report.mismatches
+    });
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Risk Engine Service - Pre-trade portfolio limits between plan enhancement and execution
+ * Each trade is accepted, resized or rejected against:
+ * - Gross/net exposure, per-symbol and per-sector concentration
+ * - Correlated positions, max open positions, max trades per day
+ * - Daily loss limit
+ */
+
+import { TradingLogger, AccountDetails, Position } from '../types/interfaces.ts';
+import { RISK_LIMITS_CONFIG, TRADING_CONFIG } from '../config.ts';
+import { EnhancedTradePlan, EnhancedTradeDecision } from './enhancedStrategyService.ts';
+import { ExitStrategyService } from './exitStrategyService.ts';
+
+export interface RiskContext {
+  account: AccountDetails;
+  positions: Position[];
+  trades_today: number; // Plan trades already executed today
+}
+
+export interface RiskCheck {
+  limit: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface RiskDecision {
+  symbol: string;
+  action: 'BUY' | 'SELL';
+  decision: 'accept' | 'resize' | 'reject';
+  requested_quantity: number;
+  approved_quantity: number;
+  price: number;
+  checks: RiskCheck[];
+  reasons: string[];
+}
+
+export interface RiskAssessment {
+  decisions: RiskDecision[];
+  accepted: number;
+  resized: number;
+  rejected: number;
+  equity: number;
+  gross_exposure_before: number;
+  gross_exposure_after: number;
+  net_exposure_after: number;
+  evaluated_at: string;
+}
+
+interface ExposureBook {
+  bySymbol: Map<string, number>; // Signed market value; negative for shorts
+  tradesToday: number;
+}
+
+export class RiskEngineService {
+  private logger: TradingLogger;
+  private exitStrategyService: ExitStrategyService;
+
+  constructor(logger: TradingLogger) {
+    this.logger = logger;
+    this.exitStrategyService = new ExitStrategyService(logger);
+  }
+
+  /**
+   * Evaluate every trade in order; approved size counts against the limits of later trades
+   */
+  evaluatePlan(plan: EnhancedTradePlan, context: RiskContext): RiskAssessment {
+    const equity = context.account.equity || context.account.portfolio_value || context.account.balance;
+    const book: ExposureBook = {
+      bySymbol: new Map(),
+      tradesToday: context.trades_today
+    };
+
+    for (const position of context.positions) {
+      const value = Math.abs(position.market_value) * (position.side === 'short' ? -1 : 1);
+      book.bySymbol.set(position.symbol, (book.bySymbol.get(position.symbol) || 0) + value);
+    }
+
+    const grossBefore = this.grossExposure(book);
+    const decisions = plan.enhanced_trades.map(trade => this.evaluateTrade(trade, book, equity, context.account.day_pnl));
+
+    const assessment: RiskAssessment = {
+      decisions,
+      accepted: decisions.filter(d => d.decision === 'accept').length,
+      resized: decisions.filter(d => d.decision === 'resize').length,
+      rejected: decisions.filter(d => d.decision === 'reject').length,
+      equity,
+      gross_exposure_before: grossBefore,
+      gross_exposure_after: this.grossExposure(book),
+      net_exposure_after: this.netExposure(book),
+      evaluated_at: new Date().toISOString()
+    };
+
+    this.logAssessment(assessment);
+    return assessment;
+  }
+
+  /**
+   * Drop rejected trades and shrink resized ones, rebuilding their exit strategies
+   */
+  applyAssessment(plan: EnhancedTradePlan, assessment: RiskAssessment): EnhancedTradePlan {
+    const approvedTrades: EnhancedTradeDecision[] = [];
+
+    plan.enhanced_trades.forEach((trade, index) => {
+      const decision = assessment.decisions[index];
+      if (!decision || decision.decision === 'reject') return;
+
+      if (decision.decision === 'accept') {
+        approvedTrades.push(trade);
+        return;
+      }
+
+      const resized = { ...trade, quantity: decision.approved_quantity };
+      approvedTrades.push({
+        ...resized,
+        enhanced_quantity: decision.approved_quantity,
+        risk_adjusted: true,
+        exit_strategy: this.exitStrategyService.createExitStrategy(resized, trade.price_target)
+      });
+    });
+
+    return {
+      ...plan,
+      trades: approvedTrades,
+      enhanced_trades: approvedTrades,
+      exit_strategies: approvedTrades.map(trade => trade.exit_strategy)
+    };
+  }
+
+  // Private helper methods
+
+  private evaluateTrade(
+    trade: EnhancedTradeDecision,
+    book: ExposureBook,
+    equity: number,
+    dayPnl: number
+  ): RiskDecision {
+    const direction = trade.action === 'BUY' ? 1 : -1;
+    const price = trade.price_target;
+    const requested = trade.quantity;
+    const current = book.bySymbol.get(trade.symbol) || 0;
+    const checks: RiskCheck[] = [];
+
+    const decide = (approved: number): RiskDecision => {
+      const decision = approved >= requested ? 'accept' : approved > 0 ? 'resize' : 'reject';
+      if (approved > 0) {
+        book.bySymbol.set(trade.symbol, current + direction * approved * price);
+        book.tradesToday++;
+      }
+
+      return {
+        symbol: trade.symbol,
+        action: trade.action,
+        decision,
+        requested_quantity: requested,
+        approved_quantity: Math.min(approved, requested),
+        price,
+        checks,
+        reasons: checks.filter(c => !c.passed).map(c => `${c.limit}: ${c.detail}`)
+      };
+    };
+
+    if (!(price > 0) || !(requested > 0) || !(equity > 0)) {
+      checks.push({ limit: 'valid_order', passed: false, detail: `price $${price}, quantity ${requested}, equity $${equity}` });
+      return decide(0);
+    }
+
+    // Trades that only shrink an existing position always reduce risk
+    const reducible = current * direction < 0 ? Math.floor(Math.abs(current) / price) : 0;
+    if (reducible >= requested) {
+      checks.push({ limit: 'risk_reducing', passed: true, detail: `reduces existing ${trade.symbol} exposure` });
+      return decide(requested);
+    }
+
+    // Hard limits reject outright
+    const dailyLossLimit = RISK_LIMITS_CONFIG.DAILY_LOSS_LIMIT * equity;
+    checks.push({
+      limit: 'daily_loss',
+      passed: dayPnl > -dailyLossLimit,
+      detail: `day P&L $${dayPnl.toFixed(2)} vs limit -$${dailyLossLimit.toFixed(2)}`
+    });
+
+    checks.push({
+      limit: 'max_trades_per_day',
+      passed: book.tradesToday < TRADING_CONFIG.MAX_TRADES_PER_DAY,
+      detail: `${book.tradesToday} of ${TRADING_CONFIG.MAX_TRADES_PER_DAY} trades used today`
+    });
+
+    const openPositions = Array.from(book.bySymbol.values()).filter(value => value !== 0).length;
+    checks.push({
+      limit: 'max_open_positions',
+      passed: current !== 0 || openPositions < RISK_LIMITS_CONFIG.MAX_OPEN_POSITIONS,
+      detail: `${openPositions} of ${RISK_LIMITS_CONFIG.MAX_OPEN_POSITIONS} positions open`
+    });
+
+    const correlated = this.findCorrelatedHoldings(trade.symbol, book);
+    checks.push({
+      limit: 'max_correlated_positions',
+      passed: correlated.length < RISK_LIMITS_CONFIG.MAX_CORRELATED_POSITIONS,
+      detail: correlated.length > 0
+        ? `already holding ${correlated.join(', ')}`
+        : 'no correlated holdings'
+    });
+
+    if (checks.some(c => !c.passed)) {
+      return decide(0);
+    }
+
+    // Exposure limits cap the notional this trade may add
+    const sector = RISK_LIMITS_CONFIG.SECTOR_MAP[trade.symbol];
+    const capacities: Array<{ limit: string; room: number; detail: string }> = [
+      {
+        limit: 'symbol_concentration',
+        room: RISK_LIMITS_CONFIG.MAX_SYMBOL_CONCENTRATION * equity - Math.max(0, current * direction),
+        detail: `${trade.symbol} capped at ${(RISK_LIMITS_CONFIG.MAX_SYMBOL_CONCENTRATION * 100).toFixed(0)}% of equity`
+      },
+      {
+        limit: 'gross_exposure',
+        room: RISK_LIMITS_CONFIG.MAX_GROSS_EXPOSURE * equity - this.grossExposure(book),
+        detail: `gross exposure capped at ${(RISK_LIMITS_CONFIG.MAX_GROSS_EXPOSURE * 100).toFixed(0)}% of equity`
+      },
+      {
+        limit: 'net_exposure',
+        room: RISK_LIMITS_CONFIG.MAX_NET_EXPOSURE * equity - this.netExposure(book) * direction,
+        detail: `net exposure capped at ${(RISK_LIMITS_CONFIG.MAX_NET_EXPOSURE * 100).toFixed(0)}% of equity`
+      }
+    ];
+
+    if (sector) {
+      capacities.push({
+        limit: 'sector_concentration',
+        room: RISK_LIMITS_CONFIG.MAX_SECTOR_CONCENTRATION * equity - this.sectorExposure(sector, book),
+        detail: `${sector} capped at ${(RISK_LIMITS_CONFIG.MAX_SECTOR_CONCENTRATION * 100).toFixed(0)}% of equity`
+      });
+    }
+
+    let approved = requested;
+    for (const capacity of capacities) {
+      const maxQuantity = Math.max(0, Math.floor(capacity.room / price));
+      const passed = maxQuantity >= requested;
+      checks.push({
+        limit: capacity.limit,
+        passed,
+        detail: passed ? capacity.detail : `${capacity.detail} - room for ${maxQuantity} shares`
+      });
+      approved = Math.min(approved, maxQuantity);
+    }
+
+    return decide(approved);
+  }
+
+  private findCorrelatedHoldings(symbol: string, book: ExposureBook): string[] {
+    const held = new Set<string>();
+
+    for (const members of Object.values(RISK_LIMITS_CONFIG.CORRELATION_GROUPS)) {
+      if (!members.includes(symbol)) continue;
+      for (const member of members) {
+        if (member !== symbol && (book.bySymbol.get(member) || 0) !== 0) {
+          held.add(member);
+        }
+      }
+    }
+
+    return Array.from(held);
+  }
+
+  private grossExposure(book: ExposureBook): number {
+    return Array.from(book.bySymbol.values()).reduce((sum, value) => sum + Math.abs(value), 0);
+  }
+
+  private netExposure(book: ExposureBook): number {
+    return Array.from(book.bySymbol.values()).reduce((sum, value) => sum + value, 0);
+  }
+
+  private sectorExposure(sector: string, book: ExposureBook): number {
+    return Array.from(book.bySymbol.entries())
+      .filter(([symbol]) => RISK_LIMITS_CONFIG.SECTOR_MAP[symbol] === sector)
+      .reduce((sum, [, value]) => sum + Math.abs(value), 0);
+  }
+
+  private logAssessment(assessment: RiskAssessment): void {
+    this.logger.log('ANALYSIS',
+      `🛡️ Risk engine: ${assessment.accepted} accepted, ${assessment.resized} resized, ${assessment.rejected} rejected ` +
+      `(gross $${assessment.gross_exposure_before.toFixed(0)} → $${assessment.gross_exposure_after.toFixed(0)})`
+    );
+
+    for (const decision of assessment.decisions) {
+      const summary = `${decision.action} ${decision.symbol} ${decision.requested_quantity}` +
+        (decision.decision === 'resize' ? ` → ${decision.approved_quantity}` : '');
+      const reasons = decision.reasons.length > 0 ? ` - ${decision.reasons.join('; ')}` : '';
+      this.logger.log(decision.decision === 'reject' ? 'ALERT' : 'ANALYSIS',
+        `🛡️ ${decision.decision.toUpperCase()} ${summary}${reasons}`
+      );
+    }
+  }
+}
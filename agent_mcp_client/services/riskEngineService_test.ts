@@ -0,0 +1,137 @@
+/**
+ * Risk engine: accept / resize / reject decisions against the portfolio limits in RISK_LIMITS_CONFIG
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { AccountDetails, Position, TradingLogger } from '../types/interfaces.ts';
+import { EnhancedTradeDecision, EnhancedTradePlan } from './enhancedStrategyService.ts';
+import { RiskContext, RiskEngineService } from './riskEngineService.ts';
+
+const logger: TradingLogger = { log: () => {} };
+
+const ACCOUNT: AccountDetails = {
+  balance: 100000,
+  buying_power: 200000,
+  portfolio_value: 100000,
+  day_pnl: 0,
+  cash: 100000,
+  equity: 100000
+};
+
+function trade(symbol: string, action: 'BUY' | 'SELL', quantity: number, price = 100): EnhancedTradeDecision {
+  return {
+    symbol,
+    action,
+    quantity,
+    price_target: price,
+    stop_loss: price * 0.94,
+    take_profit: price * 1.1,
+    confidence: 0.8,
+    reasoning: 'test trade'
+  } as EnhancedTradeDecision;
+}
+
+function plan(...trades: EnhancedTradeDecision[]): EnhancedTradePlan {
+  return { id: 'plan-1', trades, enhanced_trades: trades, exit_strategies: [] } as unknown as EnhancedTradePlan;
+}
+
+function position(symbol: string, marketValue: number, side: 'long' | 'short' = 'long'): Position {
+  return {
+    symbol,
+    qty: marketValue / 100,
+    side,
+    market_value: marketValue,
+    cost_basis: marketValue,
+    unrealized_pl: 0,
+    unrealized_plpc: 0,
+    current_price: 100
+  };
+}
+
+function context(overrides: Partial<RiskContext> = {}): RiskContext {
+  return { account: ACCOUNT, positions: [], trades_today: 0, ...overrides };
+}
+
+function failedLimits(checks: Array<{ limit: string; passed: boolean }>): string[] {
+  return checks.filter(check => !check.passed).map(check => check.limit);
+}
+
+Deno.test("a trade inside every limit is accepted at full size", () => {
+  const assessment = new RiskEngineService(logger).evaluatePlan(plan(trade('AAPL', 'BUY', 50)), context());
+
+  assertEquals(assessment.decisions[0].decision, 'accept');
+  assertEquals(assessment.decisions[0].approved_quantity, 50);
+  assertEquals(assessment.decisions[0].reasons, []);
+  assertEquals(assessment.gross_exposure_after, 5000);
+  assertEquals(assessment.net_exposure_after, 5000);
+});
+
+Deno.test("a trade over the symbol concentration limit is resized and its exit strategy rebuilt", () => {
+  const engine = new RiskEngineService(logger);
+  const original = plan(trade('AAPL', 'BUY', 200));
+  const assessment = engine.evaluatePlan(original, context());
+
+  assertEquals(assessment.decisions[0].decision, 'resize');
+  assertEquals(assessment.decisions[0].approved_quantity, 100);
+  assertEquals(failedLimits(assessment.decisions[0].checks), ['symbol_concentration']);
+
+  const applied = engine.applyAssessment(original, assessment);
+  assertEquals(applied.enhanced_trades[0].quantity, 100);
+  assertEquals(applied.enhanced_trades[0].enhanced_quantity, 100);
+  assert(applied.enhanced_trades[0].risk_adjusted);
+  assertEquals(applied.exit_strategies[0].total_quantity, 100);
+});
+
+Deno.test("sector exposure caps a trade that fits its symbol limit", () => {
+  const assessment = new RiskEngineService(logger).evaluatePlan(
+    plan(trade('AMD', 'BUY', 50)),
+    context({ positions: [position('AAPL', 9000), position('MSFT', 9000), position('NVDA', 9000)] })
+  );
+
+  assertEquals(assessment.decisions[0].decision, 'resize');
+  assertEquals(assessment.decisions[0].approved_quantity, 30);
+  assertEquals(failedLimits(assessment.decisions[0].checks), ['sector_concentration']);
+});
+
+Deno.test("hard limits reject new risk outright", () => {
+  const engine = new RiskEngineService(logger);
+
+  const lossDay = engine.evaluatePlan(plan(trade('AAPL', 'BUY', 10)), context({ account: { ...ACCOUNT, day_pnl: -2500 } }));
+  assertEquals(lossDay.decisions[0].decision, 'reject');
+  assertEquals(failedLimits(lossDay.decisions[0].checks), ['daily_loss']);
+
+  const correlated = engine.evaluatePlan(
+    plan(trade('META', 'BUY', 10)),
+    context({ positions: [position('AAPL', 5000), position('MSFT', 5000), position('GOOGL', 5000)] })
+  );
+  assertEquals(correlated.decisions[0].decision, 'reject');
+  assertEquals(failedLimits(correlated.decisions[0].checks), ['max_correlated_positions']);
+
+  const invalid = engine.evaluatePlan(plan(trade('AAPL', 'BUY', 10, 0)), context());
+  assertEquals(invalid.decisions[0].decision, 'reject');
+  assertEquals(failedLimits(invalid.decisions[0].checks), ['valid_order']);
+});
+
+Deno.test("approved trades count against the limits of later trades in the same plan", () => {
+  const engine = new RiskEngineService(logger);
+  const original = plan(trade('AAPL', 'BUY', 10), trade('JPM', 'BUY', 10));
+  const assessment = engine.evaluatePlan(original, context({ trades_today: 1 }));
+
+  assertEquals(assessment.decisions.map(d => d.decision), ['accept', 'reject']);
+  assertEquals(failedLimits(assessment.decisions[1].checks), ['max_trades_per_day']);
+  assertEquals([assessment.accepted, assessment.resized, assessment.rejected], [1, 0, 1]);
+
+  const applied = engine.applyAssessment(original, assessment);
+  assertEquals(applied.trades.map(t => t.symbol), ['AAPL']);
+});
+
+Deno.test("a trade that only reduces an existing position skips the limits", () => {
+  const assessment = new RiskEngineService(logger).evaluatePlan(
+    plan(trade('AAPL', 'SELL', 50)),
+    context({ account: { ...ACCOUNT, day_pnl: -5000 }, positions: [position('AAPL', 20000)], trades_today: 5 })
+  );
+
+  assertEquals(assessment.decisions[0].decision, 'accept');
+  assertEquals(assessment.decisions[0].checks.map(check => check.limit), ['risk_reducing']);
+  assertEquals(assessment.gross_exposure_after, 15000);
+});
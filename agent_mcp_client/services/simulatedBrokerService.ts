@@ -0,0 +1,775 @@
+/**
+ * Simulated Broker Service - In-process paper broker driven by a scripted price feed
+ */
+
+import { crypto } from "https://deno.land/std@0.208.0/crypto/mod.ts";
+import {
+  ITradingService,
+  TradePlan,
+  TradeDecision,
+  AccountDetails,
+  TradingLogger,
+  AgentState,
+  ExecutedTrade,
+  Position,
+  Order,
+  OrderRequest,
+  TradeExecutionResult,
+  AlpacaOrder,
+  IEntryScheduler,
+  ProtectiveOrderIds
+} from '../types/interfaces.ts';
+import { SIMULATED_BROKER_CONFIG } from '../config.ts';
+import { buildClientOrderId } from '../utils/clientOrderId.ts';
+
+export interface SimulatedPriceTick {
+  price: number;
+  volume?: number; // Omit for unlimited liquidity
+}
+
+// Ticks per symbol, stepped in lockstep; a symbol holds its last price once its script runs out
+export type SimulatedPriceFeed = Record<string, Array<number | SimulatedPriceTick>>;
+
+export interface SimulatedBrokerOptions {
+  starting_balance: number;
+  price_feed_path?: string;
+  tick_interval_ms: number;
+  slippage_bps: number;
+  commission_per_share: number;
+  min_commission: number;
+  participation_rate: number;
+  allow_shorting: boolean;
+  reject_symbols: string[];
+}
+
+export interface SimulatedOrder {
+  id: string;
+  client_order_id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  type: 'market' | 'limit' | 'stop';
+  qty: number;
+  filled_qty: number;
+  filled_avg_price?: number;
+  commission?: number;
+  limit_price?: number;
+  stop_price?: number;
+  time_in_force: 'day' | 'gtc';
+  status: 'new' | 'partially_filled' | 'filled' | 'canceled' | 'expired' | 'rejected';
+  reject_reason?: string;
+  triggered?: boolean; // Stop price touched - the order now fills as a market order
+  parent_id?: string; // Bracket legs are held until the parent fills
+  oco_group?: string; // A fill on one order in the group cancels the others
+  leg_ids?: string[];
+  created_at: string;
+  updated_at: string;
+  filled_at?: string;
+  canceled_at?: string;
+}
+
+interface SimulatedPosition {
+  qty: number; // Negative for shorts
+  avg_entry_price: number;
+}
+
+export class SimulatedBrokerService implements ITradingService {
+  private logger: TradingLogger;
+  private options: SimulatedBrokerOptions;
+  private feed: SimulatedPriceFeed = {};
+  private feedLoaded = false;
+  private tickIndex = 0;
+  private liquidityUsed: Map<string, number> = new Map();
+  private cash: number;
+  private positions: Map<string, SimulatedPosition> = new Map();
+  private orders: Map<string, SimulatedOrder> = new Map();
+  private totalCommission = 0;
+  private startedAt = Date.now();
+  private currentDay = new Date().toISOString().split('T')[0];
+  private dayStartEquity: number;
+
+  constructor(logger: TradingLogger, options: Partial<SimulatedBrokerOptions> = {}, priceFeed?: SimulatedPriceFeed) {
+    this.logger = logger;
+    this.options = {
+      starting_balance: SIMULATED_BROKER_CONFIG.STARTING_BALANCE,
+      price_feed_path: SIMULATED_BROKER_CONFIG.PRICE_FEED_PATH,
+      tick_interval_ms: SIMULATED_BROKER_CONFIG.TICK_INTERVAL_MS,
+      slippage_bps: SIMULATED_BROKER_CONFIG.SLIPPAGE_BPS,
+      commission_per_share: SIMULATED_BROKER_CONFIG.COMMISSION_PER_SHARE,
+      min_commission: SIMULATED_BROKER_CONFIG.MIN_COMMISSION,
+      participation_rate: SIMULATED_BROKER_CONFIG.PARTICIPATION_RATE,
+      allow_shorting: SIMULATED_BROKER_CONFIG.ALLOW_SHORTING,
+      reject_symbols: SIMULATED_BROKER_CONFIG.REJECT_SYMBOLS,
+      ...options
+    };
+
+    this.cash = this.options.starting_balance;
+    this.dayStartEquity = this.options.starting_balance;
+
+    if (priceFeed) {
+      this.setPriceFeed(priceFeed);
+    }
+  }
+
+  /**
+   * Replace the scripted price feed and restart it from the first tick
+   */
+  setPriceFeed(feed: SimulatedPriceFeed): void {
+    this.feed = feed;
+    this.feedLoaded = true;
+    this.tickIndex = 0;
+    this.startedAt = Date.now();
+    this.liquidityUsed.clear();
+  }
+
+  /**
+   * Step the price feed forward and match resting orders at each new tick
+   */
+  async advance(ticks: number = 1): Promise<void> {
+    await this.ensureFeedLoaded();
+
+    for (let i = 0; i < ticks; i++) {
+      this.tickIndex++;
+      this.liquidityUsed.clear();
+      this.matchOpenOrders();
+    }
+  }
+
+  /**
+   * Get the current feed price for a symbol
+   */
+  getSimulatedPrice(symbol: string): number | null {
+    return this.currentTick(symbol)?.price ?? null;
+  }
+
+  /**
+   * Total commission charged since the simulator started
+   */
+  getTotalCommission(): number {
+    return this.totalCommission;
+  }
+
+  /**
+   * Execute trades against the simulated book
+   */
+  async executeTrades(tradePlan: TradePlan, agentState?: AgentState): Promise<ExecutedTrade[]> {
+    if (agentState?.is_paused) {
+      this.logger.log('ALERT', 'Trading is paused, skipping trade execution');
+      return [];
+    }
+
+    await this.syncClock();
+    this.logger.log('TRADE', `🧪 Simulating ${tradePlan.trades.length} trades...`);
+
+    const executedTrades: ExecutedTrade[] = [];
+
+    for (const trade of tradePlan.trades) {
+      const side = trade.action === 'BUY' ? 'buy' : 'sell';
+      const order = this.submitOrder({
+        symbol: trade.symbol,
+        side,
+        quantity: trade.quantity,
+        order_type: 'market',
+        time_in_force: 'day',
+        client_order_id: buildClientOrderId(tradePlan.id, trade.symbol, 'entry')
+      });
+
+      if (order.status === 'rejected') {
+        this.logger.log('ALERT', `🧪 Simulated ${trade.action} ${trade.symbol} rejected: ${order.reject_reason}`);
+        executedTrades.push({
+          ...trade,
+          executed_quantity: 0,
+          execution_result: { success: false, orderId: order.id, error: order.reject_reason },
+          executed_at: order.created_at,
+          order_id: order.id,
+          client_order_id: order.client_order_id,
+          status: 'failed'
+        });
+        continue;
+      }
+
+      const childOrderIds = this.attachProtectiveLegs(trade, order);
+
+      this.logger.log('TRADE',
+        `🧪 Simulated ${trade.action} ${order.filled_qty}/${order.qty} ${trade.symbol}` +
+        (order.filled_avg_price ? ` at $${order.filled_avg_price.toFixed(2)}` : ' (resting)')
+      );
+
+      executedTrades.push({
+        ...trade,
+        executed_quantity: order.filled_qty,
+        execution_result: { success: true, orderId: order.id, filledPrice: order.filled_avg_price },
+        executed_at: order.filled_at || order.created_at,
+        order_id: order.id,
+        client_order_id: order.client_order_id,
+        filled_avg_price: order.filled_avg_price,
+        fees: order.commission || 0,
+        status: order.status === 'filled' ? 'executed' : 'pending',
+        order_class: childOrderIds ? 'bracket' : 'simple',
+        child_order_ids: childOrderIds
+      });
+    }
+
+    return executedTrades;
+  }
+
+  /**
+   * Place a single order against the simulated book
+   */
+  async placeOrder(order: OrderRequest): Promise<TradeExecutionResult> {
+    await this.syncClock();
+
+    const simulated = this.submitOrder(order);
+    if (simulated.status === 'rejected') {
+      this.logger.log('ALERT', `🧪 Simulated ${order.side} ${order.symbol} rejected: ${simulated.reject_reason}`);
+      return { success: false, orderId: simulated.id, error: simulated.reject_reason };
+    }
+
+    this.logger.log('TRADE',
+      `🧪 Placed simulated ${order.order_type} ${order.side} order for ${order.quantity} ${order.symbol}` +
+      (order.price ? ` at $${order.price.toFixed(2)}` : '')
+    );
+
+    return { success: true, orderId: simulated.id, filledPrice: simulated.filled_avg_price };
+  }
+
+  /**
+   * Set stop loss and take profit as a simulated OCO pair
+   */
+  async setStopLossAndTakeProfit(trade: TradeDecision, orderId: string): Promise<ProtectiveOrderIds | undefined> {
+    await this.syncClock();
+
+    const parent = this.orders.get(orderId);
+    if (!parent) {
+      this.logger.log('ALERT', `🧪 Cannot protect ${trade.symbol} - unknown simulated order ${orderId}`);
+      return undefined;
+    }
+
+    return this.attachProtectiveLegs(trade, parent);
+  }
+
+  async getAccountDetails(): Promise<AccountDetails> {
+    await this.syncClock();
+
+    const equity = this.getEquity();
+    const grossExposure = Array.from(this.positions.entries())
+      .reduce((sum, [symbol, position]) => sum + Math.abs(position.qty) * this.markPrice(symbol, position), 0);
+
+    return {
+      balance: this.cash,
+      buying_power: Math.max(0, equity - grossExposure),
+      portfolio_value: equity,
+      day_pnl: equity - this.dayStartEquity,
+      cash: this.cash,
+      equity
+    };
+  }
+
+  async getCurrentPositions(): Promise<Position[]> {
+    await this.syncClock();
+
+    return Array.from(this.positions.entries()).map(([symbol, position]) => {
+      const currentPrice = this.markPrice(symbol, position);
+      const costBasis = position.qty * position.avg_entry_price;
+      const marketValue = position.qty * currentPrice;
+      const unrealizedPl = marketValue - costBasis;
+
+      return {
+        symbol,
+        qty: position.qty,
+        side: position.qty >= 0 ? 'long' as const : 'short' as const,
+        market_value: marketValue,
+        cost_basis: costBasis,
+        unrealized_pl: unrealizedPl,
+        unrealized_plpc: costBasis !== 0 ? unrealizedPl / Math.abs(costBasis) : 0,
+        current_price: currentPrice
+      };
+    });
+  }
+
+  async getPendingOrders(): Promise<Order[]> {
+    await this.syncClock();
+
+    return Array.from(this.orders.values())
+      .filter(order => this.isOpen(order))
+      .map(order => ({
+        id: order.id,
+        symbol: order.symbol,
+        side: order.side,
+        order_type: order.type,
+        qty: order.qty,
+        filled_qty: order.filled_qty,
+        limit_price: order.limit_price,
+        stop_price: order.stop_price,
+        status: order.status as 'new' | 'partially_filled',
+        time_in_force: order.time_in_force,
+        created_at: order.created_at,
+        updated_at: order.updated_at,
+        client_order_id: order.client_order_id
+      }));
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string }> {
+    await this.ensureFeedLoaded();
+
+    const symbols = Object.keys(this.feed);
+    return {
+      success: symbols.length > 0,
+      message: symbols.length > 0
+        ? `Simulated broker ready with ${symbols.length} symbols in price feed`
+        : 'Simulated broker has no price feed loaded'
+    };
+  }
+
+  // Additional methods for compatibility
+  setAlpacaClient(client: unknown): void {
+    // Not used by the simulator
+  }
+
+  updateClient(client: unknown): void {
+    // Not used by the simulator
+  }
+
+  setEntryScheduler(scheduler: IEntryScheduler): void {
+    // The simulator fills every entry at submission, so nothing is scheduled
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    await this.syncClock();
+
+    const order = this.orders.get(orderId);
+    if (!order || !this.isOpen(order)) {
+      this.logger.log('ALERT', `🧪 Cannot cancel simulated order ${orderId} - not open`);
+      return false;
+    }
+
+    this.closeOrder(order, 'canceled');
+    this.logger.log('TRADE', `🧪 Cancelled simulated order ${orderId}`);
+    return true;
+  }
+
+  async getOrderStatus(orderId: string): Promise<AlpacaOrder | null> {
+    await this.syncClock();
+
+    const order = this.orders.get(orderId);
+    return order ? this.toAlpacaOrder(order) : null;
+  }
+
+  async getMarketData(symbol: string): Promise<Record<string, unknown>> {
+    await this.syncClock();
+
+    const tick = this.currentTick(symbol);
+    if (!tick) {
+      throw new Error(`No simulated price for ${symbol}`);
+    }
+
+    return { symbol, price: tick.price, volume: tick.volume, tick: this.tickIndex };
+  }
+
+  waitForMarketOpen(): Promise<void> {
+    // The simulated market is always open
+    return Promise.resolve();
+  }
+
+  async cancelAllOrders(): Promise<boolean> {
+    await this.syncClock();
+
+    let cancelled = 0;
+    for (const order of this.orders.values()) {
+      if (this.isOpen(order)) {
+        this.closeOrder(order, 'canceled');
+        cancelled++;
+      }
+    }
+
+    this.logger.log('TRADE', `🧪 Cancelled ${cancelled} simulated orders`);
+    return true;
+  }
+
+  // Private helper methods
+
+  /**
+   * Validate and record an order, then try to fill it at the current tick
+   */
+  private submitOrder(request: OrderRequest, parentId?: string, ocoGroup?: string): SimulatedOrder {
+    // Like Alpaca, a client_order_id is accepted once; a retry gets the original order back
+    const existing = request.client_order_id
+      ? [...this.orders.values()].find(order => order.client_order_id === request.client_order_id)
+      : undefined;
+    if (existing) {
+      this.logger.log('TRADE', `🧪 ♻️ ${existing.symbol} order ${existing.client_order_id} already placed (${existing.status})`);
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const order: SimulatedOrder = {
+      id: crypto.randomUUID(),
+      client_order_id: request.client_order_id || crypto.randomUUID(),
+      symbol: request.symbol,
+      side: request.side,
+      type: request.order_type,
+      qty: request.quantity,
+      filled_qty: 0,
+      limit_price: request.order_type === 'limit' ? request.price : undefined,
+      stop_price: request.order_type === 'stop' ? request.price : undefined,
+      time_in_force: request.time_in_force || 'day',
+      status: 'new',
+      parent_id: parentId,
+      oco_group: ocoGroup,
+      created_at: now,
+      updated_at: now
+    };
+
+    this.orders.set(order.id, order);
+
+    const rejection = this.validateOrder(order);
+    if (rejection) {
+      order.status = 'rejected';
+      order.reject_reason = rejection;
+      return order;
+    }
+
+    if (!order.parent_id) {
+      this.matchOrder(order);
+    }
+
+    return order;
+  }
+
+  private validateOrder(order: SimulatedOrder): string | null {
+    if (this.options.reject_symbols.includes(order.symbol)) {
+      return `Symbol ${order.symbol} is not tradable`;
+    }
+    if (!Number.isInteger(order.qty) || order.qty <= 0) {
+      return `Invalid quantity ${order.qty}`;
+    }
+    if (order.type !== 'market' && !(Number(order.limit_price ?? order.stop_price) > 0)) {
+      return `${order.type} order requires a price`;
+    }
+
+    const price = this.getSimulatedPrice(order.symbol);
+    if (!price) {
+      return `No simulated price for ${order.symbol}`;
+    }
+
+    // Held bracket legs are checked against the parent's fill instead
+    if (order.parent_id) return null;
+
+    if (order.side === 'buy') {
+      const covering = Math.max(0, -(this.positions.get(order.symbol)?.qty || 0));
+      const cost = Math.max(0, order.qty - covering) * (order.limit_price ?? price);
+      if (cost > this.cash) {
+        return `Insufficient buying power: need $${cost.toFixed(2)}, have $${this.cash.toFixed(2)}`;
+      }
+    } else if (!this.options.allow_shorting) {
+      const held = Math.max(0, this.positions.get(order.symbol)?.qty || 0);
+      if (order.qty > held) {
+        return `Insufficient position: selling ${order.qty} ${order.symbol}, holding ${held}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Bracket the entry with a held stop loss / take profit OCO pair
+   */
+  private attachProtectiveLegs(
+    trade: TradeDecision,
+    parent: SimulatedOrder
+  ): ProtectiveOrderIds | undefined {
+    // A reused entry keeps the legs it was placed with
+    if (parent.leg_ids?.length) {
+      const [stopLoss, takeProfit] = parent.leg_ids;
+      return { stop_loss: stopLoss, take_profit: takeProfit };
+    }
+
+    const isLong = parent.side === 'buy';
+    const validLevels = trade.stop_loss > 0 && trade.take_profit > 0 && (isLong
+      ? trade.stop_loss < trade.take_profit
+      : trade.stop_loss > trade.take_profit);
+
+    if (!validLevels) return undefined;
+
+    const exitSide = isLong ? 'sell' : 'buy';
+    const ocoGroup = crypto.randomUUID();
+    const parentId = parent.status === 'filled' ? undefined : parent.id;
+    const quantity = parentId ? parent.qty : parent.filled_qty;
+
+    const stopLoss = this.submitOrder(
+      { symbol: parent.symbol, side: exitSide, quantity, order_type: 'stop', price: trade.stop_loss, time_in_force: 'gtc' },
+      parentId,
+      ocoGroup
+    );
+    const takeProfit = this.submitOrder(
+      { symbol: parent.symbol, side: exitSide, quantity, order_type: 'limit', price: trade.take_profit, time_in_force: 'gtc' },
+      parentId,
+      ocoGroup
+    );
+
+    parent.leg_ids = [...(parent.leg_ids || []), stopLoss.id, takeProfit.id];
+
+    return { stop_loss: stopLoss.id, take_profit: takeProfit.id };
+  }
+
+  /**
+   * Fill as much of an order as the current tick allows
+   */
+  private matchOrder(order: SimulatedOrder): void {
+    const tick = this.currentTick(order.symbol);
+    if (!tick || !this.isOpen(order) || order.parent_id) return;
+
+    const fillPrice = this.getFillPrice(order, tick.price);
+    if (fillPrice === null) return;
+
+    let quantity = Math.min(order.qty - order.filled_qty, this.availableLiquidity(order.symbol, tick));
+    quantity = this.capToAccount(order, quantity, fillPrice);
+
+    if (quantity <= 0) {
+      // Nothing fillable for account reasons; the order cannot complete
+      if (this.availableLiquidity(order.symbol, tick) > 0) {
+        if (order.filled_qty === 0) {
+          order.status = 'rejected';
+          order.reject_reason = order.side === 'buy' ? 'Insufficient buying power at fill' : 'Insufficient position at fill';
+          order.updated_at = new Date().toISOString();
+        } else {
+          this.closeOrder(order, 'canceled');
+        }
+      }
+      return;
+    }
+
+    this.applyFill(order, quantity, fillPrice);
+  }
+
+  private matchOpenOrders(): void {
+    // Oldest first so earlier orders get the tick's liquidity
+    const open = Array.from(this.orders.values())
+      .filter(order => this.isOpen(order) && !order.parent_id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    for (const order of open) {
+      this.matchOrder(order);
+    }
+  }
+
+  /**
+   * Price for a fill at this tick, or null if the order is not marketable
+   */
+  private getFillPrice(order: SimulatedOrder, price: number): number | null {
+    const slippage = price * (this.options.slippage_bps / 10000);
+    const marketPrice = order.side === 'buy' ? price + slippage : price - slippage;
+
+    if (order.type === 'market') return marketPrice;
+
+    if (order.type === 'limit') {
+      const limit = order.limit_price as number;
+      if (order.side === 'buy') return price <= limit ? Math.min(price, limit) : null;
+      return price >= limit ? Math.max(price, limit) : null;
+    }
+
+    // Stops convert to market orders once the stop price trades
+    const stop = order.stop_price as number;
+    if (!order.triggered) {
+      order.triggered = order.side === 'buy' ? price >= stop : price <= stop;
+    }
+    return order.triggered ? marketPrice : null;
+  }
+
+  private availableLiquidity(symbol: string, tick: SimulatedPriceTick): number {
+    if (tick.volume === undefined) return Infinity;
+
+    const limit = Math.max(1, Math.floor(tick.volume * this.options.participation_rate));
+    return Math.max(0, limit - (this.liquidityUsed.get(symbol) || 0));
+  }
+
+  /**
+   * Reduce a fill to what cash and (without shorting) the held position allow
+   */
+  private capToAccount(order: SimulatedOrder, quantity: number, fillPrice: number): number {
+    const positionQty = this.positions.get(order.symbol)?.qty || 0;
+
+    if (order.side === 'buy') {
+      const covering = Math.min(quantity, Math.max(0, -positionQty));
+      const perShare = fillPrice + this.options.commission_per_share;
+      const affordable = Math.floor(Math.max(0, this.cash - this.options.min_commission) / perShare);
+      return covering + Math.min(quantity - covering, affordable);
+    }
+
+    return this.options.allow_shorting ? quantity : Math.min(quantity, Math.max(0, positionQty));
+  }
+
+  private applyFill(order: SimulatedOrder, quantity: number, price: number): void {
+    const now = new Date().toISOString();
+    const signedQty = order.side === 'buy' ? quantity : -quantity;
+    const commission = Math.max(this.options.min_commission, quantity * this.options.commission_per_share);
+
+    // Update position, keeping the average entry on adds and resetting it when flipping sides
+    const position = this.positions.get(order.symbol) || { qty: 0, avg_entry_price: 0 };
+    const newQty = position.qty + signedQty;
+    if (position.qty === 0 || Math.sign(position.qty) === Math.sign(signedQty)) {
+      position.avg_entry_price = (position.qty * position.avg_entry_price + signedQty * price) / newQty;
+    } else if (Math.sign(newQty) !== Math.sign(position.qty) && newQty !== 0) {
+      position.avg_entry_price = price;
+    }
+    position.qty = newQty;
+
+    if (position.qty === 0) {
+      this.positions.delete(order.symbol);
+    } else {
+      this.positions.set(order.symbol, position);
+    }
+
+    this.cash -= signedQty * price + commission;
+    this.totalCommission += commission;
+    order.commission = (order.commission || 0) + commission;
+    this.liquidityUsed.set(order.symbol, (this.liquidityUsed.get(order.symbol) || 0) + quantity);
+
+    order.filled_avg_price = ((order.filled_avg_price || 0) * order.filled_qty + price * quantity) / (order.filled_qty + quantity);
+    order.filled_qty += quantity;
+    order.status = order.filled_qty >= order.qty ? 'filled' : 'partially_filled';
+    order.updated_at = now;
+    if (order.status === 'filled') order.filled_at = now;
+
+    // One fill on an OCO leg cancels its sibling
+    if (order.oco_group) {
+      for (const sibling of this.orders.values()) {
+        if (sibling.id !== order.id && sibling.oco_group === order.oco_group && this.isOpen(sibling)) {
+          this.closeOrder(sibling, 'canceled');
+        }
+      }
+    }
+
+    if (order.status === 'filled') {
+      this.releaseChildren(order);
+    }
+  }
+
+  /**
+   * Activate held bracket legs once the parent is done, sized to what actually filled
+   */
+  private releaseChildren(parent: SimulatedOrder): void {
+    const released: SimulatedOrder[] = [];
+
+    for (const child of this.orders.values()) {
+      if (child.parent_id !== parent.id || !this.isOpen(child)) continue;
+
+      if (parent.filled_qty === 0) {
+        this.closeOrder(child, 'canceled');
+        continue;
+      }
+
+      child.qty = parent.filled_qty;
+      child.parent_id = undefined;
+      child.updated_at = new Date().toISOString();
+      released.push(child);
+    }
+
+    // Newly active legs may already be marketable
+    for (const child of released) {
+      this.matchOrder(child);
+    }
+  }
+
+  private closeOrder(order: SimulatedOrder, status: 'canceled' | 'expired'): void {
+    const now = new Date().toISOString();
+    order.status = status;
+    order.updated_at = now;
+    if (status === 'canceled') order.canceled_at = now;
+
+    this.releaseChildren(order);
+  }
+
+  private isOpen(order: SimulatedOrder): boolean {
+    return order.status === 'new' || order.status === 'partially_filled';
+  }
+
+  private currentTick(symbol: string): SimulatedPriceTick | null {
+    const ticks = this.feed[symbol];
+    if (!ticks || ticks.length === 0) return null;
+
+    const tick = ticks[Math.min(this.tickIndex, ticks.length - 1)];
+    return typeof tick === 'number' ? { price: tick } : tick;
+  }
+
+  private markPrice(symbol: string, position: SimulatedPosition): number {
+    return this.getSimulatedPrice(symbol) ?? position.avg_entry_price;
+  }
+
+  private getEquity(): number {
+    return Array.from(this.positions.entries())
+      .reduce((sum, [symbol, position]) => sum + position.qty * this.markPrice(symbol, position), this.cash);
+  }
+
+  /**
+   * Advance the feed with wall-clock time and roll the trading day
+   */
+  private async syncClock(): Promise<void> {
+    await this.ensureFeedLoaded();
+
+    const today = new Date().toISOString().split('T')[0];
+    if (today !== this.currentDay) {
+      for (const order of this.orders.values()) {
+        if (this.isOpen(order) && order.time_in_force === 'day') {
+          this.closeOrder(order, 'expired');
+        }
+      }
+      this.currentDay = today;
+      this.dayStartEquity = this.getEquity();
+    }
+
+    if (this.options.tick_interval_ms <= 0) return;
+
+    const targetTick = Math.floor((Date.now() - this.startedAt) / this.options.tick_interval_ms);
+    if (targetTick > this.tickIndex) {
+      await this.advance(targetTick - this.tickIndex);
+    }
+  }
+
+  private async ensureFeedLoaded(): Promise<void> {
+    if (this.feedLoaded) return;
+    this.feedLoaded = true;
+
+    if (!this.options.price_feed_path) return;
+
+    try {
+      const data = await Deno.readTextFile(this.options.price_feed_path);
+      this.feed = JSON.parse(data) as SimulatedPriceFeed;
+      this.startedAt = Date.now();
+      this.logger.log('STATUS', `🧪 Loaded simulated price feed for ${Object.keys(this.feed).length} symbols`);
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to load simulated price feed from ${this.options.price_feed_path}: ${error}`);
+    }
+  }
+
+  private toAlpacaOrder(order: SimulatedOrder): AlpacaOrder {
+    return {
+      id: order.id,
+      client_order_id: order.client_order_id,
+      created_at: order.created_at,
+      updated_at: order.updated_at,
+      submitted_at: order.created_at,
+      filled_at: order.filled_at,
+      expired_at: order.status === 'expired' ? order.updated_at : undefined,
+      canceled_at: order.canceled_at,
+      failed_at: order.status === 'rejected' ? order.updated_at : undefined,
+      asset_id: order.symbol,
+      symbol: order.symbol,
+      asset_class: 'us_equity',
+      qty: order.qty.toString(),
+      filled_qty: order.filled_qty.toString(),
+      filled_avg_price: order.filled_avg_price?.toString() ?? null,
+      commission: order.commission ?? null,
+      type: order.type,
+      side: order.side,
+      time_in_force: order.time_in_force,
+      limit_price: order.limit_price?.toString(),
+      stop_price: order.stop_price?.toString(),
+      status: order.parent_id ? 'accepted' : order.status,
+      extended_hours: false,
+      legs: (order.leg_ids || [])
+        .map(id => this.orders.get(id))
+        .filter((leg): leg is SimulatedOrder => !!leg)
+        .map(leg => ({ id: leg.id, type: leg.type, status: leg.status }))
+    };
+  }
+}
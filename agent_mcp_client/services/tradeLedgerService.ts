@@ -0,0 +1,210 @@
+/**
+ * Trade Ledger Service - Matches entry and exit fills into closed lots
+ * Implements:
+ * - FIFO / LIFO / specific-lot matching per symbol
+ * - Realized P&L, holding period and fees per closed lot
+ * - Long and short lots (a fill that exceeds the opposite side opens a new lot)
+ */
+
+import {
+  TradingLogger,
+  TradeRecord,
+  LedgerFill,
+  OpenLot,
+  ClosedLot,
+  LotMatchingMethod
+} from '../types/interfaces.ts';
+import { LEDGER_CONFIG } from '../config.ts';
+
+export interface LedgerResult {
+  closed_lots: ClosedLot[];
+  open_lots: OpenLot[];
+}
+
+export interface LedgerSummary {
+  closed_lot_count: number;
+  win_rate: number;
+  avg_return: number;
+  total_return: number;
+  realized_pnl: number;
+  total_fees: number;
+  avg_holding_period_days: number;
+  best_lot: ClosedLot | null;
+  worst_lot: ClosedLot | null;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export class TradeLedgerService {
+  private logger: TradingLogger;
+  private method: LotMatchingMethod;
+
+  constructor(logger: TradingLogger, method: LotMatchingMethod = LEDGER_CONFIG.LOT_MATCHING_METHOD) {
+    this.logger = logger;
+    this.method = method;
+  }
+
+  /**
+   * Convert stored trade rows into fills, skipping rows that never filled
+   */
+  fillsFromTradeRecords(trades: TradeRecord[]): LedgerFill[] {
+    return trades
+      .filter(t => t.status === 'executed' && t.quantity > 0 && (t.executed_price || 0) > 0)
+      .map(t => ({
+        id: t.order_id || t.id || `${t.symbol}-${t.executed_at}`,
+        symbol: t.symbol,
+        side: t.action === 'BUY' ? 'buy' as const : 'sell' as const,
+        quantity: t.quantity,
+        price: t.executed_price as number,
+        fees: t.fees || 0,
+        executed_at: t.executed_at,
+        lot_ids: t.closes_order_ids
+      }));
+  }
+
+  /**
+   * Replay fills in time order and pair them into closed lots
+   */
+  buildLedger(fills: LedgerFill[]): LedgerResult {
+    const ordered = [...fills].sort((a, b) => a.executed_at.localeCompare(b.executed_at));
+    const openBySymbol = new Map<string, OpenLot[]>();
+    const closedLots: ClosedLot[] = [];
+
+    for (const fill of ordered) {
+      const open = openBySymbol.get(fill.symbol) || [];
+      const closingSide = fill.side === 'buy' ? 'short' : 'long';
+      let remaining = fill.quantity;
+
+      for (const lot of this.orderLotsForMatching(open, fill, closingSide)) {
+        if (remaining <= 0) break;
+
+        const quantity = Math.min(remaining, lot.remaining_quantity);
+        closedLots.push(this.closeLot(lot, fill, quantity));
+        remaining -= quantity;
+      }
+
+      const stillOpen = open.filter(lot => lot.remaining_quantity > 0);
+
+      // Whatever did not close an opposite lot opens a new one
+      if (remaining > 0) {
+        stillOpen.push({
+          lot_id: fill.id,
+          symbol: fill.symbol,
+          side: fill.side === 'buy' ? 'long' : 'short',
+          quantity: remaining,
+          remaining_quantity: remaining,
+          entry_price: fill.price,
+          entry_fees: fill.fees * (remaining / fill.quantity),
+          opened_at: fill.executed_at
+        });
+      }
+
+      openBySymbol.set(fill.symbol, stillOpen);
+    }
+
+    return {
+      closed_lots: closedLots,
+      open_lots: Array.from(openBySymbol.values()).flat()
+    };
+  }
+
+  /**
+   * Build the ledger straight from stored trade rows
+   */
+  buildFromTradeRecords(trades: TradeRecord[]): LedgerResult {
+    const ledger = this.buildLedger(this.fillsFromTradeRecords(trades));
+    this.logger.log('ANALYSIS',
+      `📒 Ledger (${this.method}): ${ledger.closed_lots.length} closed lots, ${ledger.open_lots.length} open lots`
+    );
+    return ledger;
+  }
+
+  /**
+   * Aggregate closed lots into performance figures
+   */
+  summarize(closedLots: ClosedLot[]): LedgerSummary {
+    if (closedLots.length === 0) {
+      return {
+        closed_lot_count: 0,
+        win_rate: 0,
+        avg_return: 0,
+        total_return: 0,
+        realized_pnl: 0,
+        total_fees: 0,
+        avg_holding_period_days: 0,
+        best_lot: null,
+        worst_lot: null
+      };
+    }
+
+    const wins = closedLots.filter(lot => lot.realized_pnl > 0);
+    const totalReturn = closedLots.reduce((sum, lot) => sum + lot.return_pct, 0);
+
+    return {
+      closed_lot_count: closedLots.length,
+      win_rate: wins.length / closedLots.length,
+      avg_return: totalReturn / closedLots.length,
+      total_return: totalReturn,
+      realized_pnl: closedLots.reduce((sum, lot) => sum + lot.realized_pnl, 0),
+      total_fees: closedLots.reduce((sum, lot) => sum + lot.fees, 0),
+      avg_holding_period_days: closedLots.reduce((sum, lot) => sum + lot.holding_period_days, 0) / closedLots.length,
+      best_lot: closedLots.reduce((best, lot) => lot.return_pct > best.return_pct ? lot : best),
+      worst_lot: closedLots.reduce((worst, lot) => lot.return_pct < worst.return_pct ? lot : worst)
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Opposite-side lots in the order this fill should consume them
+   */
+  private orderLotsForMatching(open: OpenLot[], fill: LedgerFill, closingSide: 'long' | 'short'): OpenLot[] {
+    const candidates = open.filter(lot => lot.side === closingSide && lot.remaining_quantity > 0);
+    const byAge = [...candidates].sort((a, b) => a.opened_at.localeCompare(b.opened_at));
+
+    if (this.method === 'LIFO') {
+      return byAge.reverse();
+    }
+
+    if (this.method === 'SPECIFIC' && fill.lot_ids?.length) {
+      // Named lots first, in the order given; any remainder falls back to FIFO
+      const named = fill.lot_ids
+        .map(id => candidates.find(lot => lot.lot_id === id))
+        .filter((lot): lot is OpenLot => !!lot);
+      return [...named, ...byAge.filter(lot => !named.includes(lot))];
+    }
+
+    return byAge;
+  }
+
+  private closeLot(lot: OpenLot, fill: LedgerFill, quantity: number): ClosedLot {
+    // Allocate entry and exit fees pro rata to the quantity being closed
+    const entryFees = lot.entry_fees * (quantity / lot.remaining_quantity);
+    const exitFees = fill.fees * (quantity / fill.quantity);
+    const fees = entryFees + exitFees;
+
+    const direction = lot.side === 'long' ? 1 : -1;
+    const grossPnl = (fill.price - lot.entry_price) * quantity * direction;
+    const realizedPnl = grossPnl - fees;
+    const costBasis = lot.entry_price * quantity;
+
+    lot.entry_fees -= entryFees;
+    lot.remaining_quantity -= quantity;
+
+    return {
+      lot_id: lot.lot_id,
+      exit_fill_id: fill.id,
+      symbol: lot.symbol,
+      side: lot.side,
+      quantity,
+      entry_price: lot.entry_price,
+      exit_price: fill.price,
+      opened_at: lot.opened_at,
+      closed_at: fill.executed_at,
+      holding_period_days: Math.max(0, new Date(fill.executed_at).getTime() - new Date(lot.opened_at).getTime()) / MS_PER_DAY,
+      fees,
+      realized_pnl: realizedPnl,
+      return_pct: costBasis > 0 ? realizedPnl / costBasis : 0
+    };
+  }
+}
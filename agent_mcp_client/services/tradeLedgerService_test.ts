@@ -0,0 +1,139 @@
+/**
+ * Trade ledger lot matching: FIFO / LIFO / specific lots, shorts, partial closes and fee allocation
+ */
+
+import { assertAlmostEquals, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { LedgerFill, TradingLogger } from '../types/interfaces.ts';
+import { TradeLedgerService } from './tradeLedgerService.ts';
+
+const logger: TradingLogger = { log: () => {} };
+
+function fill(id: string, side: 'buy' | 'sell', quantity: number, price: number, day: number, fees = 0, lotIds?: string[]): LedgerFill {
+  return {
+    id,
+    symbol: 'AAPL',
+    side,
+    quantity,
+    price,
+    fees,
+    executed_at: `2026-10-${String(day).padStart(2, '0')}T14:00:00.000Z`,
+    lot_ids: lotIds
+  };
+}
+
+// Two long lots at different prices, then a sale that closes one of them
+const TWO_LOTS = [fill('buy-1', 'buy', 10, 100, 1), fill('buy-2', 'buy', 10, 110, 2), fill('sell-1', 'sell', 10, 120, 5)];
+
+Deno.test("FIFO closes the oldest lot first", () => {
+  const ledger = new TradeLedgerService(logger, 'FIFO').buildLedger(TWO_LOTS);
+
+  assertEquals(ledger.closed_lots.map(lot => [lot.lot_id, lot.quantity]), [['buy-1', 10]]);
+  assertEquals(ledger.closed_lots[0].realized_pnl, 200);
+  assertEquals(ledger.closed_lots[0].return_pct, 0.2);
+  assertEquals(ledger.closed_lots[0].holding_period_days, 4);
+  assertEquals(ledger.open_lots.map(lot => [lot.lot_id, lot.remaining_quantity]), [['buy-2', 10]]);
+});
+
+Deno.test("LIFO closes the newest lot first", () => {
+  const ledger = new TradeLedgerService(logger, 'LIFO').buildLedger(TWO_LOTS);
+
+  assertEquals(ledger.closed_lots.map(lot => [lot.lot_id, lot.quantity]), [['buy-2', 10]]);
+  assertEquals(ledger.closed_lots[0].realized_pnl, 100);
+  assertEquals(ledger.open_lots.map(lot => lot.lot_id), ['buy-1']);
+});
+
+Deno.test("SPECIFIC closes the named lots and falls back to FIFO for the rest", () => {
+  const service = new TradeLedgerService(logger, 'SPECIFIC');
+  const fills = [
+    fill('buy-1', 'buy', 10, 100, 1),
+    fill('buy-2', 'buy', 10, 110, 2),
+    fill('buy-3', 'buy', 10, 105, 3),
+    fill('sell-1', 'sell', 15, 120, 5, 0, ['buy-3'])
+  ];
+
+  const ledger = service.buildLedger(fills);
+  assertEquals(ledger.closed_lots.map(lot => [lot.lot_id, lot.quantity]), [['buy-3', 10], ['buy-1', 5]]);
+  assertEquals(ledger.open_lots.map(lot => [lot.lot_id, lot.remaining_quantity]), [['buy-1', 5], ['buy-2', 10]]);
+
+  // Without lot IDs SPECIFIC behaves like FIFO
+  const unnamed = service.buildLedger(TWO_LOTS);
+  assertEquals(unnamed.closed_lots.map(lot => lot.lot_id), ['buy-1']);
+});
+
+Deno.test("a sell with no long lot opens a short that a later buy covers", () => {
+  const ledger = new TradeLedgerService(logger, 'FIFO').buildLedger([
+    fill('short-1', 'sell', 10, 50, 1),
+    fill('cover-1', 'buy', 10, 45, 3)
+  ]);
+
+  assertEquals(ledger.open_lots, []);
+  assertEquals(ledger.closed_lots.length, 1);
+  assertEquals(ledger.closed_lots[0].side, 'short');
+  assertEquals(ledger.closed_lots[0].realized_pnl, 50);
+  assertEquals(ledger.closed_lots[0].return_pct, 0.1);
+});
+
+Deno.test("a fill larger than the open lots closes them and opens the remainder on the other side", () => {
+  const ledger = new TradeLedgerService(logger, 'FIFO').buildLedger([
+    fill('buy-1', 'buy', 10, 100, 1, 2),
+    fill('sell-1', 'sell', 15, 90, 2, 3)
+  ]);
+
+  assertEquals(ledger.closed_lots.map(lot => [lot.lot_id, lot.side, lot.quantity]), [['buy-1', 'long', 10]]);
+  assertEquals(ledger.open_lots.length, 1);
+  assertEquals(ledger.open_lots[0].side, 'short');
+  assertEquals(ledger.open_lots[0].remaining_quantity, 5);
+  // The new lot carries the unused third of the sell's fees
+  assertAlmostEquals(ledger.open_lots[0].entry_fees, 1);
+});
+
+Deno.test("partial closes split entry and exit fees pro rata", () => {
+  const ledger = new TradeLedgerService(logger, 'FIFO').buildLedger([
+    fill('buy-1', 'buy', 100, 10, 1, 4),
+    fill('sell-1', 'sell', 25, 12, 2, 1),
+    fill('sell-2', 'sell', 75, 11, 3, 3)
+  ]);
+
+  const [first, second] = ledger.closed_lots;
+  assertEquals([first.quantity, second.quantity], [25, 75]);
+  assertAlmostEquals(first.fees, 1 + 1);
+  assertAlmostEquals(first.realized_pnl, 25 * 2 - 2);
+  assertAlmostEquals(second.fees, 3 + 3);
+  assertAlmostEquals(second.realized_pnl, 75 * 1 - 6);
+  assertEquals(ledger.open_lots, []);
+
+  const summary = new TradeLedgerService(logger).summarize(ledger.closed_lots);
+  assertAlmostEquals(summary.total_fees, 8);
+  assertAlmostEquals(summary.realized_pnl, 48 + 69);
+  assertEquals(summary.win_rate, 1);
+});
+
+Deno.test("fills are replayed in time order and matched per symbol", () => {
+  const msft = { ...fill('msft-buy', 'buy', 5, 400, 1), symbol: 'MSFT' };
+  const ledger = new TradeLedgerService(logger, 'FIFO').buildLedger([
+    fill('sell-1', 'sell', 10, 120, 5),
+    msft,
+    fill('buy-1', 'buy', 10, 100, 1)
+  ]);
+
+  assertEquals(ledger.closed_lots.map(lot => [lot.symbol, lot.lot_id]), [['AAPL', 'buy-1']]);
+  assertEquals(ledger.open_lots.map(lot => lot.lot_id), ['msft-buy']);
+});
+
+Deno.test("fillsFromTradeRecords keeps only executed rows with a price", () => {
+  const base = {
+    symbol: 'AAPL', price_target: 100, stop_loss: 95, take_profit: 110, confidence: 0.7, reasoning: '',
+    executed_at: '2026-10-01T14:00:00.000Z', historical_win_rate: 0
+  };
+  const fills = new TradeLedgerService(logger).fillsFromTradeRecords([
+    { ...base, id: 'row-1', order_id: 'order-1', action: 'BUY', quantity: 10, executed_price: 100, fees: 1, status: 'executed' },
+    { ...base, id: 'row-2', action: 'SELL', quantity: 10, executed_price: 105, status: 'pending' },
+    { ...base, id: 'row-3', action: 'SELL', quantity: 10, status: 'executed' },
+    { ...base, id: 'row-4', action: 'SELL', quantity: 10, executed_price: 110, status: 'executed', closes_order_ids: ['order-1'] }
+  ]);
+
+  assertEquals(fills.map(f => [f.id, f.side, f.fees, f.lot_ids]), [
+    ['order-1', 'buy', 1, undefined],
+    ['row-4', 'sell', 0, ['order-1']]
+  ]);
+});
@@ -13,6 +13,11 @@ import {
   ExecutedTrade,
   Position,
   Order,
+  OrderRequest,
+  TradeExecutionResult,
+  ProtectiveOrderIds,
+  EntryExecutionStyle,
+  IEntryScheduler,
   AlpacaAccount,
   AlpacaPosition,
   AlpacaOrder,
@@ -24,11 +29,23 @@ import {
   AlpacaPositionsResponse,
   AlpacaOrdersResponse
 } from '../types/interfaces.ts';
-import { TRADING_CONFIG, isMarketHours, getNextMarketOpen } from '../config.ts';
+import { TRADING_CONFIG } from '../config.ts';
+import { buildClientOrderId } from '../utils/clientOrderId.ts';
+import { FINAL_ORDER_STATUSES } from './orderTrackerService.ts';
+import { isMarketOpen, getNextOpen, formatExchangeTime } from '../utils/marketCalendar.ts';
+import {
+  getEntryExecutionStyle,
+  entryLimitPrice,
+  entryCancelDeadline,
+  twapSliceQuantities,
+  twapSliceTimes,
+  scheduledEntry
+} from '../utils/entryExecution.ts';
 
 export class TradingService implements ITradingService {
   private alpacaClient: Client | null = null;
   private logger: TradingLogger;
+  private entryScheduler: IEntryScheduler | null = null;
 
   constructor(alpacaClient: Client | null, logger: TradingLogger) {
     this.alpacaClient = alpacaClient;
@@ -42,6 +59,10 @@ export class TradingService implements ITradingService {
     this.alpacaClient = client;
   }
 
+  setEntryScheduler(scheduler: IEntryScheduler): void {
+    this.entryScheduler = scheduler;
+  }
+
   /**
    * Execute trades using Alpaca
    */
@@ -58,13 +79,16 @@ export class TradingService implements ITradingService {
     }
 
     // Check market hours
-    if (!isMarketHours()) {
-      const nextOpen = getNextMarketOpen();
-      this.logger.log('ALERT', `Market is closed. Next open: ${nextOpen.toLocaleString()}`);
+    if (!isMarketOpen()) {
+      this.logger.log('ALERT', `Market is closed. Next open: ${formatExchangeTime(getNextOpen())}`);
       return [];
     }
 
     const executedTrades = [];
+    const style = getEntryExecutionStyle();
+    if (style !== 'market') {
+      this.logger.log('TRADE', `Entry execution style: ${style}`);
+    }
 
     for (const trade of tradePlan.trades) {
       try {
@@ -83,40 +107,18 @@ export class TradingService implements ITradingService {
           continue;
         }
 
-        // Execute trade via Alpaca MCP
-        const tradeResult = await this.alpacaClient.callTool({
-          name: 'place_order',
-          arguments: {
-            symbol: trade.symbol,
-            side: trade.action.toLowerCase(),
-            type: 'market',
-            qty: quantity,
-            time_in_force: 'day'
-          }
-        });
-
-        // Parse the trade result
-        const parsedResult = this.parseTradeResult(tradeResult);
-
-        // Set stop loss and take profit orders if main order was successful
-        if (parsedResult.success && parsedResult.orderId) {
-          await this.setStopLossAndTakeProfit(trade, parsedResult.orderId);
+        if (style === 'twap') {
+          executedTrades.push(...await this.placeTwapEntry(trade, quantity, tradePlan.id));
+          continue;
         }
 
-        // Create executed trade record
-        const executedTrade: ExecutedTrade = {
-          ...trade,
-          executed_quantity: quantity,
-          execution_result: parsedResult,
-          executed_at: new Date().toISOString(),
-          order_id: parsedResult.orderId,
-          filled_avg_price: parsedResult.filledPrice,
-          status: parsedResult.success ? 'executed' as const : 'failed' as const
-        };
-
+        // Execute trade via Alpaca MCP; a re-run of the plan finds the entry it already placed
+        const clientOrderId = buildClientOrderId(tradePlan.id, trade.symbol, 'entry');
+        const executedTrade = await this.placeEntry(trade, quantity, style, clientOrderId, tradePlan.id);
         executedTrades.push(executedTrade);
 
-        this.logger.log('TRADE', `${parsedResult.success ? 'Executed' : 'Failed'} ${trade.action} ${quantity} ${trade.symbol} ${parsedResult.success ? `at $${parsedResult.filledPrice || trade.price_target}` : ''}`);
+        const parsedResult = executedTrade.execution_result;
+        this.logger.log('TRADE', `${parsedResult.success ? 'Submitted' : 'Failed'} ${trade.action} ${quantity} ${trade.symbol}${parsedResult.success ? ` (${executedTrade.executed_quantity} filled so far)` : ''}`);
         
         // Wait between trades to avoid rate limits
         await this.delay(TRADING_CONFIG.REQUEST_DELAY_MS);
@@ -136,51 +138,102 @@ export class TradingService implements ITradingService {
       }
     }
 
-    this.logger.log('STATUS', `Executed ${executedTrades.filter(t => t.status === 'executed').length} out of ${tradePlan.trades.length} planned trades`);
+    this.logger.log('STATUS', `Submitted ${executedTrades.filter(t => t.status !== 'failed').length} out of ${tradePlan.trades.length} planned trades`);
     return executedTrades;
   }
 
   /**
-   * Set stop loss and take profit orders
+   * Place a single order (used for exits outside of a trade plan)
+   */
+  async placeOrder(order: OrderRequest): Promise<TradeExecutionResult> {
+    if (!this.alpacaClient) {
+      throw new Error('Alpaca client not available');
+    }
+
+    try {
+      const parsedResult = await this.placeIdempotentOrder({
+        symbol: order.symbol,
+        side: order.side,
+        type: order.order_type,
+        qty: order.quantity,
+        ...(order.order_type === 'limit' && order.price ? { limit_price: order.price } : {}),
+        ...(order.order_type === 'stop' && order.price ? { stop_price: order.price } : {}),
+        time_in_force: order.time_in_force || 'day'
+      }, order.client_order_id);
+      this.logger.log('TRADE', 
+        `${parsedResult.success ? 'Placed' : 'Failed to place'} ${order.order_type} ${order.side} ${order.quantity} ${order.symbol}` +
+        `${order.price ? ` @ $${order.price.toFixed(2)}` : ''}`
+      );
+      return parsedResult;
+
+    } catch (error) {
+      this.logger.log('ALERT', `Failed to place order for ${order.symbol}: ${error}`);
+      return { success: false, error: String(error) };
+    }
+  }
+
+  /**
+   * Set stop loss and take profit orders; returns their order IDs so exits can release them first
    */
-  async setStopLossAndTakeProfit(trade: TradeDecision, orderId: string): Promise<void> {
+  async setStopLossAndTakeProfit(trade: TradeDecision, orderId: string, tradePlanId?: string): Promise<ProtectiveOrderIds | undefined> {
     if (!this.alpacaClient) {
       this.logger.log('ALERT', 'Cannot set stop/profit orders - Alpaca client not available');
-      return;
+      return undefined;
     }
 
+    // Without a plan the entry order ID keys the protective legs
+    const planKey = tradePlanId || `order-${orderId}`;
+    const orderIds: ProtectiveOrderIds = {};
+
     try {
       // Set stop loss order
-      const stopLossResult = await this.alpacaClient.callTool({
-        name: 'place_order',
-        arguments: {
-          symbol: trade.symbol,
-          side: trade.action === 'BUY' ? 'sell' : 'buy',
-          type: 'stop',
-          qty: trade.quantity,
-          stop_price: trade.stop_loss,
-          time_in_force: 'gtc'
-        }
-      });
+      const stopLoss = await this.placeIdempotentOrder({
+        symbol: trade.symbol,
+        side: trade.action === 'BUY' ? 'sell' : 'buy',
+        type: 'stop',
+        qty: trade.quantity,
+        stop_price: trade.stop_loss,
+        time_in_force: 'gtc'
+      }, buildClientOrderId(planKey, trade.symbol, 'stop_loss'));
+      if (stopLoss.success) orderIds.stop_loss = stopLoss.orderId;
 
       // Set take profit order
-      const takeProfitResult = await this.alpacaClient.callTool({
-        name: 'place_order',
-        arguments: {
-          symbol: trade.symbol,
-          side: trade.action === 'BUY' ? 'sell' : 'buy',
-          type: 'limit',
-          qty: trade.quantity,
-          limit_price: trade.take_profit,
-          time_in_force: 'gtc'
-        }
-      });
+      const takeProfit = await this.placeIdempotentOrder({
+        symbol: trade.symbol,
+        side: trade.action === 'BUY' ? 'sell' : 'buy',
+        type: 'limit',
+        qty: trade.quantity,
+        limit_price: trade.take_profit,
+        time_in_force: 'gtc'
+      }, buildClientOrderId(planKey, trade.symbol, 'take_profit'));
+      if (takeProfit.success) orderIds.take_profit = takeProfit.orderId;
 
       this.logger.log('STATUS', `Set stop loss and take profit orders for ${trade.symbol}`);
       
     } catch (error) {
       this.logger.log('ALERT', `Failed to set stop/profit orders for ${trade.symbol}: ${error}`);
     }
+
+    return orderIds;
+  }
+
+  /**
+   * Find an order by its client_order_id, or null when the broker has none
+   */
+  async findOrderByClientOrderId(clientOrderId: string): Promise<AlpacaOrder | null> {
+    if (!this.alpacaClient) {
+      return null;
+    }
+
+    const result = await this.alpacaClient.callTool({
+      name: 'get_orders',
+      arguments: {
+        status: 'all',
+        limit: TRADING_CONFIG.CLIENT_ORDER_LOOKUP_LIMIT
+      }
+    });
+
+    return this.extractAlpacaOrders(result).find(order => order.client_order_id === clientOrderId) || null;
   }
 
   /**
@@ -388,14 +441,14 @@ export class TradingService implements ITradingService {
    * Wait for market open
    */
   async waitForMarketOpen(): Promise<void> {
-    if (isMarketHours()) {
+    if (isMarketOpen()) {
       return;
     }
 
-    const nextOpen = getNextMarketOpen();
+    const nextOpen = getNextOpen();
     const waitTime = nextOpen.getTime() - new Date().getTime();
     
-    this.logger.log('STATUS', `Waiting ${Math.round(waitTime / 60000)} minutes for market open at ${nextOpen.toLocaleString()}`);
+    this.logger.log('STATUS', `Waiting ${Math.round(waitTime / 60000)} minutes for market open at ${formatExchangeTime(nextOpen)}`);
     
     // For long waits (more than 1 hour), just log and return
     if (waitTime > 3600000) {
@@ -409,6 +462,165 @@ export class TradingService implements ITradingService {
 
   // Private helper methods
 
+  /**
+   * Submit one entry in the given style. Protective legs go in once the broker reports the entry filled;
+   * a resting limit entry is left to the position monitor and reconciliation instead.
+   */
+  private async placeEntry(
+    trade: TradeDecision,
+    quantity: number,
+    style: EntryExecutionStyle,
+    clientOrderId: string,
+    tradePlanId: string
+  ): Promise<ExecutedTrade> {
+    const pricing = style === 'market'
+      ? { type: 'market' }
+      : { type: 'limit', limit_price: entryLimitPrice(style, trade, style === 'limit' ? {} : await this.getMarketData(trade.symbol)) };
+
+    const parsedResult = await this.placeIdempotentOrder({
+      symbol: trade.symbol,
+      side: trade.action.toLowerCase(),
+      ...pricing,
+      qty: quantity,
+      time_in_force: 'day'
+    }, clientOrderId);
+
+    // The place_order reply can carry the limit price, so only the broker's order says whether it filled
+    const order = parsedResult.success && parsedResult.orderId
+      ? await this.awaitEntryOrder(parsedResult.orderId, style === 'market' ? TRADING_CONFIG.ENTRY_FILL_CHECKS : 1)
+      : null;
+    const filledQuantity = Number(order?.filled_qty) || 0;
+    const filledAvgPrice = order?.filled_avg_price ? Number(order.filled_avg_price) : undefined;
+
+    const childOrderIds = order?.status === 'filled' && filledQuantity > 0
+      ? await this.setStopLossAndTakeProfit({ ...trade, quantity: filledQuantity }, order.id, tradePlanId)
+      : undefined;
+
+    // Stored as pending whatever the reply said; the order tracker writes the broker's fill
+
+    return {
+      ...trade,
+      quantity,
+      executed_quantity: filledQuantity,
+      execution_result: { ...parsedResult, filledPrice: filledAvgPrice },
+      executed_at: new Date().toISOString(),
+      order_id: parsedResult.orderId,
+      client_order_id: clientOrderId,
+      filled_avg_price: filledAvgPrice,
+      status: parsedResult.success ? 'pending' as const : 'failed' as const,
+      child_order_ids: childOrderIds,
+      execution_style: style,
+      ...(style !== 'market' ? { cancel_at: entryCancelDeadline(style) } : {})
+    };
+  }
+
+  /**
+   * Read an entry back from the broker, checking up to `checks` times for a final state
+   */
+  private async awaitEntryOrder(orderId: string, checks: number): Promise<AlpacaOrder | null> {
+    let order: AlpacaOrder | null = null;
+    for (let i = 0; i < checks; i++) {
+      if (i > 0) await this.delay(TRADING_CONFIG.REQUEST_DELAY_MS);
+      order = await this.getOrderStatus(orderId);
+      if (order?.status && FINAL_ORDER_STATUSES.includes(order.status)) break;
+    }
+    return order;
+  }
+
+  /**
+   * Spread an entry over TWAP_WINDOW_MINUTES as marketable-limit slices, one trade per slice.
+   * The first slice goes out now and the entry scheduler sends the rest, so the workflow does not wait;
+   * a failed slice does not stop the rest
+   */
+  private async placeTwapEntry(trade: TradeDecision, quantity: number, tradePlanId: string): Promise<ExecutedTrade[]> {
+    if (!this.entryScheduler) {
+      throw new Error('TWAP entries need an entry scheduler');
+    }
+
+    const slices = twapSliceQuantities(quantity);
+    const times = twapSliceTimes(slices.length);
+    const interval = times.length > 1 ? times[1].getTime() - times[0].getTime() : 0;
+    const cancelAt = entryCancelDeadline('twap');
+    const sliceTrades: ExecutedTrade[] = [];
+
+    this.logger.log('TRADE', `⏳ TWAP ${trade.action} ${quantity} ${trade.symbol} in ${slices.length} slices every ${Math.round(interval / 60000)} min`);
+
+    for (const [i, sliceQuantity] of slices.entries()) {
+      const clientOrderId = buildClientOrderId(tradePlanId, trade.symbol, `entry-twap-${i + 1}`);
+      const submit = async (): Promise<ExecutedTrade[]> => {
+        try {
+          const sliceTrade = await this.placeEntry({ ...trade, quantity: sliceQuantity }, sliceQuantity, 'marketable_limit', clientOrderId, tradePlanId);
+          return [{ ...sliceTrade, execution_style: 'twap', cancel_at: cancelAt }];
+        } catch (error) {
+          // Earlier slices are already at the broker, so the failure is recorded per slice
+          this.logger.log('ALERT', `TWAP slice ${i + 1}/${slices.length} for ${trade.symbol} failed: ${error}`);
+          return [{
+            ...trade,
+            quantity: sliceQuantity,
+            executed_quantity: 0,
+            execution_result: { success: false, error: String(error) },
+            executed_at: new Date().toISOString(),
+            status: 'failed',
+            execution_style: 'twap'
+          }];
+        }
+      };
+
+      if (times[i].getTime() > Date.now()) {
+        this.entryScheduler.schedule(times[i], tradePlanId, `TWAP slice ${i + 1}/${slices.length} for ${trade.symbol}`, submit);
+        sliceTrades.push(scheduledEntry({ ...trade, quantity: sliceQuantity }, clientOrderId, 'twap', cancelAt, times[i]));
+        continue;
+      }
+
+      sliceTrades.push(...await submit());
+    }
+
+    return sliceTrades;
+  }
+
+  /**
+   * Submit place_order once per client_order_id: an order the broker already holds under
+   * the ID (from an earlier run or a timed-out call) is returned instead of placed again
+   */
+  private async placeIdempotentOrder(args: Record<string, unknown>, clientOrderId?: string): Promise<TradeExecutionResult> {
+    if (!this.alpacaClient) {
+      throw new Error('Alpaca client not available');
+    }
+
+    if (clientOrderId) {
+      try {
+        const existing = await this.findOrderByClientOrderId(clientOrderId);
+        if (existing) {
+          this.logger.log('TRADE', `♻️ ${args.symbol} order ${clientOrderId} already at broker (${existing.status}) - not resubmitting`);
+          return this.toExecutionResult(existing);
+        }
+      } catch (error) {
+        // Alpaca still rejects a duplicate client_order_id, so submitting stays safe
+        this.logger.log('ALERT', `Order lookup for ${clientOrderId} failed, submitting: ${error}`);
+      }
+    }
+
+    const result = await this.alpacaClient.callTool({
+      name: 'place_order',
+      arguments: {
+        ...args,
+        ...(clientOrderId ? { client_order_id: clientOrderId } : {})
+      }
+    });
+
+    return this.parseTradeResult(result);
+  }
+
+  private toExecutionResult(order: AlpacaOrder): TradeExecutionResult {
+    const failed = order.status === 'rejected' || order.status === 'canceled' || order.status === 'expired';
+    return {
+      success: !failed,
+      orderId: order.id,
+      filledPrice: order.filled_avg_price ? Number(order.filled_avg_price) : undefined,
+      ...(failed ? { error: `Existing order ${order.status}` } : {})
+    };
+  }
+
   private validateTrade(trade: TradeDecision, accountBalance: number): boolean {
     // Check minimum confidence threshold
     if (trade.confidence < TRADING_CONFIG.MIN_CONFIDENCE_THRESHOLD) {
@@ -552,17 +764,30 @@ export class TradingService implements ITradingService {
   }
 
   private parseOrdersResult(result: MCPResponse): Order[] {
+    return this.convertAlpacaOrdersToOrders(this.extractAlpacaOrders(result));
+  }
+
+  private extractAlpacaOrders(result: MCPResponse): AlpacaOrder[] {
     // Extract orders data from various result formats
     if (Array.isArray(result)) {
-      return this.convertAlpacaOrdersToOrders(result as AlpacaOrder[]);
+      return result as AlpacaOrder[];
     }
     if (result && typeof result === 'object') {
       const ordersResult = result as AlpacaOrdersResponse;
       if (ordersResult.orders && Array.isArray(ordersResult.orders)) {
-        return this.convertAlpacaOrdersToOrders(ordersResult.orders);
+        return ordersResult.orders;
       }
       if (ordersResult.data && Array.isArray(ordersResult.data)) {
-        return this.convertAlpacaOrdersToOrders(ordersResult.data);
+        return ordersResult.data;
+      }
+      // MCP tools may return the orders as JSON text
+      if (result.content && Array.isArray(result.content)) {
+        try {
+          const parsed = JSON.parse(this.extractTextFromMCPContent(result.content));
+          return parsed && typeof parsed === 'object' ? this.extractAlpacaOrders(parsed) : [];
+        } catch {
+          return [];
+        }
       }
     }
     return [];
@@ -663,7 +888,8 @@ export class TradingService implements ITradingService {
       status: this.mapAlpacaOrderStatus(order.status),
       time_in_force: order.time_in_force,
       created_at: order.created_at,
-      updated_at: order.updated_at
+      updated_at: order.updated_at,
+      client_order_id: order.client_order_id
     }));
   }
 
@@ -0,0 +1,181 @@
+/**
+ * Universe Service - Builds the day's candidate watchlist before trade planning
+ * Stages:
+ * - Candidate selection: include list, then tickers ranked by alt-data signal strength
+ * - Filters: exclude list, signal strength, price range, dollar volume and tradability
+ * - A bounded, ranked watchlist handed to the AI and stored with the plan
+ */
+
+import {
+  TradingLogger,
+  MarketDataResponse,
+  WatchlistEntry,
+  UniverseRejection,
+  TickerSignalScores
+} from '../types/interfaces.ts';
+import { UNIVERSE_CONFIG, PRICE_DATA_CONFIG } from '../config.ts';
+import { PriceDataService } from './priceDataService.ts';
+import { AIResponseValidator } from './aiResponseValidator.ts';
+import { AltDataSignalService } from './altDataSignalService.ts';
+
+export interface UniverseResult {
+  watchlist: WatchlistEntry[];
+  rejected: UniverseRejection[];
+}
+
+export class UniverseService {
+  private logger: TradingLogger;
+  private priceDataService: PriceDataService;
+
+  constructor(logger: TradingLogger, priceDataService: PriceDataService) {
+    this.logger = logger;
+    this.priceDataService = priceDataService;
+  }
+
+  /**
+   * Symbols worth fetching price data for: the include list first, then the strongest
+   * alt-data signals, then any other ticker found in the collected data
+   */
+  selectCandidates(marketData: MarketDataResponse, limit: number = PRICE_DATA_CONFIG.MAX_CANDIDATE_SYMBOLS): string[] {
+    const excluded = new Set(UNIVERSE_CONFIG.EXCLUDE_SYMBOLS);
+    const signalScores = marketData.signal_scores || {};
+
+    const ordered = [
+      ...UNIVERSE_CONFIG.INCLUDE_SYMBOLS,
+      ...AltDataSignalService.topTickers(signalScores, Object.keys(signalScores).length),
+      ...AIResponseValidator.symbolsFromMarketData(marketData)
+    ];
+
+    return [...new Set(ordered.map(symbol => symbol.toUpperCase()))]
+      .filter(symbol => !excluded.has(symbol))
+      .slice(0, limit);
+  }
+
+  /**
+   * Filter and rank the candidates into a bounded watchlist
+   */
+  async buildWatchlist(marketData: MarketDataResponse, candidates: string[]): Promise<UniverseResult> {
+    const included = new Set(UNIVERSE_CONFIG.INCLUDE_SYMBOLS);
+    const excluded = new Set(UNIVERSE_CONFIG.EXCLUDE_SYMBOLS);
+    const signalScores = marketData.signal_scores || {};
+    const rejected: UniverseRejection[] = [];
+    const eligible: WatchlistEntry[] = [];
+
+    for (const symbol of candidates) {
+      if (excluded.has(symbol)) {
+        rejected.push({ symbol, reason: 'exclude list' });
+        continue;
+      }
+
+      const entry = this.buildEntry(symbol, marketData, signalScores[symbol], included.has(symbol));
+      const reason = entry.included ? null : this.screen(entry);
+      if (reason) {
+        rejected.push({ symbol, reason });
+      } else {
+        eligible.push(entry);
+      }
+    }
+
+    if (UNIVERSE_CONFIG.REQUIRE_TRADABLE && eligible.length > 0) {
+      const assets = await this.priceDataService.getAssets(eligible.map(entry => entry.symbol));
+      for (const entry of [...eligible]) {
+        const asset = assets.get(entry.symbol);
+        if (asset && (!asset.tradable || asset.status !== 'active')) {
+          eligible.splice(eligible.indexOf(entry), 1);
+          rejected.push({ symbol: entry.symbol, reason: `not tradable (${asset.status})` });
+        }
+      }
+    }
+
+    // Included symbols keep their slots; everything else competes on signal strength
+    const watchlist = eligible
+      .sort((a, b) =>
+        Number(b.included) - Number(a.included) ||
+        Math.abs(b.signal_score ?? 0) - Math.abs(a.signal_score ?? 0) ||
+        (b.avg_dollar_volume ?? 0) - (a.avg_dollar_volume ?? 0)
+      )
+      .slice(0, UNIVERSE_CONFIG.MAX_WATCHLIST_SIZE)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }));
+
+    this.logger.log('ANALYSIS',
+      `🔭 Universe: ${watchlist.length} of ${candidates.length} candidates on the watchlist` +
+      (watchlist.length > 0 ? ` (${watchlist.map(entry => entry.symbol).join(', ')})` : '') +
+      (rejected.length > 0 ? ` - ${rejected.length} filtered` : '')
+    );
+
+    return { watchlist, rejected };
+  }
+
+  // Private helper methods
+
+  private buildEntry(
+    symbol: string,
+    marketData: MarketDataResponse,
+    signal: TickerSignalScores | undefined,
+    included: boolean
+  ): WatchlistEntry {
+    const priceData = marketData.price_data?.[symbol];
+    const bars = priceData?.bars.slice(-PRICE_DATA_CONFIG.LOOKBACK_BARS) || [];
+    const lastClose = bars.length > 0 ? bars[bars.length - 1].close : null;
+
+    const reasons: string[] = [];
+    if (included) reasons.push('include list');
+    if (signal) {
+      const labels: Record<string, string> = { congress: 'congress', insider: 'insider', institutional: '13F', dark_pool: 'dark pool' };
+      for (const [name, score] of Object.entries(signal.scores)) {
+        if (Math.abs(score) >= UNIVERSE_CONFIG.MIN_SIGNAL_STRENGTH) {
+          reasons.push(`${labels[name] || name} ${score >= 0 ? '+' : ''}${score.toFixed(2)}`);
+        }
+      }
+      if ((signal.insider_cluster_buyers || 0) > 1) {
+        reasons.push(`${signal.insider_cluster_buyers} insider buyers`);
+      }
+    }
+
+    return {
+      symbol,
+      rank: 0,
+      signal_score: signal ? signal.composite : null,
+      price: priceData?.quote?.last || lastClose,
+      avg_dollar_volume: bars.length > 0
+        ? bars.reduce((sum, bar) => sum + bar.close * bar.volume, 0) / bars.length
+        : null,
+      included,
+      reasons
+    };
+  }
+
+  /**
+   * Reason the entry fails the signal, price or liquidity filters, or null when it passes
+   */
+  private screen(entry: WatchlistEntry): string | null {
+    if (entry.signal_score !== null && Math.abs(entry.signal_score) < UNIVERSE_CONFIG.MIN_SIGNAL_STRENGTH) {
+      return `weak signal (${entry.signal_score.toFixed(2)})`;
+    }
+    if (entry.price === null || entry.avg_dollar_volume === null) {
+      return 'no price data';
+    }
+    if (entry.price < UNIVERSE_CONFIG.MIN_PRICE || entry.price > UNIVERSE_CONFIG.MAX_PRICE) {
+      return `price $${entry.price.toFixed(2)} outside $${UNIVERSE_CONFIG.MIN_PRICE}-$${UNIVERSE_CONFIG.MAX_PRICE}`;
+    }
+    if (entry.avg_dollar_volume < UNIVERSE_CONFIG.MIN_AVG_DOLLAR_VOLUME) {
+      return `illiquid ($${Math.round(entry.avg_dollar_volume).toLocaleString('en-US')}/day)`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Compact ranked watchlist for AI prompts
+ */
+export function formatWatchlist(watchlist: WatchlistEntry[]): string {
+  return watchlist
+    .map(entry => {
+      const score = entry.signal_score === null ? 'n/a' : `${entry.signal_score >= 0 ? '+' : ''}${entry.signal_score.toFixed(2)}`;
+      const price = entry.price === null ? 'n/a' : `$${entry.price.toFixed(2)}`;
+      const volume = entry.avg_dollar_volume === null ? 'n/a' : `$${(entry.avg_dollar_volume / 1_000_000).toFixed(1)}M/day`;
+      return `${entry.rank}. ${entry.symbol} - signal ${score}, ${price}, ${volume}` +
+        (entry.reasons.length > 0 ? ` - ${entry.reasons.join(', ')}` : '');
+    })
+    .join('\n');
+}
@@ -0,0 +1,42 @@
+-- =====================================================
+-- Ada Analytics Trading System - AI Response Validation
+-- Records Claude responses that failed schema validation
+-- so prompt quality can be measured over time
+-- =====================================================
+
+-- =====================================================
+-- 1. AI VALIDATION FAILURES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS ai_validation_failures (
+  id TEXT PRIMARY KEY,
+  response_type TEXT NOT NULL CHECK (response_type IN ('predictions', 'performance_analysis', 'adjustment')),
+  attempt INTEGER NOT NULL DEFAULT 1, -- 1 = first response, 2 = retry with errors fed back
+  errors JSONB NOT NULL DEFAULT '[]',
+  repairs JSONB NOT NULL DEFAULT '[]',
+  raw_response TEXT,
+  model TEXT,
+  recovered BOOLEAN NOT NULL DEFAULT false, -- The retry produced a valid response
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE ai_validation_failures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "ai_validation_failures_select_policy" ON ai_validation_failures
+  FOR SELECT USING (is_trader_or_admin());
+
+CREATE POLICY "ai_validation_failures_insert_policy" ON ai_validation_failures
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "ai_validation_failures_delete_policy" ON ai_validation_failures
+  FOR DELETE USING (is_admin());
+
+-- =====================================================
+-- 3. INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_ai_validation_failures_type ON ai_validation_failures(response_type, created_at DESC);
@@ -0,0 +1,7 @@
+-- =====================================================
+-- Ada Analytics Trading System - Circuit Breaker
+-- Persists the last breaker trip with the agent state so a
+-- restarted agent does not recount losses it already acted on
+-- =====================================================
+
+ALTER TABLE agent_state ADD COLUMN IF NOT EXISTS circuit_breaker JSONB;
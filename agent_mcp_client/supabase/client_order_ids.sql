@@ -0,0 +1,9 @@
+-- =====================================================
+-- Ada Analytics Trading System - Client Order IDs
+-- Deterministic Alpaca client_order_id (ada:<plan>:<symbol>:<leg>)
+-- so every fill traces back to the trade plan that placed it
+-- =====================================================
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS client_order_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_trades_client_order_id ON trades(client_order_id);
@@ -45,6 +45,7 @@ CREATE TABLE trades (
   filled_avg_price DECIMAL(10,4),
   status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'executed', 'cancelled', 'failed')),
   order_id TEXT,
+  closes_order_ids JSONB,               -- Entry orders an exit closes (specific-lot matching)
   confidence DECIMAL(3,2) CHECK (confidence >= 0 AND confidence <= 1),
   reasoning TEXT,
   profit_loss DECIMAL(12,4),
@@ -0,0 +1,7 @@
+-- =====================================================
+-- Ada Analytics Trading System - Entry Execution Styles
+-- Records how each entry was sent to the broker
+-- (market, limit, marketable_limit or twap)
+-- =====================================================
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS execution_style TEXT;
@@ -0,0 +1,8 @@
+-- =====================================================
+-- Ada Analytics Trading System - Order Tracking
+-- The order tracker writes the broker's final state and
+-- fill time back to the trade row placed with each order
+-- =====================================================
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS order_status TEXT;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS filled_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,52 @@
+-- =====================================================
+-- Ada Analytics Trading System - Intraday Position Monitor
+-- Stores each monitored position's exit strategy and per-level progress
+-- so a restarted monitor never fires the same exit level twice
+-- =====================================================
+
+-- =====================================================
+-- 1. EXIT STRATEGY PROGRESS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS exit_strategy_progress (
+  id TEXT PRIMARY KEY,
+  symbol TEXT NOT NULL,
+  trade_plan_id TEXT,
+  entry_order_id TEXT,
+  entry_cancel_at TIMESTAMP WITH TIME ZONE, -- Scheduled or limit-style entries stay awaited until then
+  protective_order_ids JSONB DEFAULT '[]', -- Bracket legs held at the broker
+  strategy JSONB NOT NULL,              -- EnhancedExitStrategy
+  remaining_quantity INTEGER NOT NULL DEFAULT 0 CHECK (remaining_quantity >= 0),
+  levels JSONB NOT NULL DEFAULT '[]',   -- ExitLevelProgress[]
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'closed')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Tables created before entry_cancel_at was added
+ALTER TABLE exit_strategy_progress ADD COLUMN IF NOT EXISTS entry_cancel_at TIMESTAMP WITH TIME ZONE;
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE exit_strategy_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "exit_strategy_progress_select_policy" ON exit_strategy_progress
+  FOR SELECT USING (is_trader_or_admin());
+
+CREATE POLICY "exit_strategy_progress_insert_policy" ON exit_strategy_progress
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "exit_strategy_progress_update_policy" ON exit_strategy_progress
+  FOR UPDATE USING (auth.role() = 'authenticated');
+
+CREATE POLICY "exit_strategy_progress_delete_policy" ON exit_strategy_progress
+  FOR DELETE USING (is_admin());
+
+-- =====================================================
+-- 3. INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_exit_strategy_progress_status ON exit_strategy_progress(status);
+CREATE INDEX IF NOT EXISTS idx_exit_strategy_progress_symbol ON exit_strategy_progress(symbol, created_at DESC);
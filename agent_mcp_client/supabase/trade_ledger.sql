@@ -0,0 +1,11 @@
+-- =====================================================
+-- Ada Analytics Trading System - Trade Ledger
+-- Lets exit rows name the entry orders they close so the
+-- lot-matching ledger can run specific-lot matching
+-- =====================================================
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS order_id TEXT;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS fees DECIMAL(10,4) DEFAULT 0;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS closes_order_ids JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_trades_order_id ON trades(order_id);
@@ -0,0 +1,73 @@
+-- =====================================================
+-- Ada Analytics Trading System - Enhanced Trade Metadata
+-- Stores the position sizing, breakout filter and exit strategy
+-- artifacts behind each trade so a position can be explained later
+-- =====================================================
+
+-- =====================================================
+-- 1. TRADE CONTEXT COLUMNS
+-- =====================================================
+
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS strategy TEXT;
+ALTER TABLE trades ADD COLUMN IF NOT EXISTS account_balance DECIMAL(15,2);
+
+-- =====================================================
+-- 2. TRADE METADATA TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS trade_metadata (
+  id UUID PRIMARY KEY,
+  trade_id UUID REFERENCES trades(id) ON DELETE CASCADE,
+  trade_plan_id TEXT,
+  order_id TEXT,
+  symbol TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('BUY', 'SELL')),
+  strategy TEXT,
+  account_balance DECIMAL(15,2),
+
+  -- Beta distribution position sizing
+  signal_strength DECIMAL(6,4),
+  beta_cdf_value DECIMAL(8,6),
+  position_percentage DECIMAL(8,6),
+  position_size INTEGER,
+  original_quantity INTEGER,
+  enhanced_quantity INTEGER,
+  risk_adjusted BOOLEAN DEFAULT FALSE,
+
+  -- Breakout probability filter
+  breakout_probability DECIMAL(6,4),
+  breakout_indicators JSONB,            -- BreakoutIndicators
+  breakout_reasoning TEXT,
+  filter_passed BOOLEAN DEFAULT TRUE,
+
+  -- Exit plan
+  exit_strategy JSONB NOT NULL,         -- EnhancedExitStrategy
+  stop_loss_price DECIMAL(10,4),
+  take_profit_prices JSONB,             -- Trigger price per batch exit level
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE trade_metadata ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "trade_metadata_select_policy" ON trade_metadata
+  FOR SELECT USING (is_trader_or_admin());
+
+CREATE POLICY "trade_metadata_insert_policy" ON trade_metadata
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+CREATE POLICY "trade_metadata_delete_policy" ON trade_metadata
+  FOR DELETE USING (is_admin());
+
+-- =====================================================
+-- 4. INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_trade_metadata_trade_id ON trade_metadata(trade_id);
+CREATE INDEX IF NOT EXISTS idx_trade_metadata_plan ON trade_metadata(trade_plan_id);
+CREATE INDEX IF NOT EXISTS idx_trade_metadata_symbol ON trade_metadata(symbol, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_trade_metadata_order_id ON trade_metadata(order_id);
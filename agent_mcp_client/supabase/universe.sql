@@ -0,0 +1,6 @@
+-- =====================================================
+-- Ada Analytics Trading System - Candidate Universe
+-- Stores the ranked watchlist each day's plan was drawn from
+-- =====================================================
+
+ALTER TABLE predictions ADD COLUMN IF NOT EXISTS watchlist JSONB;
@@ -24,7 +24,10 @@ try {
   if (Object.keys(servers).length === 0) {
     console.log("✅ MCP servers disabled (Railway environment detected)");
   } else {
-    console.log("⚠️  MCP servers enabled (local environment)");
+    console.log("⚠️  MCP servers enabled:");
+    for (const [name, config] of Object.entries(servers)) {
+      console.log(`   ${name}: ${'url' in config ? `${config.url} (HTTP)` : 'local process (stdio)'}`);
+    }
   }
   
   console.log(`Legacy servers count: ${Object.keys(MCP_SERVERS).length}`);
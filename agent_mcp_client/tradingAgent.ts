@@ -4,6 +4,7 @@
 
 import { Client } from "npm:@modelcontextprotocol/sdk@^1.0.0/client/index.js";
 import { StdioClientTransport } from "npm:@modelcontextprotocol/sdk@^1.0.0/client/stdio.js";
+import { StreamableHTTPClientTransport } from "npm:@modelcontextprotocol/sdk@^1.0.0/client/streamableHttp.js";
 import { cron } from "https://deno.land/x/deno_cron@v1.0.0/cron.ts";
 import { load } from "https://deno.land/std@0.208.0/dotenv/mod.ts";
 import { crypto } from "https://deno.land/std@0.208.0/crypto/mod.ts";
@@ -23,22 +24,41 @@ import {
   CRON_SCHEDULES, 
   FILE_PATHS, 
   DEFAULT_AGENT_STATE,
+  POSITION_MONITOR_CONFIG,
+  UNIVERSE_CONFIG,
+  CIRCUIT_BREAKER_CONFIG,
+  RISK_LIMITS_CONFIG,
+  BROKER_CONFIG,
+  RECONCILIATION_CONFIG,
   validateEnvironment,
-  getEnvObject
+  getEnvObject,
+  MARKET_CALENDAR_CONFIG
 } from './config.ts';
 
 // Import services
 import { MarketDataService } from './services/marketDataService.ts';
+import { PriceDataService } from './services/priceDataService.ts';
+import { AltDataSignalService } from './services/altDataSignalService.ts';
+import { UniverseService } from './services/universeService.ts';
 import { TradingService } from './services/tradingService.ts';
 import { DirectAlpacaService } from './services/directAlpacaService.ts';
+import { SimulatedBrokerService } from './services/simulatedBrokerService.ts';
 import { EmailService } from './services/emailService.ts';
 import { DatabaseService } from './services/databaseService.ts';
 import { AIService } from './services/aiService.ts';
-import { EnhancedStrategyService } from './services/enhancedStrategyService.ts';
+import { EnhancedStrategyService, EnhancedTradePlan } from './services/enhancedStrategyService.ts';
+import { RiskEngineService } from './services/riskEngineService.ts';
+import { PositionMonitorService } from './services/positionMonitorService.ts';
+import { CircuitBreakerService } from './services/circuitBreakerService.ts';
+import { OrderTrackerService } from './services/orderTrackerService.ts';
+import { EntrySchedulerService } from './services/entrySchedulerService.ts';
+import { ReconciliationService, ReconciliationTrigger } from './services/reconciliationService.ts';
 import { ITradingService } from './types/interfaces.ts';
 
 // Import utilities
 import { Logger } from './utils/logger.ts';
+import { withIndicators } from './utils/technicalIndicators.ts';
+import { toExchangeTime, getHoliday, getSession, getMarketStatus, isMarketOpen, isTradingDayHour, formatExchangeTime } from './utils/marketCalendar.ts';
 import { WebServer } from './webServer.ts';
 
 export class AutonomousTradingAgent {
@@ -52,15 +72,26 @@ export class AutonomousTradingAgent {
   // Services
   private logger!: Logger;
   private marketDataService!: MarketDataService;
+  private priceDataService!: PriceDataService;
+  private altDataSignalService!: AltDataSignalService;
+  private universeService!: UniverseService;
   private tradingService!: ITradingService;
   private emailService!: EmailService;
   private databaseService!: DatabaseService;
   private aiService!: AIService;
   private enhancedStrategyService!: EnhancedStrategyService;
+  private positionMonitorService!: PositionMonitorService;
+  private riskEngineService!: RiskEngineService;
+  private circuitBreakerService!: CircuitBreakerService;
+  private orderTrackerService!: OrderTrackerService;
+  private entrySchedulerService!: EntrySchedulerService;
+  private reconciliationService!: ReconciliationService;
   private webServer!: WebServer;
   
   // System components
   private cronJob: unknown;
+  private lastPostCloseReconciliation: string | null = null; // Trading date of the last after-close run
+  private executingPlan: EnhancedTradePlan | null = null; // Plan whose scheduled entries may still be sent
   private shutdownCallbacks: (() => Promise<void>)[] = [];
 
   constructor() {
@@ -108,20 +139,35 @@ export class AutonomousTradingAgent {
     // Initialize services with null clients initially
     this.marketDataService = new MarketDataService(null, this.logger);
     
-    // Use DirectAlpacaService in Railway environment
+    // Use DirectAlpacaService in Railway environment unless a broker is selected explicitly
     const isRailway = Deno.env.get('RAILWAY_ENVIRONMENT') || Deno.env.get('PORT');
-    if (isRailway) {
+    const brokerMode = BROKER_CONFIG.MODE === 'auto' ? (isRailway ? 'direct' : 'mcp') : BROKER_CONFIG.MODE;
+    if (brokerMode === 'simulated') {
+      this.tradingService = new SimulatedBrokerService(this.logger);
+      this.logger.log('STATUS', '🧪 Using SimulatedBrokerService - no orders will reach Alpaca');
+    } else if (brokerMode === 'direct') {
       this.tradingService = new DirectAlpacaService(this.logger);
-      this.logger.log('STATUS', '🚂 Using DirectAlpacaService for Railway deployment');
+      this.logger.log('STATUS', '🚂 Using DirectAlpacaService for direct API access');
     } else {
       this.tradingService = new TradingService(null, this.logger);
       this.logger.log('STATUS', '🏠 Using TradingService for local development');
     }
     
+    this.priceDataService = new PriceDataService(this.logger);
+    this.altDataSignalService = new AltDataSignalService(this.logger);
+    this.universeService = new UniverseService(this.logger, this.priceDataService);
     this.emailService = new EmailService(this.logger, Deno.env.get("BASE_URL") || 'http://localhost:8080');
     this.databaseService = new DatabaseService(null, this.logger);
-    this.aiService = new AIService(this.logger);
+    this.aiService = new AIService(this.logger, this.databaseService);
     this.enhancedStrategyService = new EnhancedStrategyService(this.logger);
+    this.orderTrackerService = new OrderTrackerService(this.tradingService, this.databaseService, this.logger);
+    this.entrySchedulerService = new EntrySchedulerService(this.logger);
+    this.entrySchedulerService.setListener((tradePlanId, trades) => this.storeScheduledEntries(tradePlanId, trades));
+    this.tradingService.setEntryScheduler(this.entrySchedulerService);
+    this.positionMonitorService = new PositionMonitorService(this.tradingService, this.databaseService, this.orderTrackerService, this.logger);
+    this.riskEngineService = new RiskEngineService(this.logger);
+    this.circuitBreakerService = new CircuitBreakerService(this.tradingService, this.databaseService, this.emailService, this.logger);
+    this.reconciliationService = new ReconciliationService(this.tradingService, this.databaseService, this.positionMonitorService, this.logger);
 
     // Initialize web server
     this.webServer = new WebServer(
@@ -165,14 +211,20 @@ export class AutonomousTradingAgent {
     
     for (const [serverName, config] of Object.entries(mcpServers)) {
       try {
-        const transport = new StdioClientTransport({
-          command: config.command,
-          args: config.args,
-          env: {
-            ...getEnvObject(),
-            ...config.env
-          }
-        });
+        const transport = 'url' in config
+          ? new StreamableHTTPClientTransport(new URL(config.url), {
+              requestInit: config.auth_token
+                ? { headers: { Authorization: `Bearer ${config.auth_token}` } }
+                : undefined
+            })
+          : new StdioClientTransport({
+              command: config.command,
+              args: config.args,
+              env: {
+                ...getEnvObject(),
+                ...config.env
+              }
+            });
 
         const client = new Client({
           name: `trading-agent-${serverName}`,
@@ -185,7 +237,7 @@ export class AutonomousTradingAgent {
         // Update services with connected clients
         this.updateServiceClients(serverName, client);
         
-        this.logger.log('STATUS', `✅ Connected to ${serverName}`);
+        this.logger.log('STATUS', `✅ Connected to ${serverName}${'url' in config ? ` at ${config.url}` : ''}`);
         
       } catch (error) {
         this.logger.log('ALERT', `Failed to connect to ${serverName}: ${error}`);
@@ -225,6 +277,10 @@ export class AutonomousTradingAgent {
     
     for (const [serverName, client] of this.activeClients.entries()) {
       try {
+        // End HTTP sessions explicitly so the remote server can release them
+        if (client.transport instanceof StreamableHTTPClientTransport) {
+          await client.transport.terminateSession();
+        }
         await client.close();
         this.logger.log('STATUS', `✅ Stopped ${serverName} server`);
       } catch (error) {
@@ -277,13 +333,29 @@ export class AutonomousTradingAgent {
       // Trading workflow header
       this.logger.log('STATUS', '🚀 DAILY TRADING WORKFLOW STARTED');
 
+      // Step 0: Bring positions and trade history in line with the broker before planning
+      await this.reconcileWithBroker('pre_workflow');
+
       // Step 1: Collect market data with historical context
       this.logger.log('ANALYSIS', 'Step 1: Collecting market data...');
-      const marketData = await this.collectMarketDataWithHistory();
+      const rawMarketData = await this.collectMarketDataWithHistory();
+
+      // Step 1.2: Score congress, insider, 13F and dark pool activity per ticker
+      const signalMarketData = this.altDataSignalService.withSignalScores(rawMarketData);
+
+      // Step 1.5: Price history and technical indicators for the candidate universe
+      const candidateSymbols = this.universeService.selectCandidates(signalMarketData);
+      const pricedCandidates = withIndicators(await this.priceDataService.attachPriceData(signalMarketData, candidateSymbols));
+
+      // Step 1.7: Filter and rank the candidates into the watchlist the AI picks from
+      const marketData = UNIVERSE_CONFIG.ENABLED
+        ? { ...pricedCandidates, watchlist: (await this.universeService.buildWatchlist(pricedCandidates, candidateSymbols)).watchlist }
+        : pricedCandidates;
 
       // Step 2: Craft initial trade plan
       this.logger.log('PLAN', 'Step 2: Crafting trade plan...');
       let tradePlan = await this.aiService.craftTradePlan(marketData, this.state);
+      tradePlan.watchlist = marketData.watchlist;
 
       // Step 3: Make predictions
       this.logger.log('ANALYSIS', 'Step 3: Running AI predictions...');
@@ -293,9 +365,15 @@ export class AutonomousTradingAgent {
       this.logger.log('PLAN', 'Step 4: Finalizing trade plan...');
       tradePlan = await this.finalizeTradePlan(tradePlan);
 
+      // Step 4.2: Attach OHLCV history for planned symbols not yet covered so breakout indicators use real prices
+      const pricedMarketData = withIndicators(await this.priceDataService.attachPriceData(
+        marketData,
+        tradePlan.trades.map(trade => trade.symbol).filter(symbol => !marketData.price_data?.[symbol])
+      ));
+
       // Step 4.5: Apply Enhanced Strategy (NEW - Beta Distribution + Breakout Filtering)
       this.logger.log('ANALYSIS', 'Step 4.5: Applying Enhanced Strategy (Beta Distribution + Breakout Filtering)...');
-      const enhancedPlan = await this.enhancedStrategyService.enhanceTradePlan(tradePlan, marketData, this.state);
+      const enhancedPlan = await this.enhancedStrategyService.enhanceTradePlan(tradePlan, pricedMarketData, this.state);
       
       // Show enhanced trade plan summary
       this.logEnhancedTradePlanSummary(enhancedPlan);
@@ -309,25 +387,46 @@ export class AutonomousTradingAgent {
       // Step 6: Wait for market open if needed
       await this.tradingService.waitForMarketOpen();
 
+      // The circuit breaker may have tripped on yesterday's exits or an opening gap
+      if (await this.checkCircuitBreaker()) {
+        this.logger.log('ALERT', 'Circuit breaker tripped - skipping execution');
+        return;
+      }
+
+      // Step 6.5: Pre-trade risk checks resize or reject trades against portfolio limits
+      const approvedPlan = await this.applyRiskLimits(enhancedPlan);
+      this.executingPlan = approvedPlan;
+
       // Step 7: Execute Enhanced Strategy
-      if (enhancedPlan.enhanced_trades.length > 0) {
-        this.logger.log('TRADE', `Step 7: Executing Enhanced Strategy with ${enhancedPlan.enhanced_trades.length} trades...`);
+      if (approvedPlan.enhanced_trades.length > 0) {
+        this.logger.log('TRADE', `Step 7: Executing Enhanced Strategy with ${approvedPlan.enhanced_trades.length} trades...`);
         const strategyResult = await this.enhancedStrategyService.executeEnhancedStrategy(
-          enhancedPlan, 
+          approvedPlan, 
           this.tradingService, 
           this.state
         );
         
         this.logEnhancedExecutionResults(strategyResult);
 
-        // Step 8: Store trades with enhanced data
-        if (strategyResult.executed_trades.filter(t => t.status === 'executed').length > 0) {
+        // Hand the new positions to the intraday monitor for batch exits and stop losses
+        await this.positionMonitorService.registerExecutedTrades(approvedPlan, strategyResult.executed_trades);
+
+        // Step 8: Store trades with enhanced data; pending orders are stored too and updated once they fill.
+        // Entries held by the entry scheduler are stored when they are sent.
+        const submittedTrades = strategyResult.executed_trades.filter(t => !t.scheduled_at);
+        if (submittedTrades.filter(t => t.status !== 'failed').length > 0) {
           this.logger.log('STATUS', 'Step 8: Storing enhanced trade records...');
-          const thoughtChain = this.generateEnhancedThoughtChain(enhancedPlan, strategyResult.executed_trades);
-          await this.databaseService.storeTrades(strategyResult.executed_trades, enhancedPlan, thoughtChain);
+          const thoughtChain = this.generateEnhancedThoughtChain(approvedPlan, strategyResult.executed_trades);
+          await this.databaseService.storeTrades(submittedTrades, approvedPlan, thoughtChain, {
+            strategy: this.state.current_strategy,
+            account_balance: this.state.account_balance
+          });
         }
+
+        // Step 9: Follow pending orders until the broker fills, rejects or cancels them
+        this.orderTrackerService.track(submittedTrades);
       } else {
-        this.logger.log('STATUS', 'No trades passed enhanced filtering - no trades to execute today');
+        this.logger.log('STATUS', 'No trades passed enhanced filtering and risk limits - no trades to execute today');
       }
 
       // Update state
@@ -380,24 +479,27 @@ export class AutonomousTradingAgent {
    * Check if agent should run based on current time and day
    */
   private shouldAgentRun(): boolean {
-    const now = new Date();
-    const dayOfWeek = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-    const hour = now.getHours();
-    const minute = now.getMinutes();
+    const now = toExchangeTime();
     
     // Check if it's a weekday (Monday = 1, Friday = 5)
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      this.logger.log('STATUS', `Weekend detected (${dayOfWeek === 0 ? 'Sunday' : 'Saturday'}) - Agent will not run`);
+    if (now.weekday === 0 || now.weekday === 6) {
+      this.logger.log('STATUS', `Weekend detected (${now.weekday === 0 ? 'Sunday' : 'Saturday'}) - Agent will not run`);
+      return false;
+    }
+
+    const holiday = getHoliday(now.date);
+    if (holiday) {
+      this.logger.log('STATUS', `Market holiday (${holiday}) - Agent will not run`);
       return false;
     }
     
-    // Check if it's within the trading window (6 AM to 5 PM EST)
-    const currentTime = hour * 60 + minute;
-    const tradingStart = 6 * 60; // 6 AM
-    const tradingEnd = 17 * 60; // 5 PM
+    // Check if it's within the trading window (6 AM to 5 PM ET)
+    const currentTime = now.hour * 60 + now.minute;
+    const tradingStart = MARKET_CALENDAR_CONFIG.AGENT_WINDOW_START_HOUR * 60;
+    const tradingEnd = MARKET_CALENDAR_CONFIG.AGENT_WINDOW_END_HOUR * 60;
     
     if (currentTime < tradingStart || currentTime > tradingEnd) {
-      this.logger.log('STATUS', `Outside trading hours (${hour}:${minute.toString().padStart(2, '0')}) - Agent will not run`);
+      this.logger.log('STATUS', `Outside trading hours (${now.hour}:${now.minute.toString().padStart(2, '0')} ET) - Agent will not run`);
       return false;
     }
     
@@ -411,21 +513,20 @@ export class AutonomousTradingAgent {
     this.logger.log('STATUS', '📅 Setting up cron jobs...');
     
     // Log the current time and next execution times
-    const now = new Date();
-    this.logger.log('STATUS', `Current time: ${now.toLocaleString('en-US', { timeZone: 'America/New_York' })} EST`);
+    this.logger.log('STATUS', `Current time: ${formatExchangeTime(new Date())}`);
     
-    // Daily workflow - runs at 6 AM EST (data collection and planning)
+    // Daily workflow - runs at 6 AM ET on trading days (data collection and planning)
     cron(CRON_SCHEDULES.DAILY_TRADING, async () => {
-      const executionTime = new Date().toLocaleString('en-US', { timeZone: 'America/New_York' });
-      this.logger.log('STATUS', `⏰ CRON TRIGGERED: Daily trading workflow at ${executionTime} EST`);
+      if (!isTradingDayHour(MARKET_CALENDAR_CONFIG.DAILY_TRADING_HOUR)) return;
+      this.logger.log('STATUS', `⏰ CRON TRIGGERED: Daily trading workflow at ${formatExchangeTime(new Date())}`);
       this.logger.log('STATUS', 'Starting scheduled trading workflow');
       await this.runTradingWorkflow();
     });
 
-    // End of day summary - runs at 5 PM EST
+    // End of day summary - runs at 5 PM ET on trading days
     cron(CRON_SCHEDULES.END_OF_DAY_SUMMARY, async () => {
-      const executionTime = new Date().toLocaleString('en-US', { timeZone: 'America/New_York' });
-      this.logger.log('STATUS', `⏰ CRON TRIGGERED: End of day summary at ${executionTime} EST`);
+      if (!isTradingDayHour(MARKET_CALENDAR_CONFIG.END_OF_DAY_SUMMARY_HOUR)) return;
+      this.logger.log('STATUS', `⏰ CRON TRIGGERED: End of day summary at ${formatExchangeTime(new Date())}`);
       this.logger.log('STATUS', 'Starting end-of-day summary');
       await this.sendDailySummary();
     });
@@ -437,10 +538,51 @@ export class AutonomousTradingAgent {
       await this.databaseService.cleanupOldLogs();
     });
 
+    // Intraday position monitor - runs every minute during market hours
+    if (POSITION_MONITOR_CONFIG.ENABLED) {
+      cron(CRON_SCHEDULES.POSITION_MONITOR, async () => {
+        // Exits only reduce exposure, so the monitor keeps running while the agent is paused
+        if (this.isShuttingDown || !isMarketOpen()) return;
+        await this.positionMonitorService.runMonitorCycle();
+      });
+    }
+
+    // Circuit breaker - checks day P&L and the losing streak during market hours
+    if (CIRCUIT_BREAKER_CONFIG.ENABLED) {
+      cron(CRON_SCHEDULES.CIRCUIT_BREAKER, async () => {
+        if (this.isShuttingDown || this.state.is_paused || !isMarketOpen()) return;
+        await this.checkCircuitBreaker();
+      });
+    }
+
+    // Broker reconciliation - once per trading day, shortly after the close
+    if (RECONCILIATION_CONFIG.ENABLED) {
+      cron(CRON_SCHEDULES.RECONCILIATION, async () => {
+        if (this.isShuttingDown) return;
+
+        const now = new Date();
+        const session = getSession(toExchangeTime(now).date);
+        if (!session || this.lastPostCloseReconciliation === session.date) return;
+        if (now.getTime() < session.close.getTime() + RECONCILIATION_CONFIG.POST_CLOSE_DELAY_MINUTES * 60000) return;
+
+        this.lastPostCloseReconciliation = session.date;
+        await this.reconcileWithBroker('post_close');
+      });
+    }
+
     this.logger.log('STATUS', '📅 Cron jobs scheduled successfully');
-    this.logger.log('STATUS', `- Daily Trading: ${CRON_SCHEDULES.DAILY_TRADING} (6 AM EST, weekdays)`);
-    this.logger.log('STATUS', `- End of Day Summary: ${CRON_SCHEDULES.END_OF_DAY_SUMMARY} (5 PM EST, weekdays)`);
+    this.logger.log('STATUS', `- Daily Trading: ${CRON_SCHEDULES.DAILY_TRADING} (6 AM ET, trading days)`);
+    this.logger.log('STATUS', `- End of Day Summary: ${CRON_SCHEDULES.END_OF_DAY_SUMMARY} (5 PM ET, trading days)`);
     this.logger.log('STATUS', `- Weekly Cleanup: ${CRON_SCHEDULES.WEEKLY_CLEANUP} (Sunday midnight)`);
+    if (POSITION_MONITOR_CONFIG.ENABLED) {
+      this.logger.log('STATUS', `- Position Monitor: ${CRON_SCHEDULES.POSITION_MONITOR} (every minute, market hours)`);
+    }
+    if (CIRCUIT_BREAKER_CONFIG.ENABLED) {
+      this.logger.log('STATUS', `- Circuit Breaker: ${CRON_SCHEDULES.CIRCUIT_BREAKER} (every 5 minutes, market hours)`);
+    }
+    if (RECONCILIATION_CONFIG.ENABLED) {
+      this.logger.log('STATUS', `- Reconciliation: ${CRON_SCHEDULES.RECONCILIATION} (once, ${RECONCILIATION_CONFIG.POST_CLOSE_DELAY_MINUTES} min after the close)`);
+    }
   }
 
   /**
@@ -461,6 +603,9 @@ export class AutonomousTradingAgent {
       
       // Get initial account balance
       await this.updateAccountBalance();
+
+      // Diff broker positions and orders against the trades table before anything trades
+      await this.reconcileWithBroker('startup');
       
       // Setup cron jobs
       this.setupCronJobs();
@@ -512,7 +657,9 @@ export class AutonomousTradingAgent {
       this.state.is_paused = true;
       this.logger.log('STATUS', '⏸️ Trading paused for shutdown');
 
-      // 2. Cancel any pending trades
+      // 2. Stop order tracking and scheduled entries, and cancel any pending trades
+      this.orderTrackerService.stop();
+      this.entrySchedulerService.stop();
       try {
         await this.tradingService.cancelAllOrders();
         this.logger.log('STATUS', '🚫 All pending orders cancelled');
@@ -590,6 +737,14 @@ export class AutonomousTradingAgent {
   private async collectMarketDataWithHistory(): Promise<Record<string, unknown>> {
     // Get regular market data
     const marketData = await this.marketDataService.collectMarketData();
+
+    // Record which alternative datasets made it into today's run
+    const report = marketData.collection_report || [];
+    await this.databaseService.storeAgentEvent(
+      'market_data_collection',
+      `${report.filter(source => source.status === 'success').length}/${report.length} Quiver sources collected`,
+      { sources: report }
+    );
     
     // Add trading performance context
     const performance = await this.databaseService.getTradingPerformance();
@@ -606,6 +761,85 @@ export class AutonomousTradingAgent {
     };
   }
 
+  private async applyRiskLimits(enhancedPlan: EnhancedTradePlan): Promise<EnhancedTradePlan> {
+    if (!RISK_LIMITS_CONFIG.ENABLED || enhancedPlan.enhanced_trades.length === 0) {
+      return enhancedPlan;
+    }
+
+    this.logger.log('ANALYSIS', 'Step 6.5: Running pre-trade risk checks...');
+
+    try {
+      const [account, positions, todayTrades] = await Promise.all([
+        this.tradingService.getAccountDetails(),
+        this.tradingService.getCurrentPositions(),
+        this.databaseService.getTodayTrades()
+      ]);
+
+      // Only plan entries count toward the daily limit; monitor exits carry no plan ID
+      const tradesToday = todayTrades.filter(t => t.status === 'executed' && t.trade_plan_id).length;
+
+      const assessment = this.riskEngineService.evaluatePlan(enhancedPlan, {
+        account,
+        positions,
+        trades_today: tradesToday
+      });
+
+      await this.emailService.sendRiskAssessmentEmail(assessment);
+      return this.riskEngineService.applyAssessment(enhancedPlan, assessment);
+
+    } catch (error) {
+      // Without account data the limits cannot be evaluated, so nothing is traded
+      this.logger.log('ALERT', `❌ Risk checks failed - skipping execution: ${error}`);
+      return { ...enhancedPlan, trades: [], enhanced_trades: [], exit_strategies: [] };
+    }
+  }
+
+  /**
+   * Reconcile broker positions and orders into the agent state and persist it
+   */
+  private async reconcileWithBroker(trigger: ReconciliationTrigger): Promise<void> {
+    try {
+      const report = await this.reconciliationService.reconcile(this.state, trigger);
+      if (report) await this.saveState();
+    } catch (error) {
+      this.logger.log('ALERT', `Broker reconciliation failed (${trigger}): ${error}`);
+    }
+  }
+
+  /**
+   * Returns true when the breaker tripped and the agent is now paused
+   */
+  private async checkCircuitBreaker(): Promise<boolean> {
+    try {
+      const trip = await this.circuitBreakerService.check(this.state);
+      if (!trip) return false;
+
+      // Entries not yet sent are dropped along with the working ones the breaker cancelled
+      this.entrySchedulerService.stop();
+      await this.saveState();
+      return true;
+    } catch (error) {
+      this.logger.log('ALERT', `Circuit breaker check failed: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Store and track the orders the entry scheduler sent for a plan (TWAP slices, entries held for the open)
+   */
+  private async storeScheduledEntries(tradePlanId: string, trades: ExecutedTrade[]): Promise<void> {
+    const plan = this.executingPlan?.id === tradePlanId ? this.executingPlan : undefined;
+
+    if (trades.some(t => t.status !== 'failed')) {
+      await this.databaseService.storeTrades(trades, plan, plan ? this.generateEnhancedThoughtChain(plan, trades) : undefined, {
+        strategy: this.state.current_strategy,
+        account_balance: this.state.account_balance
+      });
+    }
+
+    this.orderTrackerService.track(trades);
+  }
+
   private async finalizeTradePlan(tradePlan: TradePlan): Promise<TradePlan> {
     this.logger.log('ANALYSIS', 'Finalizing trade plan...');
 
@@ -783,7 +1017,11 @@ export class AutonomousTradingAgent {
     this.logger.log('STATUS', `Strategy: ${this.state.current_strategy.toUpperCase()}`);
     this.logger.log('STATUS', `MCP Servers: ${this.activeClients.size} connected`);
     this.logger.log('STATUS', `Web Interface: ${Deno.env.get("BASE_URL") || 'http://localhost:8080'}`);
-    this.logger.log('STATUS', `Daily Trading: 6:00 AM EST`);
+    this.logger.log('STATUS', `Daily Trading: ${MARKET_CALENDAR_CONFIG.DAILY_TRADING_HOUR}:00 AM ET, trading days`);
+    const market = getMarketStatus();
+    this.logger.log('STATUS', market.is_open
+      ? `Market: OPEN (closes ${formatExchangeTime(market.next_close)}, ${market.minutes_to_close} min)`
+      : `Market: CLOSED${market.holiday ? ` for ${market.holiday}` : ''} (opens ${formatExchangeTime(market.next_open)})`);
     if (this.emailService.isConfigured()) {
       this.logger.log('STATUS', 'Email Alerts: ENABLED');
     } else {
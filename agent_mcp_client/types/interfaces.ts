@@ -2,6 +2,8 @@
  * Core type definitions and interfaces for the Ada Analytics Trading Agent
  */
 
+import type { EnhancedTradeMetadata } from '../services/enhancedStrategyService.ts';
+
 // MCP Server Configuration
 export interface MCPServerConfig {
   command: string;
@@ -9,6 +11,12 @@ export interface MCPServerConfig {
   env?: Record<string, string>;
 }
 
+// MCP server reached over Streamable HTTP instead of a local process
+export interface RemoteMCPServerConfig {
+  url: string;
+  auth_token?: string;
+}
+
 // Position Type
 export interface Position {
   symbol: string;
@@ -44,9 +52,103 @@ export interface MarketDataResponse {
   indicators?: Record<string, unknown>;
   timestamp?: string;
   symbols?: string[];
+  price_data?: Record<string, SymbolPriceData>; // OHLCV history per candidate symbol
+  collection_report?: DataSourceReport[];
+  signal_scores?: Record<string, TickerSignalScores>; // Alternative-data scores per ticker
+  watchlist?: WatchlistEntry[];                       // Ranked, filtered candidate universe
   [key: string]: unknown;
 }
 
+// Market Data Collection Types
+export interface QuiverCollectionStep {
+  tool: string;                        // Quiver MCP tool name
+  arguments: Record<string, unknown>;
+  output_key: string;                  // Key the result is stored under in MarketDataResponse
+  max_records: number;                 // Records kept from the tool's output
+  enabled: boolean;
+}
+
+export type DataSourceStatus = 'success' | 'empty' | 'failed';
+
+// Candidate Universe Types
+export interface AssetInfo {
+  symbol: string;
+  tradable: boolean;
+  shortable: boolean;
+  status: string;           // 'active' | 'inactive'
+}
+
+export interface WatchlistEntry {
+  symbol: string;
+  rank: number;
+  signal_score: number | null;        // Composite alt-data score, -1 to 1
+  price: number | null;
+  avg_dollar_volume: number | null;   // Mean close x volume over the lookback bars
+  included: boolean;                  // Forced in by the include list
+  reasons: string[];
+}
+
+export interface UniverseRejection {
+  symbol: string;
+  reason: string;
+}
+
+// Alternative-Data Signal Types
+export type AltDataSignal = 'congress' | 'insider' | 'institutional' | 'dark_pool';
+
+export interface TickerSignalScores {
+  symbol: string;
+  scores: Partial<Record<AltDataSignal, number>>; // -1 (bearish) to 1 (bullish), recency-decayed
+  composite: number;                 // Weighted mean of the available scores
+  congress_net_usd?: number;         // Decayed buy minus sell dollars
+  insider_net_usd?: number;
+  insider_cluster_buyers?: number;   // Distinct insiders buying within the cluster window
+  institutional_net_usd?: number;    // Decayed 13F market value change
+  off_exchange_percent?: number;     // Latest off-exchange share of volume
+  off_exchange_zscore?: number;      // Against the ticker's history, or other tickers when history is short
+  record_count: number;
+  latest_activity: string;           // YYYY-MM-DD
+}
+
+export interface DataSourceReport {
+  tool: string;
+  output_key: string;
+  status: DataSourceStatus;
+  latency_ms: number;
+  records: number;                     // Records kept after max_records
+  total_records: number;               // Records returned by the tool
+  error?: string;
+}
+
+// Price Data Types
+export interface PriceBar {
+  date: string;   // YYYY-MM-DD
+  symbol: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface Quote {
+  symbol: string;
+  bid: number;
+  ask: number;
+  last: number;
+  timestamp: string;
+}
+
+export type PriceDataSource = 'alpaca' | 'fixture' | 'backtest';
+
+export interface SymbolPriceData {
+  symbol: string;
+  bars: PriceBar[]; // Daily bars, oldest first
+  quote: Quote | null;
+  source: PriceDataSource;
+  fetched_at: string;
+}
+
 // API Response Type
 export type APIResponse = {
   content?: Array<{ text?: string; type?: string }>;
@@ -55,16 +157,35 @@ export type APIResponse = {
   message?: string;
 } | unknown;
 
+// Broker order IDs of the stop loss and take profit that protect a position
+export interface ProtectiveOrderIds {
+  stop_loss?: string;
+  take_profit?: string;
+}
+
 // Executed Trade Type
 export interface ExecutedTrade extends TradeDecision {
   executed_quantity: number;
   execution_result: TradeExecutionResult;
   executed_at: string;
   order_id?: string;
+  client_order_id?: string; // From utils/clientOrderId.ts, traces the fill back to its TradePlan
   filled_avg_price?: number;
+  filled_at?: string;
   status: 'executed' | 'failed' | 'pending';
+  order_status?: AlpacaOrder['status']; // Last broker status seen by the order tracker
+  order_class?: 'simple' | 'bracket' | 'oco' | 'oto';
+  child_order_ids?: ProtectiveOrderIds;
+  closes_order_ids?: string[]; // Entry orders this exit closes, for specific-lot matching
+  execution_style?: EntryExecutionStyle;
+  cancel_at?: string; // Unfilled remainder of a limit-style entry is cancelled at this time
+  fees?: number; // Commission the broker charged on the fill so far
+  scheduled_at?: string; // Not sent yet; the entry scheduler submits it at this time
 }
 
+// Entry order styles: market, limit at price_target, marketable limit with a collar, or TWAP slices
+export type EntryExecutionStyle = 'market' | 'limit' | 'marketable_limit' | 'twap';
+
 // Trade Execution Result
 export interface TradeExecutionResult {
   success: boolean;
@@ -87,6 +208,19 @@ export interface Order {
   time_in_force: 'day' | 'gtc' | 'ioc' | 'fok';
   created_at: string;
   updated_at?: string;
+  client_order_id?: string;
+}
+
+// Order Request Type - a single order submitted outside of a trade plan (exits, adjustments)
+export interface OrderRequest {
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  order_type: 'market' | 'limit' | 'stop';
+  price?: number;
+  time_in_force?: 'day' | 'gtc';
+  reasoning?: string;
+  client_order_id?: string; // Deterministic ID; an existing order with it is reused instead of resubmitted
 }
 
 // Note: TradeRecord is defined below in Database Record Types section
@@ -111,6 +245,7 @@ export interface TradePlan {
   risk_assessment: string;
   total_risk_exposure: number;
   created_at: string;
+  watchlist?: WatchlistEntry[]; // Candidate universe the plan was drawn from
 }
 
 // Agent State Management
@@ -122,6 +257,13 @@ export interface AgentState {
   open_positions: Position[];
   trade_history: TradeRecord[];
   pause_token?: string;
+  circuit_breaker?: CircuitBreakerTrip; // Last trip; cleared only by the next trip
+}
+
+export interface CircuitBreakerTrip {
+  trigger: 'daily_loss' | 'consecutive_losses';
+  reason: string;
+  tripped_at: string;
 }
 
 // Market Data Types
@@ -222,7 +364,7 @@ export interface ETFHolding {
 
 // Performance Analytics
 export interface TradingPerformance {
-  total_trades: number;
+  total_trades: number; // Closed lots (round trips)
   win_rate: number;
   avg_return: number;
   total_return: number;
@@ -231,6 +373,51 @@ export interface TradingPerformance {
   symbols_traded: string[];
   symbol_frequency: Record<string, number>;
   recent_trades: TradeRecord[];
+  realized_pnl: number;
+  total_fees: number;
+  avg_holding_period_days: number;
+  closed_lots: ClosedLot[];
+}
+
+// Lot Matching Ledger Types
+export type LotMatchingMethod = 'FIFO' | 'LIFO' | 'SPECIFIC';
+
+export interface LedgerFill {
+  id: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  price: number;
+  fees: number;
+  executed_at: string;
+  lot_ids?: string[]; // Lots to close first under SPECIFIC matching
+}
+
+export interface OpenLot {
+  lot_id: string;
+  symbol: string;
+  side: 'long' | 'short';
+  quantity: number;
+  remaining_quantity: number;
+  entry_price: number;
+  entry_fees: number; // Unallocated entry fees for the remaining quantity
+  opened_at: string;
+}
+
+export interface ClosedLot {
+  lot_id: string;
+  exit_fill_id: string;
+  symbol: string;
+  side: 'long' | 'short';
+  quantity: number;
+  entry_price: number;
+  exit_price: number;
+  opened_at: string;
+  closed_at: string;
+  holding_period_days: number;
+  fees: number;
+  realized_pnl: number; // Net of fees
+  return_pct: number;
 }
 
 export interface SymbolAnalysis {
@@ -239,6 +426,8 @@ export interface SymbolAnalysis {
   avg_confidence: number;
   win_rate: number;
   avg_return: number;
+  realized_pnl: number;
+  closed_lot_count: number;
   last_trade: TradeRecord | null;
   patterns: TradePattern[];
   recommendation: string;
@@ -261,6 +450,11 @@ export interface TradeRecord {
   quantity: number;
   price_target: number;
   executed_price?: number;
+  order_id?: string;
+  client_order_id?: string;
+  execution_style?: EntryExecutionStyle;
+  fees?: number;
+  closes_order_ids?: string[];
   stop_loss: number;
   take_profit: number;
   confidence: number;
@@ -328,6 +522,22 @@ export interface PerformanceAnalysis {
   new_strategy_focus: string;
 }
 
+// LLM Providers
+export type LLMProviderName = 'anthropic' | 'openai' | 'fixture';
+
+// AI Response Validation
+export type AIResponseType = 'predictions' | 'performance_analysis' | 'adjustment';
+
+export interface AIValidationFailure {
+  response_type: AIResponseType;
+  attempt: number; // 1 = first response, 2 = the retry with errors fed back
+  errors: string[];
+  repairs: string[];
+  raw_response: string;
+  model: string;
+  recovered: boolean; // The retry produced a response without errors
+}
+
 // Account Information
 export interface AccountDetails {
   balance: number;
@@ -354,7 +564,8 @@ export interface IMarketDataService {
 
 export interface ITradingService {
   executeTrades(tradePlan: TradePlan, agentState?: AgentState): Promise<ExecutedTrade[]>;
-  setStopLossAndTakeProfit(trade: TradeDecision, orderId: string): Promise<void>;
+  placeOrder(order: OrderRequest): Promise<TradeExecutionResult>;
+  setStopLossAndTakeProfit(trade: TradeDecision, orderId: string, tradePlanId?: string): Promise<ProtectiveOrderIds | undefined>;
   getAccountDetails(): Promise<AccountDetails>;
   getCurrentPositions(): Promise<Position[]>;
   getPendingOrders(): Promise<Order[]>;
@@ -367,6 +578,12 @@ export interface ITradingService {
   getMarketData(symbol: string): Promise<Record<string, unknown>>;
   waitForMarketOpen(): Promise<void>;
   cancelAllOrders(): Promise<boolean>;
+  setEntryScheduler(scheduler: IEntryScheduler): void;
+}
+
+// Sends entry orders later (TWAP slices, entries held for the open) without blocking the trading workflow
+export interface IEntryScheduler {
+  schedule(at: Date, tradePlanId: string, description: string, submit: () => Promise<ExecutedTrade[]>): void;
 }
 
 export interface IEmailService {
@@ -374,15 +591,40 @@ export interface IEmailService {
   sendTradePlanEmail(tradePlan: TradePlan): Promise<string>;
   sendDailySummary(accountDetails: AccountDetails, trades: TradeRecord[]): Promise<void>;
   sendErrorAlert(error: Error): Promise<void>;
-  sendResumeEmail(resumeToken: string): Promise<void>;
+  sendResumeEmail(resumeToken: string, reason?: string): Promise<void>;
   isConfigured(): boolean;
   sendTestEmail(recipient?: string): Promise<boolean>;
   getCurrentEmailCount(): Promise<{ count: number; limit: number; canSend: boolean }>;
 }
 
+// Agent context recorded with each stored trade
+export interface TradeStorageContext {
+  strategy?: string;
+  account_balance?: number;
+}
+
+export interface TradeMetadataFilter {
+  trade_id?: string;
+  trade_plan_id?: string;
+  order_id?: string;
+  symbol?: string;
+}
+
+// Final broker state of a tracked order, written back to its trades row
+export interface TradeFillUpdate {
+  status: 'executed' | 'failed' | 'pending';
+  order_status: AlpacaOrder['status'];
+  filled_quantity: number;
+  filled_avg_price?: number;
+  filled_at?: string;
+  fees?: number;
+}
+
 export interface IDatabaseService {
-  storeTrades(trades: ExecutedTrade[], tradePlan?: TradePlan, thoughtChain?: string[]): Promise<void>;
+  storeTrades(trades: ExecutedTrade[], tradePlan?: TradePlan, thoughtChain?: string[], context?: TradeStorageContext): Promise<void>;
+  updateTradeFill(orderId: string, fill: TradeFillUpdate): Promise<void>;
   getHistoricalTrades(days: number, symbol?: string): Promise<TradeRecord[]>;
+  getTradeMetadata(filter?: TradeMetadataFilter, limit?: number): Promise<EnhancedTradeMetadata[]>;
   getTradingPerformance(): Promise<TradingPerformance>;
   getSymbolAnalysis(symbol: string): Promise<SymbolAnalysis>;
   storePredictions(tradePlan: TradePlan): Promise<void>;
@@ -392,6 +634,7 @@ export interface IDatabaseService {
   getTodayTrades(): Promise<TradeRecord[]>;
   getYesterdayTrades(): Promise<TradeRecord[]>;
   storeAgentEvent(eventType: string, reason: string, context?: Record<string, unknown>): Promise<void>;
+  storeAIValidationFailure(failure: AIValidationFailure): Promise<void>;
   getMonthlyUsage(month: string): Promise<{
     claude_requests: number;
     estimated_cost: number;
@@ -497,6 +740,8 @@ export interface AlpacaOrder {
   asset_class: 'us_equity';
   qty: string;
   filled_qty: string;
+  filled_avg_price?: string | null;
+  commission?: string | number | null; // Only reported on accounts that are charged one
   type: 'market' | 'limit' | 'stop' | 'stop_limit';
   side: 'buy' | 'sell';
   time_in_force: 'day' | 'gtc' | 'ioc' | 'fok';
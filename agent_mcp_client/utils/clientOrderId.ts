@@ -0,0 +1,63 @@
+/**
+ * Client Order IDs - Deterministic Alpaca client_order_id per trade plan, symbol and leg
+ * Re-running a plan produces the same IDs, so services can find an order the broker already
+ * accepted instead of submitting it twice, and every fill traces back to its TradePlan.
+ * Plan IDs are themselves derived from the trading session and strategy, so a re-run of the
+ * day's workflow lands on the same IDs.
+ */
+
+export const CLIENT_ORDER_ID_PREFIX = 'ada';
+const MAX_CLIENT_ORDER_ID_LENGTH = 128; // Alpaca limit
+const SEPARATOR = ':';
+
+// entry, stop_loss, take_profit, or an exit level such as take_profit_1-2
+export type OrderLeg = string;
+
+export interface ClientOrderIdParts {
+  trade_plan_id: string;
+  symbol: string;
+  leg: OrderLeg;
+}
+
+export function buildClientOrderId(tradePlanId: string, symbol: string, leg: OrderLeg): string {
+  const id = [CLIENT_ORDER_ID_PREFIX, clean(tradePlanId), clean(symbol.toUpperCase()), clean(leg)].join(SEPARATOR);
+  if (id.length <= MAX_CLIENT_ORDER_ID_LENGTH) return id;
+
+  // Keep the symbol and leg readable and hash the plan ID so the result stays deterministic
+  return [CLIENT_ORDER_ID_PREFIX, `h${fnv1a(tradePlanId)}`, clean(symbol.toUpperCase()), clean(leg)]
+    .join(SEPARATOR)
+    .slice(0, MAX_CLIENT_ORDER_ID_LENGTH);
+}
+
+/**
+ * UUID-shaped trade plan ID hashed from the session date and strategy; the same inputs always give the same ID
+ */
+export async function buildTradePlanId(tradingDate: string, strategy: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${tradingDate}|${strategy.trim().toLowerCase()}`));
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  // Version 5 / RFC 4122 variant nibbles so the ID fits the UUID plan columns
+  const variant = (8 | (parseInt(hex[16], 16) & 3)).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Split an ID built by buildClientOrderId; null for IDs from anywhere else
+ */
+export function parseClientOrderId(clientOrderId: string | undefined | null): ClientOrderIdParts | null {
+  const parts = clientOrderId?.split(SEPARATOR);
+  if (!parts || parts.length !== 4 || parts[0] !== CLIENT_ORDER_ID_PREFIX) return null;
+  return { trade_plan_id: parts[1], symbol: parts[2], leg: parts[3] };
+}
+
+function clean(part: string): string {
+  return part.trim().replace(/[^A-Za-z0-9._-]/g, '-');
+}
+
+function fnv1a(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
@@ -0,0 +1,55 @@
+/**
+ * Client order IDs: deterministic per plan / symbol / leg, within Alpaca's length limit, and parseable
+ */
+
+import { assert, assertEquals, assertMatch, assertNotEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { buildClientOrderId, buildTradePlanId, parseClientOrderId } from './clientOrderId.ts';
+
+const PLAN_ID = '3f1c2a9e-7b4d-5e10-9a2b-0c6d8e4f1a23';
+const UUID_V5 = /^[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+Deno.test("buildClientOrderId is deterministic and distinct per symbol and leg", () => {
+  const entry = buildClientOrderId(PLAN_ID, 'aapl', 'entry');
+
+  assertEquals(entry, `ada:${PLAN_ID}:AAPL:entry`);
+  assertEquals(buildClientOrderId(PLAN_ID, 'AAPL', 'entry'), entry);
+  assertNotEquals(buildClientOrderId(PLAN_ID, 'AAPL', 'stop_loss'), entry);
+  assertNotEquals(buildClientOrderId(PLAN_ID, 'MSFT', 'entry'), entry);
+});
+
+Deno.test("buildClientOrderId replaces the separator and other unsafe characters", () => {
+  const id = buildClientOrderId('plan:1 a', 'BRK/B', 'take_profit_1-2');
+
+  assertEquals(id, 'ada:plan-1-a:BRK-B:take_profit_1-2');
+  assertEquals(parseClientOrderId(id), { trade_plan_id: 'plan-1-a', symbol: 'BRK-B', leg: 'take_profit_1-2' });
+});
+
+Deno.test("over-long plan IDs are hashed so the ID stays within 128 characters", () => {
+  const longPlanId = 'p'.repeat(200);
+  const id = buildClientOrderId(longPlanId, 'AAPL', 'entry');
+
+  assert(id.length <= 128);
+  assertMatch(id, /^ada:h[0-9a-f]{8}:AAPL:entry$/);
+  assertEquals(buildClientOrderId(longPlanId, 'AAPL', 'entry'), id);
+  assertNotEquals(buildClientOrderId('q'.repeat(200), 'AAPL', 'entry'), id);
+});
+
+Deno.test("parseClientOrderId round-trips built IDs and ignores foreign ones", () => {
+  assertEquals(parseClientOrderId(buildClientOrderId(PLAN_ID, 'NVDA', 'stop_loss')), {
+    trade_plan_id: PLAN_ID,
+    symbol: 'NVDA',
+    leg: 'stop_loss'
+  });
+  assertEquals(parseClientOrderId('b0b6dd9d-8b9b-48a9-ba46-b9d54906e415'), null);
+  assertEquals(parseClientOrderId('other:plan:AAPL:entry'), null);
+  assertEquals(parseClientOrderId(undefined), null);
+});
+
+Deno.test("buildTradePlanId is a UUID derived from the session date and strategy", async () => {
+  const id = await buildTradePlanId('2026-10-19', 'Momentum');
+
+  assertMatch(id, UUID_V5);
+  assertEquals(await buildTradePlanId('2026-10-19', '  momentum '), id);
+  assertNotEquals(await buildTradePlanId('2026-10-20', 'momentum'), id);
+  assertNotEquals(await buildTradePlanId('2026-10-19', 'mean_reversion'), id);
+});
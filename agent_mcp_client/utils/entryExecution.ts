@@ -0,0 +1,122 @@
+/**
+ * Entry Execution - Prices and slices entry orders for the configured execution style
+ * - market: market order at submission
+ * - limit: limit at the plan's price_target
+ * - marketable_limit: limit a collar through the current quote, so it fills now but never far from the quote
+ * - twap: the quantity split into equal marketable-limit slices across a window
+ * Limit-style entries carry a cancel_at deadline; the order tracker cancels whatever is unfilled then.
+ * Outside market hours, deadlines and TWAP slice times count from the next open.
+ */
+
+import { EntryExecutionStyle, ExecutedTrade, TradeDecision } from '../types/interfaces.ts';
+import { ENTRY_EXECUTION_CONFIG } from '../config.ts';
+import { isMarketOpen, getNextOpen, getNextClose } from './marketCalendar.ts';
+
+export const ENTRY_EXECUTION_STYLES: EntryExecutionStyle[] = ['market', 'limit', 'marketable_limit', 'twap'];
+
+/**
+ * Configured style; an unknown ENTRY_EXECUTION_STYLE falls back to market
+ */
+export function getEntryExecutionStyle(): EntryExecutionStyle {
+  return ENTRY_EXECUTION_STYLES.includes(ENTRY_EXECUTION_CONFIG.STYLE) ? ENTRY_EXECUTION_CONFIG.STYLE : 'market';
+}
+
+/**
+ * Limit price for a limit-style entry. Marketable limits collar the ask (buys) or bid (sells)
+ * from the quote and fall back to price_target when the quote has no usable price.
+ */
+export function entryLimitPrice(style: EntryExecutionStyle, trade: TradeDecision, quote: Record<string, unknown> = {}): number {
+  if (style === 'limit') return roundPrice(trade.price_target);
+
+  const side = trade.action === 'BUY' ? 'buy' : 'sell';
+  const reference = quotePrice(quote, side) ?? trade.price_target;
+  const collar = ENTRY_EXECUTION_CONFIG.MARKETABLE_LIMIT_COLLAR;
+  return roundPrice(side === 'buy' ? reference * (1 + collar) : reference * (1 - collar));
+}
+
+/**
+ * Split a quantity into whole-share slices that sum to it; empty slices are dropped
+ */
+export function twapSliceQuantities(quantity: number, slices: number = ENTRY_EXECUTION_CONFIG.TWAP_SLICES): number[] {
+  const total = Math.floor(quantity);
+  const count = Math.max(1, Math.min(Math.floor(slices), total));
+  const base = Math.floor(total / count);
+  const remainder = total - base * count;
+
+  return Array.from({ length: count }, (_, i) => base + (i < remainder ? 1 : 0)).filter(q => q > 0);
+}
+
+export function twapSliceIntervalMs(sliceCount: number): number {
+  return sliceCount > 1 ? (ENTRY_EXECUTION_CONFIG.TWAP_WINDOW_MINUTES * 60000) / (sliceCount - 1) : 0;
+}
+
+/**
+ * When slice i of a TWAP started now goes out: the first at once (or at the open), the rest spaced
+ * across the window, which shrinks to fit before the close
+ */
+export function twapSliceTimes(sliceCount: number, now: Date = new Date()): Date[] {
+  const startTime = entryStartTime(now);
+  const start = startTime.getTime();
+  const interval = Math.min(twapSliceIntervalMs(sliceCount), (getNextClose(startTime).getTime() - start) / Math.max(1, sliceCount));
+  return Array.from({ length: sliceCount }, (_, i) => new Date(start + i * interval));
+}
+
+/**
+ * Now while the market is open, otherwise the next open
+ */
+export function entryStartTime(now: Date = new Date()): Date {
+  return isMarketOpen(now) ? now : getNextOpen(now);
+}
+
+/**
+ * When the unfilled remainder of an entry sent now is cancelled, counted from the open when the
+ * market is closed; never after that session's close
+ */
+export function entryCancelDeadline(style: EntryExecutionStyle, now: Date = new Date()): string {
+  const minutes = ENTRY_EXECUTION_CONFIG.CANCEL_AFTER_MINUTES + (style === 'twap' ? ENTRY_EXECUTION_CONFIG.TWAP_WINDOW_MINUTES : 0);
+  const start = entryStartTime(now);
+  const deadline = start.getTime() + minutes * 60000;
+  return new Date(Math.min(deadline, getNextClose(start).getTime())).toISOString();
+}
+
+/**
+ * Stand-in for an entry handed to the entry scheduler; the order it places is stored and tracked when sent
+ */
+export function scheduledEntry(
+  trade: TradeDecision,
+  clientOrderId: string,
+  style: EntryExecutionStyle,
+  cancelAt: string,
+  at: Date
+): ExecutedTrade {
+  return {
+    ...trade,
+    executed_quantity: 0,
+    execution_result: { success: true },
+    executed_at: new Date().toISOString(),
+    client_order_id: clientOrderId,
+    status: 'pending',
+    execution_style: style,
+    cancel_at: cancelAt,
+    scheduled_at: at.toISOString()
+  };
+}
+
+/**
+ * Ask for buys and bid for sells from a raw Alpaca quote, else the last trade price
+ */
+function quotePrice(quote: Record<string, unknown>, side: 'buy' | 'sell'): number | null {
+  const numeric = (value: unknown): number | null => {
+    const n = Number(value);
+    return Number.isFinite(n) && n > 0 ? n : null;
+  };
+
+  const sidePrice = side === 'buy' ? numeric(quote.ap) : numeric(quote.bp);
+  return sidePrice ?? numeric(quote.price) ?? numeric(quote.p);
+}
+
+// Alpaca accepts two decimals at $1 and above, four below
+function roundPrice(price: number): number {
+  const factor = price >= 1 ? 100 : 10000;
+  return Math.round(price * factor) / factor;
+}
@@ -0,0 +1,92 @@
+/**
+ * Entry execution: limit pricing, TWAP slicing and cancel deadlines anchored to the session
+ */
+
+import { assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { TradeDecision } from '../types/interfaces.ts';
+import {
+  entryCancelDeadline,
+  entryLimitPrice,
+  scheduledEntry,
+  twapSliceIntervalMs,
+  twapSliceQuantities,
+  twapSliceTimes
+} from './entryExecution.ts';
+
+function trade(action: 'BUY' | 'SELL', priceTarget: number): TradeDecision {
+  return {
+    symbol: 'AAPL',
+    action,
+    quantity: 10,
+    price_target: priceTarget,
+    stop_loss: priceTarget * 0.94,
+    take_profit: priceTarget * 1.1,
+    confidence: 0.8,
+    reasoning: 'test trade'
+  };
+}
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+// Monday 2026-10-19: session 13:30Z-20:00Z (EDT)
+const BEFORE_OPEN = new Date('2026-10-19T10:00:00Z');
+const NEAR_CLOSE = new Date('2026-10-19T19:50:00Z');
+
+Deno.test("limit entries use price_target; marketable limits collar the quote", () => {
+  assertEquals(entryLimitPrice('limit', trade('BUY', 101.234), { ap: 150 }), 101.23);
+
+  assertEquals(entryLimitPrice('marketable_limit', trade('BUY', 90), { ap: 100, bp: 99.9 }), 100.2);
+  assertEquals(entryLimitPrice('marketable_limit', trade('SELL', 90), { ap: 50.1, bp: 50 }), 49.9);
+  // No side price: last trade, then price_target
+  assertEquals(entryLimitPrice('marketable_limit', trade('BUY', 90), { price: 100 }), 100.2);
+  assertEquals(entryLimitPrice('marketable_limit', trade('BUY', 90), { ap: 0 }), 90.18);
+  // Four decimals below $1
+  assertEquals(entryLimitPrice('marketable_limit', trade('BUY', 0.5)), 0.501);
+});
+
+Deno.test("TWAP slices are whole shares that sum to the quantity", () => {
+  assertEquals(twapSliceQuantities(100, 6), [17, 17, 17, 17, 16, 16]);
+  assertEquals(twapSliceQuantities(10.7, 3), [4, 3, 3]);
+  assertEquals(twapSliceQuantities(2, 6), [1, 1]);
+  assertEquals(twapSliceQuantities(0, 6), []);
+  assertEquals(twapSliceIntervalMs(3), 15 * 60000);
+  assertEquals(twapSliceIntervalMs(1), 0);
+});
+
+Deno.test("TWAP slices start at the open when sent before it", () => {
+  assertEquals(iso(twapSliceTimes(3, BEFORE_OPEN)), [
+    '2026-10-19T13:30:00.000Z',
+    '2026-10-19T13:45:00.000Z',
+    '2026-10-19T14:00:00.000Z'
+  ]);
+});
+
+Deno.test("TWAP slices shrink to fit before the close", () => {
+  assertEquals(iso(twapSliceTimes(3, NEAR_CLOSE)), [
+    '2026-10-19T19:50:00.000Z',
+    '2026-10-19T19:53:20.000Z',
+    '2026-10-19T19:56:40.000Z'
+  ]);
+});
+
+Deno.test("cancel deadlines count from the open and never pass the close", () => {
+  assertEquals(entryCancelDeadline('marketable_limit', BEFORE_OPEN), '2026-10-19T14:00:00.000Z');
+  assertEquals(entryCancelDeadline('twap', BEFORE_OPEN), '2026-10-19T14:30:00.000Z');
+  assertEquals(entryCancelDeadline('limit', new Date('2026-10-19T15:00:00Z')), '2026-10-19T15:30:00.000Z');
+
+  assertEquals(entryCancelDeadline('marketable_limit', NEAR_CLOSE), '2026-10-19T20:00:00.000Z');
+  assertEquals(entryCancelDeadline('twap', NEAR_CLOSE), '2026-10-19T20:00:00.000Z');
+});
+
+Deno.test("scheduledEntry is a pending placeholder carrying its schedule", () => {
+  const at = new Date('2026-10-19T13:45:00Z');
+  const entry = scheduledEntry(trade('BUY', 100), 'ada:plan:AAPL:entry-2', 'twap', '2026-10-19T14:30:00.000Z', at);
+
+  assertEquals(entry.status, 'pending');
+  assertEquals(entry.executed_quantity, 0);
+  assertEquals(entry.client_order_id, 'ada:plan:AAPL:entry-2');
+  assertEquals(entry.execution_style, 'twap');
+  assertEquals(entry.cancel_at, '2026-10-19T14:30:00.000Z');
+  assertEquals(entry.scheduled_at, '2026-10-19T13:45:00.000Z');
+  assertEquals(entry.order_id, undefined);
+});
@@ -0,0 +1,251 @@
+/**
+ * Market Calendar - NYSE sessions in exchange time (America/New_York), independent of
+ * the server's timezone. Holidays and early closes come from the bundled table below;
+ * dates past its last year are treated as regular weekday sessions.
+ */
+
+import { TRADING_CONFIG, MARKET_CALENDAR_CONFIG } from '../config.ts';
+
+/** Wall-clock time at the exchange */
+export interface ExchangeTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+export interface MarketSession {
+  date: string;
+  open: Date;
+  close: Date;
+  early_close: string | null; // Reason when the session closes early
+}
+
+export interface MarketStatus {
+  is_open: boolean;
+  session: MarketSession | null; // Today's session, null on weekends and holidays
+  holiday: string | null;
+  next_open: Date;
+  next_close: Date;
+  minutes_to_close: number | null; // Only while open
+}
+
+// NYSE full-day closures
+export const NYSE_HOLIDAYS: Record<string, string> = {
+  '2024-01-01': "New Year's Day",
+  '2024-01-15': 'Martin Luther King Jr. Day',
+  '2024-02-19': "Washington's Birthday",
+  '2024-03-29': 'Good Friday',
+  '2024-05-27': 'Memorial Day',
+  '2024-06-19': 'Juneteenth',
+  '2024-07-04': 'Independence Day',
+  '2024-09-02': 'Labor Day',
+  '2024-11-28': 'Thanksgiving Day',
+  '2024-12-25': 'Christmas Day',
+  '2025-01-01': "New Year's Day",
+  '2025-01-09': 'National Day of Mourning for President Carter',
+  '2025-01-20': 'Martin Luther King Jr. Day',
+  '2025-02-17': "Washington's Birthday",
+  '2025-04-18': 'Good Friday',
+  '2025-05-26': 'Memorial Day',
+  '2025-06-19': 'Juneteenth',
+  '2025-07-04': 'Independence Day',
+  '2025-09-01': 'Labor Day',
+  '2025-11-27': 'Thanksgiving Day',
+  '2025-12-25': 'Christmas Day',
+  '2026-01-01': "New Year's Day",
+  '2026-01-19': 'Martin Luther King Jr. Day',
+  '2026-02-16': "Washington's Birthday",
+  '2026-04-03': 'Good Friday',
+  '2026-05-25': 'Memorial Day',
+  '2026-06-19': 'Juneteenth',
+  '2026-07-03': 'Independence Day (observed)',
+  '2026-09-07': 'Labor Day',
+  '2026-11-26': 'Thanksgiving Day',
+  '2026-12-25': 'Christmas Day',
+  '2027-01-01': "New Year's Day",
+  '2027-01-18': 'Martin Luther King Jr. Day',
+  '2027-02-15': "Washington's Birthday",
+  '2027-03-26': 'Good Friday',
+  '2027-05-31': 'Memorial Day',
+  '2027-06-18': 'Juneteenth (observed)',
+  '2027-07-05': 'Independence Day (observed)',
+  '2027-09-06': 'Labor Day',
+  '2027-11-25': 'Thanksgiving Day',
+  '2027-12-24': 'Christmas Day (observed)'
+};
+
+// NYSE sessions that close at MARKET_CALENDAR_CONFIG.EARLY_CLOSE_HOUR
+export const NYSE_EARLY_CLOSES: Record<string, string> = {
+  '2024-07-03': 'Day before Independence Day',
+  '2024-11-29': 'Day after Thanksgiving',
+  '2024-12-24': 'Christmas Eve',
+  '2025-07-03': 'Day before Independence Day',
+  '2025-11-28': 'Day after Thanksgiving',
+  '2025-12-24': 'Christmas Eve',
+  '2026-11-27': 'Day after Thanksgiving',
+  '2026-12-24': 'Christmas Eve',
+  '2027-11-26': 'Day after Thanksgiving'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SEARCH_DAYS = 14; // Longest possible run of closed days is well under this
+
+const exchangeFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: MARKET_CALENDAR_CONFIG.TIMEZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit'
+});
+
+export function toExchangeTime(instant: Date = new Date()): ExchangeTime {
+  const parts = exchangeParts(instant.getTime());
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  return {
+    date,
+    weekday: weekdayOf(date),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute)
+  };
+}
+
+/**
+ * The instant at which the exchange clock reads date hour:minute
+ */
+export function exchangeTimeToDate(date: string, hour: number, minute: number = 0): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Take the offset at the first guess, then again at the corrected instant in case a DST switch lies between
+  const guess = wallClock - offsetMs(wallClock);
+  return new Date(wallClock - offsetMs(guess));
+}
+
+export function getHoliday(date: string): string | null {
+  return NYSE_HOLIDAYS[date] || null;
+}
+
+export function isTradingDay(date: string): boolean {
+  const weekday = weekdayOf(date);
+  return weekday !== 0 && weekday !== 6 && !NYSE_HOLIDAYS[date];
+}
+
+/**
+ * Regular or early-close session for the exchange date, or null when the market is closed all day
+ */
+export function getSession(date: string): MarketSession | null {
+  if (!isTradingDay(date)) return null;
+
+  const earlyClose = NYSE_EARLY_CLOSES[date] || null;
+  return {
+    date,
+    open: exchangeTimeToDate(date, TRADING_CONFIG.MARKET_OPEN_HOUR, TRADING_CONFIG.MARKET_OPEN_MINUTE),
+    close: earlyClose
+      ? exchangeTimeToDate(date, MARKET_CALENDAR_CONFIG.EARLY_CLOSE_HOUR, 0)
+      : exchangeTimeToDate(date, TRADING_CONFIG.MARKET_CLOSE_HOUR, TRADING_CONFIG.MARKET_CLOSE_MINUTE),
+    early_close: earlyClose
+  };
+}
+
+export function isMarketOpen(now: Date = new Date()): boolean {
+  const session = getSession(toExchangeTime(now).date);
+  return !!session && now >= session.open && now < session.close;
+}
+
+/**
+ * Start of the first session opening after now
+ */
+export function getNextOpen(now: Date = new Date()): Date {
+  return findSession(now, session => session.open > now).open;
+}
+
+/**
+ * End of the current session while open, otherwise of the next session
+ */
+export function getNextClose(now: Date = new Date()): Date {
+  return findSession(now, session => session.close > now).close;
+}
+
+/**
+ * Exchange date of the session an order sent now trades in: today while open, else the next session's
+ */
+export function getTradingSessionDate(now: Date = new Date()): string {
+  return toExchangeTime(isMarketOpen(now) ? now : getNextOpen(now)).date;
+}
+
+export function getMinutesToClose(now: Date = new Date()): number | null {
+  if (!isMarketOpen(now)) return null;
+  return Math.floor((getNextClose(now).getTime() - now.getTime()) / 60000);
+}
+
+export function getMarketStatus(now: Date = new Date()): MarketStatus {
+  const { date } = toExchangeTime(now);
+  return {
+    is_open: isMarketOpen(now),
+    session: getSession(date),
+    holiday: getHoliday(date),
+    next_open: getNextOpen(now),
+    next_close: getNextClose(now),
+    minutes_to_close: getMinutesToClose(now)
+  };
+}
+
+/**
+ * True during the given exchange hour of a trading day. Cron jobs fire in server time,
+ * so they tick hourly and use this to act once at the intended New York hour.
+ */
+export function isTradingDayHour(hour: number, now: Date = new Date()): boolean {
+  const time = toExchangeTime(now);
+  return time.hour === hour && isTradingDay(time.date);
+}
+
+/**
+ * "Mon, Oct 19, 2026, 9:30 AM ET"
+ */
+export function formatExchangeTime(instant: Date): string {
+  return `${instant.toLocaleString('en-US', {
+    timeZone: MARKET_CALENDAR_CONFIG.TIMEZONE,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })} ET`;
+}
+
+function findSession(now: Date, matches: (session: MarketSession) => boolean): MarketSession {
+  let date = toExchangeTime(now).date;
+  for (let i = 0; i <= SEARCH_DAYS; i++, date = addDays(date, 1)) {
+    const session = getSession(date);
+    if (session && matches(session)) return session;
+  }
+  throw new Error(`No market session within ${SEARCH_DAYS} days of ${now.toISOString()}`);
+}
+
+function exchangeParts(timestamp: number): Record<string, string> {
+  return Object.fromEntries(
+    exchangeFormat.formatToParts(new Date(timestamp)).map(part => [part.type, part.value])
+  );
+}
+
+// Exchange clock minus UTC at the instant, in ms (negative for New York)
+function offsetMs(timestamp: number): number {
+  const parts = exchangeParts(timestamp);
+  const asUtc = Date.UTC(
+    Number(parts.year), Number(parts.month) - 1, Number(parts.day),
+    Number(parts.hour), Number(parts.minute), Number(parts.second)
+  );
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T12:00:00Z`).getUTCDay();
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T12:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
@@ -0,0 +1,87 @@
+/**
+ * Market calendar: NYSE holidays, early closes and DST-aware session times in exchange time
+ */
+
+import { assert, assertEquals } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import {
+  NYSE_EARLY_CLOSES,
+  NYSE_HOLIDAYS,
+  getHoliday,
+  getMinutesToClose,
+  getNextClose,
+  getNextOpen,
+  getSession,
+  getTradingSessionDate,
+  isMarketOpen,
+  isTradingDay,
+  toExchangeTime
+} from './marketCalendar.ts';
+
+const at = (iso: string) => new Date(iso);
+
+Deno.test("holiday and early-close tables only list weekdays and never overlap", () => {
+  for (const date of [...Object.keys(NYSE_HOLIDAYS), ...Object.keys(NYSE_EARLY_CLOSES)]) {
+    const weekday = new Date(`${date}T12:00:00Z`).getUTCDay();
+    assert(weekday !== 0 && weekday !== 6, `${date} falls on a weekend`);
+  }
+  for (const date of Object.keys(NYSE_EARLY_CLOSES)) {
+    assert(!NYSE_HOLIDAYS[date], `${date} is both a holiday and an early close`);
+  }
+});
+
+Deno.test("holidays and weekends have no session", () => {
+  assertEquals(getHoliday('2026-11-26'), 'Thanksgiving Day');
+  assertEquals(isTradingDay('2026-11-26'), false);
+  assertEquals(getSession('2026-11-26'), null);
+  assertEquals(getSession('2026-07-03'), null); // Independence Day observed on the Friday
+  assertEquals(getSession('2026-10-24'), null); // Saturday
+  assertEquals(getHoliday('2026-10-19'), null);
+});
+
+Deno.test("sessions open and close at exchange time across the DST change", () => {
+  // EDT (UTC-4)
+  assertEquals(getSession('2026-10-19')?.open.toISOString(), '2026-10-19T13:30:00.000Z');
+  assertEquals(getSession('2026-10-19')?.close.toISOString(), '2026-10-19T20:00:00.000Z');
+  // EST (UTC-5) after the first Sunday of November
+  assertEquals(getSession('2026-11-02')?.open.toISOString(), '2026-11-02T14:30:00.000Z');
+  assertEquals(getSession('2026-11-02')?.close.toISOString(), '2026-11-02T21:00:00.000Z');
+});
+
+Deno.test("early-close sessions end at 1 PM ET", () => {
+  const session = getSession('2026-11-27');
+  assertEquals(session?.early_close, 'Day after Thanksgiving');
+  assertEquals(session?.close.toISOString(), '2026-11-27T18:00:00.000Z');
+  assertEquals(getSession('2026-10-19')?.early_close, null);
+});
+
+Deno.test("isMarketOpen and getMinutesToClose follow the session bounds", () => {
+  assertEquals(isMarketOpen(at('2026-10-19T13:29:00Z')), false);
+  assertEquals(isMarketOpen(at('2026-10-19T13:30:00Z')), true);
+  assertEquals(isMarketOpen(at('2026-10-19T20:00:00Z')), false);
+  assertEquals(isMarketOpen(at('2026-11-27T18:30:00Z')), false);
+  assertEquals(getMinutesToClose(at('2026-10-19T19:30:00Z')), 30);
+  assertEquals(getMinutesToClose(at('2026-10-19T21:00:00Z')), null);
+});
+
+Deno.test("next open and close skip weekends, holidays and honour early closes", () => {
+  // Wednesday after the close: Thursday is Thanksgiving, Friday closes early
+  const wednesdayEvening = at('2026-11-25T22:00:00Z');
+  assertEquals(getNextOpen(wednesdayEvening).toISOString(), '2026-11-27T14:30:00.000Z');
+  assertEquals(getNextClose(wednesdayEvening).toISOString(), '2026-11-27T18:00:00.000Z');
+
+  // Friday after the close rolls to Monday
+  assertEquals(getNextOpen(at('2026-10-23T21:00:00Z')).toISOString(), '2026-10-26T13:30:00.000Z');
+
+  // While open, the next close is today's
+  assertEquals(getNextClose(at('2026-10-19T15:00:00Z')).toISOString(), '2026-10-19T20:00:00.000Z');
+});
+
+Deno.test("exchange date and session date do not follow the UTC date", () => {
+  // 10 PM ET on Monday is already Tuesday in UTC
+  const mondayNight = at('2026-10-20T02:00:00Z');
+  assertEquals(toExchangeTime(mondayNight), { date: '2026-10-19', weekday: 1, hour: 22, minute: 0 });
+  assertEquals(getTradingSessionDate(mondayNight), '2026-10-20');
+
+  assertEquals(getTradingSessionDate(at('2026-10-19T15:00:00Z')), '2026-10-19');
+  assertEquals(getTradingSessionDate(at('2026-10-24T15:00:00Z')), '2026-10-26');
+});
@@ -0,0 +1,66 @@
+/**
+ * MCP Content - Helpers for reading MCP tool results
+ * Quiver tools answer with text, or in JSON mode with an application/json resource
+ * holding the records followed by a short text summary.
+ */
+
+export interface JsonResourceContent {
+  type: 'resource';
+  resource: { uri: string; mimeType: string; text: string };
+}
+
+function contentItems(result: unknown): Array<Record<string, unknown>> {
+  const content = result && typeof result === 'object' ? (result as { content?: unknown }).content : undefined;
+  return Array.isArray(content) ? content.filter(item => !!item && typeof item === 'object') : [];
+}
+
+/**
+ * All text items of a tool result, joined by newlines
+ */
+export function getTextContent(result: unknown): string {
+  return contentItems(result)
+    .filter(item => item.type === 'text' && typeof item.text === 'string')
+    .map(item => item.text as string)
+    .join('\n')
+    .trim();
+}
+
+/**
+ * The first application/json resource of a tool result, or null
+ */
+export function getJsonResource(result: unknown): JsonResourceContent | null {
+  for (const item of contentItems(result)) {
+    const resource = item.resource as Record<string, unknown> | undefined;
+    if (item.type === 'resource' && resource?.mimeType === 'application/json' && typeof resource.text === 'string') {
+      return item as unknown as JsonResourceContent;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parsed body of the first JSON resource; undefined when there is none or it is malformed
+ */
+export function getJsonContent(result: unknown): unknown {
+  const resource = getJsonResource(result);
+  if (!resource) return undefined;
+
+  try {
+    return JSON.parse(resource.resource.text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Records from a JSON body shaped as an array, { records: [...] } or { data: [...] }
+ */
+export function getJsonRecords(body: unknown): unknown[] | null {
+  if (Array.isArray(body)) return body;
+  if (body && typeof body === 'object') {
+    const { records, data } = body as { records?: unknown; data?: unknown };
+    if (Array.isArray(records)) return records;
+    if (Array.isArray(data)) return data;
+  }
+  return null;
+}
@@ -0,0 +1,221 @@
+/**
+ * Technical Indicators - Pure functions over daily OHLCV series (oldest first)
+ * Every function returns null when the series is too short for its period.
+ */
+
+import { MarketDataResponse, PriceBar } from '../types/interfaces.ts';
+
+export interface BollingerBands {
+  upper: number;
+  middle: number;
+  lower: number;
+  bandwidth: number; // (upper - lower) / middle
+  percent_b: number; // Position of the last close within the bands (0 = lower, 1 = upper)
+}
+
+export interface MACDResult {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+/** Field names match what BreakoutProbabilityService and the prompts look for */
+export interface SymbolIndicators {
+  symbol: string;
+  as_of: string;
+  close: number;
+  rsi: number | null;
+  sma20: number | null;
+  sma50: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  atr: number | null;
+  bollinger: BollingerBands | null;
+  macd: MACDResult | null;
+  relative_volume: number | null;
+  historical_volatility: number | null; // Annualized
+}
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+export function sma(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  return mean(values.slice(-period));
+}
+
+/**
+ * EMA series seeded with the SMA of the first period; element 0 aligns with values[period - 1]
+ */
+export function emaSeries(values: number[], period: number): number[] {
+  if (period <= 0 || values.length < period) return [];
+
+  const k = 2 / (period + 1);
+  const series = [mean(values.slice(0, period))];
+  for (let i = period; i < values.length; i++) {
+    series.push(values[i] * k + series[series.length - 1] * (1 - k));
+  }
+  return series;
+}
+
+export function ema(values: number[], period: number): number | null {
+  const series = emaSeries(values, period);
+  return series.length > 0 ? series[series.length - 1] : null;
+}
+
+/**
+ * Wilder's RSI
+ */
+export function rsi(closes: number[], period: number = 14): number | null {
+  if (period <= 0 || closes.length <= period) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain += Math.max(change, 0) / period;
+    avgLoss += Math.max(-change, 0) / period;
+  }
+
+  for (let i = period + 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * Wilder's average true range
+ */
+export function atr(bars: PriceBar[], period: number = 14): number | null {
+  if (period <= 0 || bars.length <= period) return null;
+
+  const trueRanges = bars.slice(1).map((bar, i) => {
+    const previousClose = bars[i].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+  });
+
+  let value = mean(trueRanges.slice(0, period));
+  for (let i = period; i < trueRanges.length; i++) {
+    value = (value * (period - 1) + trueRanges[i]) / period;
+  }
+  return value;
+}
+
+export function bollingerBands(closes: number[], period: number = 20, stdDevs: number = 2): BollingerBands | null {
+  if (period <= 0 || closes.length < period) return null;
+
+  const window = closes.slice(-period);
+  const middle = mean(window);
+  const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - middle) ** 2, 0) / period);
+  const upper = middle + stdDevs * deviation;
+  const lower = middle - stdDevs * deviation;
+  const close = closes[closes.length - 1];
+
+  return {
+    upper,
+    middle,
+    lower,
+    bandwidth: middle !== 0 ? (upper - lower) / middle : 0,
+    percent_b: upper !== lower ? (close - lower) / (upper - lower) : 0.5
+  };
+}
+
+export function macd(closes: number[], fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9): MACDResult | null {
+  if (fastPeriod >= slowPeriod || closes.length < slowPeriod + signalPeriod - 1) return null;
+
+  const fast = emaSeries(closes, fastPeriod);
+  const slow = emaSeries(closes, slowPeriod);
+  const offset = slowPeriod - fastPeriod; // Align fast[offset + j] with slow[j]
+  const macdLine = slow.map((slowValue, j) => fast[offset + j] - slowValue);
+  const signal = ema(macdLine, signalPeriod);
+  if (signal === null) return null;
+
+  const latest = macdLine[macdLine.length - 1];
+  return { macd: latest, signal, histogram: latest - signal };
+}
+
+/**
+ * Last bar's volume relative to the average of the preceding bars
+ */
+export function relativeVolume(volumes: number[], period: number = 20): number | null {
+  if (period <= 0 || volumes.length < period + 1) return null;
+
+  const average = mean(volumes.slice(-period - 1, -1));
+  return average > 0 ? volumes[volumes.length - 1] / average : null;
+}
+
+/**
+ * Annualized standard deviation of daily log returns
+ */
+export function historicalVolatility(closes: number[], period: number = 20, periodsPerYear: number = TRADING_DAYS_PER_YEAR): number | null {
+  if (period < 2 || closes.length < period + 1) return null;
+
+  const window = closes.slice(-period - 1);
+  const returns = window.slice(1).map((close, i) => Math.log(close / window[i]));
+  const average = mean(returns);
+  const variance = returns.reduce((sum, r) => sum + (r - average) ** 2, 0) / (returns.length - 1);
+  return Math.sqrt(variance) * Math.sqrt(periodsPerYear);
+}
+
+export function computeIndicators(symbol: string, bars: PriceBar[]): SymbolIndicators | null {
+  if (bars.length === 0) return null;
+
+  const closes = bars.map(bar => bar.close);
+  const volumes = bars.map(bar => bar.volume);
+
+  return {
+    symbol,
+    as_of: bars[bars.length - 1].date,
+    close: closes[closes.length - 1],
+    rsi: rsi(closes, 14),
+    sma20: sma(closes, 20),
+    sma50: sma(closes, 50),
+    ema12: ema(closes, 12),
+    ema26: ema(closes, 26),
+    atr: atr(bars, 14),
+    bollinger: bollingerBands(closes, 20, 2),
+    macd: macd(closes, 12, 26, 9),
+    relative_volume: relativeVolume(volumes, 20),
+    historical_volatility: historicalVolatility(closes, 20)
+  };
+}
+
+/**
+ * Compute indicators for every symbol in marketData.price_data and add them to marketData.indicators
+ */
+export function withIndicators(marketData: MarketDataResponse): MarketDataResponse {
+  const indicators: Record<string, unknown> = { ...(marketData.indicators || {}) };
+
+  for (const [symbol, priceData] of Object.entries(marketData.price_data || {})) {
+    const symbolIndicators = computeIndicators(symbol, priceData.bars);
+    if (symbolIndicators) indicators[symbol] = symbolIndicators;
+  }
+
+  return { ...marketData, indicators };
+}
+
+/**
+ * One compact line per symbol for AI prompts
+ */
+export function formatIndicatorSummary(indicators: Record<string, unknown>): string {
+  const format = (value: number | null | undefined, digits: number = 2) =>
+    value === null || value === undefined ? 'n/a' : value.toFixed(digits);
+
+  return Object.values(indicators)
+    .filter((value): value is SymbolIndicators =>
+      !!value && typeof value === 'object' && 'symbol' in value && 'as_of' in value
+    )
+    .map(i =>
+      `${i.symbol}: close ${format(i.close)}, RSI ${format(i.rsi, 1)}, SMA20 ${format(i.sma20)}, SMA50 ${format(i.sma50)}, ` +
+      `MACD hist ${format(i.macd?.histogram, 3)}, ATR ${format(i.atr)}, %B ${format(i.bollinger?.percent_b)}, ` +
+      `RVOL ${format(i.relative_volume)}x, HV ${i.historical_volatility === null ? 'n/a' : `${(i.historical_volatility * 100).toFixed(1)}%`}`
+    )
+    .join('\n');
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
@@ -0,0 +1,89 @@
+/**
+ * Technical indicator tests against published and closed-form reference series
+ */
+
+import { assertAlmostEquals, assertEquals, assertExists } from "https://deno.land/std@0.208.0/assert/mod.ts";
+import { PriceBar } from '../types/interfaces.ts';
+import { atr, bollingerBands, historicalVolatility, macd, rsi } from './technicalIndicators.ts';
+
+// Wilder RSI worked example (StockCharts "RSI" ChartSchool sheet)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+  46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+  43.42, 42.66, 43.13
+];
+// Published RSI(14) from the 15th close on; the sheet works from unrounded closes, hence the 0.1 tolerance
+const RSI_PUBLISHED = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87,
+  45.46, 37.30, 33.08, 37.77
+];
+
+function bar(date: string, high: number, low: number, close: number): PriceBar {
+  return { date, symbol: 'TEST', open: close, high, low, close, volume: 1000 };
+}
+
+Deno.test("rsi matches the published Wilder example", () => {
+  RSI_PUBLISHED.forEach((expected, i) => {
+    const value = rsi(RSI_CLOSES.slice(0, 15 + i));
+    assertExists(value);
+    assertAlmostEquals(value, expected, 0.1);
+  });
+});
+
+Deno.test("rsi handles one-way and flat series", () => {
+  assertEquals(rsi(RSI_CLOSES.slice(0, 14)), null);
+  assertEquals(rsi(Array.from({ length: 20 }, (_, i) => 100 + i)), 100);
+  assertEquals(rsi(Array.from({ length: 20 }, (_, i) => 100 - i)), 0);
+  assertEquals(rsi(Array(20).fill(100)), 50);
+});
+
+Deno.test("atr averages true range with Wilder smoothing", () => {
+  // Constant $1 ranges, then a gap up whose true range runs from the prior close
+  const bars = Array.from({ length: 15 }, (_, i) => bar(`2024-01-${String(i + 1).padStart(2, '0')}`, 10.5, 9.5, 10));
+  assertEquals(atr(bars.slice(0, 14)), null);
+  assertAlmostEquals(atr(bars) as number, 1);
+
+  bars.push(bar('2024-01-16', 13, 12, 12.5));
+  assertAlmostEquals(atr(bars) as number, (1 * 13 + 3) / 14);
+});
+
+Deno.test("macd of a linear series is the EMA lag difference", () => {
+  // An SMA-seeded EMA of a unit-slope line trails it by (period - 1) / 2 from the first value
+  const closes = Array.from({ length: 60 }, (_, i) => 50 + i);
+  const result = macd(closes);
+  assertExists(result);
+  assertAlmostEquals(result.macd, (26 - 1) / 2 - (12 - 1) / 2);
+  assertAlmostEquals(result.signal, 7);
+  assertAlmostEquals(result.histogram, 0);
+
+  assertEquals(macd(closes.slice(0, 33)), null);
+  assertExists(macd(closes.slice(0, 34)));
+});
+
+Deno.test("bollingerBands uses the population deviation of the window", () => {
+  // Alternating 9/11 has mean 10 and population deviation 1
+  const closes = [50, ...Array.from({ length: 20 }, (_, i) => (i % 2 === 0 ? 9 : 11))];
+  const bands = bollingerBands(closes);
+  assertExists(bands);
+  assertAlmostEquals(bands.middle, 10);
+  assertAlmostEquals(bands.upper, 12);
+  assertAlmostEquals(bands.lower, 8);
+  assertAlmostEquals(bands.bandwidth, 0.4);
+  assertAlmostEquals(bands.percent_b, 0.75);
+
+  assertEquals(bollingerBands(closes.slice(0, 19)), null);
+});
+
+Deno.test("historicalVolatility annualizes the sample deviation of log returns", () => {
+  // Log returns alternate +r / -r: mean 0, sample variance 20r² / 19
+  const r = 0.01;
+  const closes = [100];
+  for (let i = 0; i < 20; i++) {
+    closes.push(closes[i] * Math.exp(i % 2 === 0 ? r : -r));
+  }
+
+  assertAlmostEquals(historicalVolatility(closes) as number, r * Math.sqrt(20 / 19) * Math.sqrt(252), 1e-9);
+  assertAlmostEquals(historicalVolatility(closes, 20, 1) as number, r * Math.sqrt(20 / 19), 1e-9);
+  assertEquals(historicalVolatility(closes.slice(0, 20)), null);
+  assertEquals(historicalVolatility(Array(21).fill(100)), 0);
+});
@@ -9,11 +9,22 @@ import {
   TradingLogger, 
   AgentState, 
   AccountDetails,
-  TestResult 
+  TestResult,
+  TradeMetadataFilter
 } from './types/interfaces.ts';
 import { IMarketDataService, ITradingService, IEmailService, IDatabaseService, IAIService } from './types/interfaces.ts';
 import { WEB_SERVER_CONFIG } from './config.ts';
 
+// /api/trade-metadata values go into the database filter, so only these shapes are accepted
+const TRADE_METADATA_FILTER_PATTERNS: Record<keyof TradeMetadataFilter, RegExp> = {
+  symbol: /^[A-Z][A-Z0-9.]{0,9}$/,
+  trade_id: /^[A-Za-z0-9-]{1,64}$/,
+  trade_plan_id: /^[A-Za-z0-9:_.-]{1,128}$/,
+  order_id: /^[A-Za-z0-9-]{1,64}$/
+};
+const TRADE_METADATA_DEFAULT_LIMIT = 50;
+const TRADE_METADATA_MAX_LIMIT = 500;
+
 export class WebServer {
   private logger: TradingLogger;
   private config: WebServerConfig;
@@ -214,6 +225,15 @@ export class WebServer {
         return this.createJsonResponse(trades);
       }
 
+      case 'trade-metadata': {
+        const query = this.parseTradeMetadataQuery(url);
+        if ('error' in query) {
+          return this.createErrorResponse(query.error, 400);
+        }
+        const metadata = await this.databaseService.getTradeMetadata(query.filter, query.limit);
+        return this.createJsonResponse(metadata);
+      }
+
       case 'account': {
         const accountDetails = await this.tradingService.getAccountDetails();
         return this.createJsonResponse(accountDetails);
@@ -738,6 +758,32 @@ export class WebServer {
     });
   }
 
+  /**
+   * Whitelisted filter values and a clamped limit for /api/trade-metadata
+   */
+  private parseTradeMetadataQuery(url: URL): { filter: TradeMetadataFilter; limit: number } | { error: string } {
+    const filter: TradeMetadataFilter = {};
+
+    for (const key of Object.keys(TRADE_METADATA_FILTER_PATTERNS) as (keyof TradeMetadataFilter)[]) {
+      const raw = url.searchParams.get(key);
+      if (!raw) continue;
+
+      const value = key === 'symbol' ? raw.trim().toUpperCase() : raw.trim();
+      if (!TRADE_METADATA_FILTER_PATTERNS[key].test(value)) {
+        return { error: `Invalid ${key}` };
+      }
+      filter[key] = value;
+    }
+
+    const rawLimit = url.searchParams.get("limit");
+    const parsedLimit = rawLimit === null ? TRADE_METADATA_DEFAULT_LIMIT : Number(rawLimit);
+    if (!Number.isInteger(parsedLimit)) {
+      return { error: 'Invalid limit' };
+    }
+
+    return { filter, limit: Math.min(Math.max(parsedLimit, 1), TRADE_METADATA_MAX_LIMIT) };
+  }
+
   private createNotFoundResponse(): Response {
     return new Response("Not Found", { status: 404 });
   }
@@ -0,0 +1,37 @@
+// Quiver Quant REST API client, shared by the MCP server and the fixture recorder
+
+export const QUIVER_API_BASE = 'https://api.quiverquant.com/beta';
+
+// Returns null on any HTTP or network error so callers can fall back to cached data
+export async function fetchQuiver<T>(
+  endpoint: string,
+  params: Record<string, string> | undefined,
+  token: string | undefined,
+): Promise<T | null> {
+  const url = new URL(`${QUIVER_API_BASE}${endpoint}`);
+
+  // Add query parameters if provided
+  if (params) {
+    Object.entries(params).forEach(([key, value]) => {
+      if (value) {
+        url.searchParams.append(key, value);
+      }
+    });
+  }
+
+  const headers = {
+    "Accept": "application/json",
+    "Authorization": `Bearer ${token}`,
+  };
+
+  try {
+    const response = await fetch(url.toString(), { headers });
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+    return (await response.json()) as T;
+  } catch (error) {
+    console.error("Error making Quiver API request:", error);
+    return null;
+  }
+}
@@ -0,0 +1,216 @@
+// Response cache for Quiver API requests
+// - Keyed by endpoint and query params, with per-endpoint TTLs
+// - Stale-while-revalidate: recently expired entries are served while a background refresh runs
+// - Persisted to a local directory so restarts don't re-pay for data that is still fresh
+
+export interface CacheOptions {
+  directory: string | null; // null keeps the cache in memory only
+  defaultTtlMs: number;
+  ttlByEndpoint: Record<string, number>; // Exact endpoint or path prefix; the longest match wins
+  staleWhileRevalidateMs: number; // How long past its TTL an entry may still be served
+}
+
+export interface CacheStats {
+  hits: number;
+  stale_hits: number;
+  misses: number;
+  revalidations: number;
+  fetch_errors: number;
+  stale_on_error: number; // Expired entries served because the live request failed
+  disk_reads: number;
+  disk_writes: number;
+  entries: number;
+  hit_rate: number;
+  persistence: string;
+}
+
+interface CacheEntry {
+  key: string;
+  endpoint: string;
+  params: Record<string, string>;
+  data: unknown;
+  fetched_at: number;
+}
+
+export class ResponseCache {
+  private options: CacheOptions;
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Promise<unknown | null>>();
+  private directoryReady = false;
+  private stats = {
+    hits: 0,
+    stale_hits: 0,
+    misses: 0,
+    revalidations: 0,
+    fetch_errors: 0,
+    stale_on_error: 0,
+    disk_reads: 0,
+    disk_writes: 0,
+  };
+
+  constructor(options: CacheOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Return cached data for the request, calling fetcher on a miss or in the background
+   * when the entry is stale. A fetcher result of null counts as a failed request.
+   */
+  async get<T>(
+    endpoint: string,
+    params: Record<string, string> | undefined,
+    fetcher: () => Promise<T | null>,
+  ): Promise<T | null> {
+    const normalized = normalizeParams(params);
+    const key = cacheKey(endpoint, normalized);
+    const entry = this.entries.get(key) ?? await this.readFromDisk(key);
+    const ttl = this.ttlFor(endpoint);
+
+    if (entry) {
+      const age = Date.now() - entry.fetched_at;
+      if (age < ttl) {
+        this.stats.hits++;
+        return entry.data as T;
+      }
+      if (age < ttl + this.options.staleWhileRevalidateMs) {
+        this.stats.stale_hits++;
+        this.revalidate(key, endpoint, normalized, fetcher);
+        return entry.data as T;
+      }
+    }
+
+    this.stats.misses++;
+    const data = await this.fetchAndStore(key, endpoint, normalized, fetcher);
+    if (data === null && entry) {
+      this.stats.stale_on_error++;
+      return entry.data as T;
+    }
+    return data;
+  }
+
+  getStats(): CacheStats {
+    const served = this.stats.hits + this.stats.stale_hits + this.stats.misses;
+    return {
+      ...this.stats,
+      entries: this.entries.size,
+      hit_rate: served > 0 ? (this.stats.hits + this.stats.stale_hits) / served : 0,
+      persistence: this.options.directory ?? 'disabled',
+    };
+  }
+
+  private ttlFor(endpoint: string): number {
+    const match = Object.keys(this.options.ttlByEndpoint)
+      .filter((prefix) => endpoint.startsWith(prefix))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? this.options.ttlByEndpoint[match] : this.options.defaultTtlMs;
+  }
+
+  private revalidate<T>(
+    key: string,
+    endpoint: string,
+    params: Record<string, string>,
+    fetcher: () => Promise<T | null>,
+  ): void {
+    if (this.inflight.has(key)) return;
+    this.stats.revalidations++;
+    this.fetchAndStore(key, endpoint, params, fetcher).catch((error) => {
+      console.error(`Cache revalidation failed for ${key}:`, error);
+    });
+  }
+
+  /**
+   * Fetch once per key at a time; concurrent callers share the same request
+   */
+  private fetchAndStore<T>(
+    key: string,
+    endpoint: string,
+    params: Record<string, string>,
+    fetcher: () => Promise<T | null>,
+  ): Promise<T | null> {
+    const pending = this.inflight.get(key);
+    if (pending) return pending as Promise<T | null>;
+
+    const request = (async () => {
+      try {
+        const data = await fetcher();
+        if (data === null) {
+          this.stats.fetch_errors++;
+          return null;
+        }
+
+        const entry: CacheEntry = { key, endpoint, params, data, fetched_at: Date.now() };
+        this.entries.set(key, entry);
+        await this.writeToDisk(entry);
+        return data;
+      } finally {
+        this.inflight.delete(key);
+      }
+    })();
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  private async readFromDisk(key: string): Promise<CacheEntry | null> {
+    if (!this.options.directory) return null;
+
+    try {
+      const entry = JSON.parse(await Deno.readTextFile(await this.pathFor(key))) as CacheEntry;
+      if (entry.key !== key) return null;
+      this.entries.set(key, entry);
+      this.stats.disk_reads++;
+      return entry;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) this.handleDiskError(error);
+      return null;
+    }
+  }
+
+  private async writeToDisk(entry: CacheEntry): Promise<void> {
+    if (!this.options.directory) return;
+
+    try {
+      if (!this.directoryReady) {
+        await Deno.mkdir(this.options.directory, { recursive: true });
+        this.directoryReady = true;
+      }
+
+      // Write then rename so a crash never leaves a half-written entry
+      const path = await this.pathFor(entry.key);
+      await Deno.writeTextFile(`${path}.tmp`, JSON.stringify(entry));
+      await Deno.rename(`${path}.tmp`, path);
+      this.stats.disk_writes++;
+    } catch (error) {
+      this.handleDiskError(error);
+    }
+  }
+
+  private handleDiskError(error: unknown): void {
+    if (error instanceof Deno.errors.PermissionDenied) {
+      console.error(`Cache persistence disabled - no read/write access to ${this.options.directory}`);
+      this.options.directory = null;
+      return;
+    }
+    console.error('Cache disk error:', error);
+  }
+
+  private async pathFor(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+    const name = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    return `${this.options.directory}/${name}.json`;
+  }
+}
+
+function normalizeParams(params?: Record<string, string>): Record<string, string> {
+  // Empty values are never sent to the API, so they must not split the cache
+  return Object.fromEntries(
+    Object.entries(params ?? {})
+      .filter(([, value]) => value)
+      .sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+function cacheKey(endpoint: string, params: Record<string, string>): string {
+  const query = new URLSearchParams(params).toString();
+  return query ? `${endpoint}?${query}` : endpoint;
+}
@@ -0,0 +1,179 @@
+// Recorded Quiver responses, for running the MCP server without an API token
+// - One JSON file per endpoint and params under the fixture directory
+// - Dates are shifted by whole weeks so the data looks live relative to a simulated clock
+// - Missing filtered or per-ticker recordings fall back to filtering the unfiltered live recording
+
+export interface FixtureOptions {
+  directory: string;
+  now: () => Date; // Simulated clock the recorded dates are shifted towards
+}
+
+export interface FixtureFile<T = unknown> {
+  endpoint: string;
+  params: Record<string, string>;
+  recorded_at: string;
+  data: T;
+}
+
+export interface FixtureStats {
+  directory: string;
+  simulated_now: string;
+  hits: number;
+  fallbacks: number; // Served by filtering a broader recording
+  misses: number;
+}
+
+// Quiver query params and the record field each one filters on
+const FILTER_FIELDS: Record<string, { field: string; exact: boolean }> = {
+  ticker: { field: 'Ticker', exact: true },
+  etf: { field: 'ETF', exact: true },
+  representative: { field: 'Representative', exact: false },
+  insider: { field: 'InsiderName', exact: false },
+  institution: { field: 'InstitutionName', exact: false },
+  client: { field: 'Client', exact: false },
+  registrant: { field: 'Registrant', exact: false },
+  issue: { field: 'IssueAreaGeneral', exact: false },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^(\d{4}-\d{2}-\d{2})(?=$|[T ])/;
+
+export class QuiverFixtures {
+  private options: FixtureOptions;
+  private stats = { hits: 0, fallbacks: 0, misses: 0 };
+
+  constructor(options: FixtureOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Recorded data for the request with dates shifted to the simulated clock, or null
+   * when nothing was recorded for it
+   */
+  async load<T>(endpoint: string, params?: Record<string, string>): Promise<T | null> {
+    const normalized = normalizeParams(params);
+    const exact = await this.read(endpoint, normalized);
+    if (exact) {
+      this.stats.hits++;
+      return this.shift(exact) as T;
+    }
+
+    for (const fallback of fallbacksFor(endpoint, normalized)) {
+      const recording = await this.read(fallback.endpoint, {});
+      if (recording && Array.isArray(recording.data)) {
+        this.stats.fallbacks++;
+        return this.shift({ ...recording, data: filterRecords(recording.data, fallback.filters) }) as T;
+      }
+    }
+
+    this.stats.misses++;
+    console.error(`No Quiver fixture recorded for ${endpoint}${describeParams(normalized)}`);
+    return null;
+  }
+
+  /**
+   * Write a live response as the recording for this endpoint and params
+   */
+  async save(endpoint: string, params: Record<string, string> | undefined, data: unknown): Promise<string> {
+    const normalized = normalizeParams(params);
+    const path = this.pathFor(endpoint, normalized);
+    const file: FixtureFile = { endpoint, params: normalized, recorded_at: new Date().toISOString(), data };
+
+    await Deno.mkdir(path.slice(0, path.lastIndexOf('/')), { recursive: true });
+    await Deno.writeTextFile(path, JSON.stringify(file, null, 2) + '\n');
+    return path;
+  }
+
+  getStats(): FixtureStats {
+    return {
+      ...this.stats,
+      directory: this.options.directory,
+      simulated_now: this.options.now().toISOString(),
+    };
+  }
+
+  private async read(endpoint: string, params: Record<string, string>): Promise<FixtureFile | null> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.pathFor(endpoint, params))) as FixtureFile;
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) {
+        console.error(`Failed to read Quiver fixture for ${endpoint}:`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Shift by whole weeks so weekdays are preserved; the newest recorded date never passes the clock
+   */
+  private shift(file: FixtureFile): unknown {
+    const elapsedWeeks = Math.floor((this.options.now().getTime() - new Date(file.recorded_at).getTime()) / (7 * DAY_MS));
+    return elapsedWeeks === 0 ? file.data : shiftDates(file.data, elapsedWeeks * 7);
+  }
+
+  // <directory>/live/insiders.json, <directory>/live/insiders@ticker%3DAAPL.json
+  private pathFor(endpoint: string, params: Record<string, string>): string {
+    const query = new URLSearchParams(params).toString();
+    return `${this.options.directory}${endpoint}${query ? `@${encodeURIComponent(query)}` : ''}.json`;
+  }
+}
+
+/**
+ * Move every ISO date string (YYYY-MM-DD, optionally followed by a time) in the value by days
+ */
+export function shiftDates(value: unknown, days: number): unknown {
+  if (typeof value === 'string') {
+    const match = value.match(ISO_DATE);
+    if (!match) return value;
+    const shifted = new Date(Date.parse(`${match[1]}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+    return shifted + value.slice(match[1].length);
+  }
+  if (Array.isArray(value)) return value.map((item) => shiftDates(item, days));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, shiftDates(item, days)]));
+  }
+  return value;
+}
+
+// Broader recordings that can answer the request: the unfiltered endpoint, and for
+// /historical/<dataset>/<ticker> the live recording of the same dataset
+function fallbacksFor(endpoint: string, params: Record<string, string>) {
+  const fallbacks: Array<{ endpoint: string; filters: Record<string, string> }> = [];
+  if (Object.keys(params).length > 0) {
+    fallbacks.push({ endpoint, filters: params });
+  }
+
+  const historical = endpoint.match(/^\/historical\/([^/]+)\/([^/]+)$/);
+  if (historical) {
+    fallbacks.push({
+      endpoint: `/live/${historical[1]}`,
+      filters: { ...params, ticker: decodeURIComponent(historical[2]) },
+    });
+  }
+  return fallbacks;
+}
+
+function filterRecords(records: unknown[], filters: Record<string, string>): unknown[] {
+  return records.filter((record) =>
+    Object.entries(filters).every(([key, value]) => {
+      const filter = FILTER_FIELDS[key];
+      if (!filter) return true; // Options like normalized don't filter
+
+      const field = String((record as Record<string, unknown>)?.[filter.field] ?? '').toLowerCase();
+      return filter.exact ? field === value.toLowerCase() : field.includes(value.toLowerCase());
+    })
+  );
+}
+
+function normalizeParams(params?: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(params ?? {})
+      .filter(([, value]) => value)
+      .sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
+
+function describeParams(params: Record<string, string>): string {
+  const query = new URLSearchParams(params).toString();
+  return query ? `?${query}` : '';
+}
@@ -1,10 +1,43 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
 import { z } from "zod";
+import { ResponseCache } from "./cache.ts";
+import { fetchQuiver } from "./api.ts";
+import { QuiverFixtures } from "./fixtures.ts";
 
-const QUIVER_API_BASE = "https://api.quiverquant.com/beta";
 const API_TOKEN = Deno.env.get('QUIVER_API_TOKEN');
 const PORT = parseInt(Deno.env.get('PORT') || "8081");
+const MCP_AUTH_TOKEN = Deno.env.get('MCP_AUTH_TOKEN') || ""; // Required for MCP over HTTP
+
+// Response cache - Quiver datasets update at most a few times a day
+const HOUR_MS = 60 * 60 * 1000;
+const quiverCache = new ResponseCache({
+  directory: Deno.env.get('QUIVER_CACHE_DIR') ?? "./.cache/quiver", // Empty string disables persistence
+  defaultTtlMs: HOUR_MS,
+  ttlByEndpoint: {
+    "/live/congresstrading": 4 * HOUR_MS,
+    "/live/insiders": HOUR_MS,
+    "/live/lobbying": 24 * HOUR_MS,
+    "/live/thirteenf": 24 * HOUR_MS,
+    "/live/offexchange": 12 * HOUR_MS,
+    "/live/etfholdings": 24 * HOUR_MS,
+    "/historical/": 24 * HOUR_MS,
+  },
+  staleWhileRevalidateMs: parseInt(Deno.env.get('QUIVER_CACHE_STALE_HOURS') || "24") * HOUR_MS,
+});
+
+// Data source: "live" calls the Quiver API through the cache, "fixture" serves recorded
+// responses (see record.ts) with dates shifted towards QUIVER_SIMULATED_NOW
+const QUIVER_MODE = Deno.env.get('QUIVER_MODE') === 'fixture' ? 'fixture' : 'live';
+const simulatedNow = new Date(Deno.env.get('QUIVER_SIMULATED_NOW') || NaN);
+const quiverFixtures = new QuiverFixtures({
+  directory: Deno.env.get('QUIVER_FIXTURE_DIR') || new URL("./fixtures/quiver", import.meta.url).pathname,
+  now: isNaN(simulatedNow.getTime()) ? () => new Date() : () => simulatedNow, // Real time unless a valid date is set
+});
 
 // Sleep state management
 let isSleeping = false;
@@ -35,73 +68,201 @@ function wakeUp() {
   resetSleepTimer();
 }
 
-const server = new McpServer({
-  name: "quiver-quant",
-  version: "1.0.0",
-  capabilities: { 
-    resources: {},
-    tools: {},
-  },
-});
+// Each McpServer serves a single transport at a time, so the stdio server and every
+// HTTP session get their own, with the tools from registerTools
+function createMcpServer(): McpServer {
+  const mcpServer = new McpServer({
+    name: "quiver-quant",
+    version: "1.0.0",
+    capabilities: { 
+      resources: {},
+      tools: {},
+    },
+  });
+  registerTools(mcpServer);
+  return mcpServer;
+}
+
+// MCP Streamable HTTP sessions, keyed by the Mcp-Session-Id header
+const MCP_SESSION_IDLE_MS = 60 * 60 * 1000;
+const MAX_REQUEST_BYTES = 4 * 1024 * 1024;
+
+interface McpSession {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+}
+
+const mcpSessions = new Map<string, McpSession>();
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string) {
+  sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+function isAuthorized(req: IncomingMessage): boolean {
+  const expected = new TextEncoder().encode(`Bearer ${MCP_AUTH_TOKEN}`);
+  const received = new TextEncoder().encode(req.headers.authorization || "");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  let body = "";
+  req.setEncoding("utf8");
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_REQUEST_BYTES) throw new Error("Request body too large");
+  }
+  return JSON.parse(body);
+}
+
+// POST sends JSON-RPC messages, GET opens the SSE stream for server messages, DELETE ends the session
+async function handleMcpRequest(req: IncomingMessage, res: ServerResponse) {
+  if (!MCP_AUTH_TOKEN) {
+    sendJson(res, 503, { error: 'MCP over HTTP is disabled - set MCP_AUTH_TOKEN' });
+    return;
+  }
+  if (!isAuthorized(req)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  let body: unknown;
+  if (req.method === 'POST') {
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : error}`);
+      return;
+    }
+  }
+
+  const sessionId = req.headers['mcp-session-id'];
+  const session = typeof sessionId === 'string' ? mcpSessions.get(sessionId) : undefined;
+  if (session) {
+    session.lastActivity = Date.now();
+    await session.transport.handleRequest(req, res, body);
+    return;
+  }
+
+  if (sessionId) {
+    sendJsonRpcError(res, 404, -32001, 'Session not found');
+    return;
+  }
+  if (req.method !== 'POST' || !isInitializeRequest(body)) {
+    sendJsonRpcError(res, 400, -32000, 'Bad Request: no valid session ID provided');
+    return;
+  }
+
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    onsessioninitialized: (id) => {
+      mcpSessions.set(id, { transport, lastActivity: Date.now() });
+      console.error(`🔌 MCP HTTP session opened: ${id} (${mcpSessions.size} active)`);
+    },
+  });
+  transport.onclose = () => {
+    if (transport.sessionId && mcpSessions.delete(transport.sessionId)) {
+      console.error(`🔌 MCP HTTP session closed: ${transport.sessionId} (${mcpSessions.size} active)`);
+    }
+  };
+
+  await createMcpServer().connect(transport);
+  await transport.handleRequest(req, res, body);
+}
+
+// Close sessions whose client went away without sending DELETE
+setInterval(() => {
+  for (const { transport, lastActivity } of mcpSessions.values()) {
+    if (Date.now() - lastActivity > MCP_SESSION_IDLE_MS) {
+      transport.close().catch((error) => console.error("Failed to close idle MCP session:", error));
+    }
+  }
+}, 5 * 60 * 1000);
 
-// Simple HTTP health check for Railway
-const httpServer = Deno.serve({ port: PORT }, (req) => {
-  const url = new URL(req.url);
+// HTTP server for Railway: health check, wake-up and MCP over Streamable HTTP
+const httpServer = createServer((req, res) => {
+  const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
   
   if (url.pathname === '/health') {
-    return new Response(JSON.stringify({ 
+    sendJson(res, 200, { 
       status: 'healthy', 
       timestamp: new Date().toISOString(),
       service: 'quiver-mcp-server',
       isSleeping,
-      lastActivity: new Date(lastActivityTime).toISOString()
-    }), {
-      headers: { 'Content-Type': 'application/json' }
+      lastActivity: new Date(lastActivityTime).toISOString(),
+      mode: QUIVER_MODE,
+      ...(QUIVER_MODE === 'fixture' ? { fixtures: quiverFixtures.getStats() } : { cache: quiverCache.getStats() }),
+      mcp_http: { enabled: !!MCP_AUTH_TOKEN, sessions: mcpSessions.size }
     });
   } else if (url.pathname === '/wake') {
     wakeUp();
-    return new Response(JSON.stringify({ 
+    sendJson(res, 200, { 
       status: 'waking up',
       timestamp: new Date().toISOString()
-    }), {
-      headers: { 'Content-Type': 'application/json' }
+    });
+  } else if (url.pathname === '/mcp') {
+    handleMcpRequest(req, res).catch((error) => {
+      console.error("Error handling MCP HTTP request:", error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
     });
   } else {
-    return new Response('Not found', { status: 404 });
+    res.writeHead(404);
+    res.end('Not found');
   }
 });
 
-console.log(`🚀 Quiver MCP Server health check listening on port ${PORT}`);
+httpServer.listen(PORT, () => {
+  console.log(`🚀 Quiver MCP Server HTTP listening on port ${PORT} (health, wake${MCP_AUTH_TOKEN ? ", MCP at /mcp" : ""})`);
+});
 
 // H E L P E R    F U N C T I O N S
 
-async function makeQuiverRequest<T>(endpoint: string, params?: Record<string, string>): Promise<T | null> {
-  const url = new URL(`${QUIVER_API_BASE}${endpoint}`);
-  
-  // Add query parameters if provided
-  if (params) {
-    Object.entries(params).forEach(([key, value]) => {
-      if (value) {
-        url.searchParams.append(key, value);
-      }
-    });
+// Quiver data for the endpoint: recorded fixtures in fixture mode, otherwise the cached
+// API request (see ResponseCache for TTL and stale handling)
+function makeQuiverRequest<T>(endpoint: string, params?: Record<string, string>): Promise<T | null> {
+  if (QUIVER_MODE === 'fixture') {
+    return quiverFixtures.load<T>(endpoint, params);
   }
+  return quiverCache.get<T>(endpoint, params, () => fetchQuiver<T>(endpoint, params, API_TOKEN));
+}
 
-  const headers = {
-    "Accept": "application/json",
-    "Authorization": `Bearer ${API_TOKEN}`,
+// Output format accepted by every data tool; text stays the default for existing clients
+const formatSchema = z.enum(["text", "json"]).optional()
+  .describe("Response format: 'text' (default) for readable records, 'json' for typed records as an application/json resource plus a text summary");
+
+// JSON mode: the records as an application/json resource, followed by a short text summary
+function jsonToolResponse(endpoint: string, params: Record<string, string>, body: Record<string, unknown>, summary: string) {
+  const query = new URLSearchParams(Object.entries(params).filter(([, value]) => value)).toString();
+  return {
+    content: [
+      {
+        type: "resource" as const,
+        resource: {
+          uri: `quiver:/${endpoint}${query ? `?${query}` : ""}`,
+          mimeType: "application/json",
+          text: JSON.stringify(body),
+        },
+      },
+      {
+        type: "text" as const,
+        text: summary,
+      },
+    ],
   };
+}
 
-  try {
-    const response = await fetch(url.toString(), { headers });
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
-    }
-    return (await response.json()) as T;
-  } catch (error) {
-    console.error("Error making Quiver API request:", error);
-    return null;
-  }
+// "<title>: 12 records (2024-01-02 to 2024-03-28)"
+function summarizeRecords(title: string, dates: Array<string | undefined>): string {
+  const days = dates.map((date) => (date || "").slice(0, 10)).filter(Boolean).sort();
+  const span = days.length > 0 ? ` (${days[0]} to ${days[days.length - 1]})` : "";
+  return `${title}: ${dates.length} record${dates.length === 1 ? "" : "s"}${span}`;
 }
 
 // T Y P E S
@@ -147,119 +308,6 @@ function formatCongressTrade(trade: CongressTrade): string {
 // Q U I V E R   Q U A N T    T O O L S
 // ------------------------------------------------------ //
 
-// Sleep Management Tools
-server.tool(
-  "get_sleep_status",
-  "Get the current sleep status of the QuiverQuant MCP server",
-  {},
-  async () => {
-    wakeUp(); // Wake up when status is requested
-    
-    const status = {
-      isSleeping,
-      lastActivity: new Date(lastActivityTime).toISOString(),
-      timeUntilSleep: SLEEP_DELAY - (Date.now() - lastActivityTime),
-      sleepDelay: SLEEP_DELAY
-    };
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `QuiverQuant MCP Server Status:\n\n` +
-                `Sleep Status: ${isSleeping ? '🛌 Sleeping' : '🌅 Awake'}\n` +
-                `Last Activity: ${new Date(lastActivityTime).toLocaleString()}\n` +
-                `Time Until Sleep: ${Math.max(0, Math.floor((SLEEP_DELAY - (Date.now() - lastActivityTime)) / 1000 / 60))} minutes\n` +
-                `Sleep Delay: ${SLEEP_DELAY / 1000 / 60} minutes of inactivity`
-        },
-      ],
-    };
-  },
-)
-
-server.tool(
-  "wake_up_server",
-  "Wake up the QuiverQuant MCP server if it's sleeping",
-  {},
-  async () => {
-    const wasSleeping = isSleeping;
-    wakeUp();
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: wasSleeping 
-            ? "🌅 QuiverQuant MCP Server has been woken up and is now active"
-            : "✅ QuiverQuant MCP Server was already awake and sleep timer has been reset"
-        },
-      ],
-    };
-  },
-)
-
-// Live Congress Trading
-server.tool(
-  "get_live_congress_trading",
-  "Get the most recent transactions by members of U.S. Congress",
-  {
-    normalized: z.boolean().optional().describe("Normalize representative/senator names"),
-    representative: z.string().optional().describe("Congressperson's name to filter by"),
-  },
-  async ({ normalized, representative }) => {
-    wakeUp(); // Wake up when any tool is used
-    
-    const params: Record<string, string> = {};
-    
-    if (normalized !== undefined) {
-      params.normalized = normalized.toString();
-    }
-    if (representative) {
-      params.representative = representative;
-    }
-
-    const congressData = await makeQuiverRequest<CongressTrade[]>("/live/congresstrading", params);
-
-    if (!congressData) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve Congress trading data",
-          },
-        ],
-      };
-    }
-
-    if (congressData.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: representative 
-              ? `No recent trades found for ${representative}` 
-              : "No recent Congress trades found",
-          },
-        ],
-      };
-    }
-
-    const formattedTrades = congressData.map(formatCongressTrade);
-    const tradesText = representative 
-      ? `Recent trades by ${representative}:\n\n${formattedTrades.join("\n")}`
-      : `Recent Congress trading activity:\n\n${formattedTrades.join("\n")}`;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: tradesText,
-        },
-      ],
-    };
-  },
-)
-
 // Live Insider Trading
 interface InsiderTrade {
   Ticker: string;
@@ -295,65 +343,6 @@ function formatInsiderTrade(trade: InsiderTrade): string {
   ].join("\n");
 }
 
-server.tool(
-  "get_live_insider_trading",
-  "Get the most recent insider trading transactions",
-  {
-    ticker: z.string().optional().describe("Stock ticker symbol to filter by"),
-    insider: z.string().optional().describe("Insider name to filter by"),
-  },
-  async ({ ticker, insider }) => {
-    wakeUp(); // Wake up when any tool is used
-    
-    const params: Record<string, string> = {};
-    
-    if (ticker) {
-      params.ticker = ticker.toUpperCase();
-    }
-    if (insider) {
-      params.insider = insider;
-    }
-
-    const insiderData = await makeQuiverRequest<InsiderTrade[]>("/live/insiders", params);
-
-    if (!insiderData) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve insider trading data",
-          },
-        ],
-      };
-    }
-
-    if (insiderData.length === 0) {
-      const filterText = ticker ? ` for ${ticker}` : insider ? ` by ${insider}` : "";
-      return {
-        content: [
-          {
-            type: "text",
-            text: `No recent insider trades found${filterText}`,
-          },
-        ],
-      };
-    }
-
-    const formattedTrades = insiderData.map(formatInsiderTrade);
-    const filterText = ticker ? ` for ${ticker}` : insider ? ` by ${insider}` : "";
-    const tradesText = `Recent insider trading activity${filterText}:\n\n${formattedTrades.join("\n")}`;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: tradesText,
-        },
-      ],
-    };
-  },
-)
-
 // Live Lobbying
 interface LobbyingRecord {
   Client: string;
@@ -383,67 +372,6 @@ function formatLobbyingRecord(record: LobbyingRecord): string {
   ].join("\n");
 }
 
-server.tool(
-  "get_live_lobbying",
-  "Get the most recent lobbying disclosure records",
-  {
-    client: z.string().optional().describe("Client name to filter by"),
-    registrant: z.string().optional().describe("Registrant/lobbyist name to filter by"),
-    issue: z.string().optional().describe("Issue area to filter by"),
-  },
-  async ({ client, registrant, issue }) => {
-    wakeUp(); // Wake up when any tool is used
-    
-    const params: Record<string, string> = {};
-    
-    if (client) {
-      params.client = client;
-    }
-    if (registrant) {
-      params.registrant = registrant;
-    }
-    if (issue) {
-      params.issue = issue;
-    }
-
-    const lobbyingData = await makeQuiverRequest<LobbyingRecord[]>("/live/lobbying", params);
-
-    if (!lobbyingData) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve lobbying data",
-          },
-        ],
-      };
-    }
-
-    if (lobbyingData.length === 0) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "No recent lobbying records found",
-          },
-        ],
-      };
-    }
-
-    const formattedRecords = lobbyingData.map(formatLobbyingRecord);
-    const recordsText = `Recent lobbying disclosure records:\n\n${formattedRecords.join("\n")}`;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: recordsText,
-        },
-      ],
-    };
-  },
-)
-
 // Live SEC13F Changes
 interface SEC13FChange {
   Ticker: string;
@@ -477,65 +405,6 @@ function formatSEC13FChange(change: SEC13FChange): string {
   ].join("\n");
 }
 
-server.tool(
-  "get_live_sec13f_changes",
-  "Get the most recent SEC 13F institutional holding changes",
-  {
-    ticker: z.string().optional().describe("Stock ticker symbol to filter by"),
-    institution: z.string().optional().describe("Institution name to filter by"),
-  },
-  async ({ ticker, institution }) => {
-    wakeUp(); // Wake up when any tool is used
-    
-    const params: Record<string, string> = {};
-    
-    if (ticker) {
-      params.ticker = ticker.toUpperCase();
-    }
-    if (institution) {
-      params.institution = institution;
-    }
-
-    const sec13fData = await makeQuiverRequest<SEC13FChange[]>("/live/thirteenf", params);
-
-    if (!sec13fData) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve SEC 13F data",
-          },
-        ],
-      };
-    }
-
-    if (sec13fData.length === 0) {
-      const filterText = ticker ? ` for ${ticker}` : institution ? ` by ${institution}` : "";
-      return {
-        content: [
-          {
-            type: "text",
-            text: `No recent SEC 13F changes found${filterText}`,
-          },
-        ],
-      };
-    }
-
-    const formattedChanges = sec13fData.map(formatSEC13FChange);
-    const filterText = ticker ? ` for ${ticker}` : institution ? ` by ${institution}` : "";
-    const changesText = `Recent SEC 13F institutional holding changes${filterText}:\n\n${formattedChanges.join("\n")}`;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: changesText,
-        },
-      ],
-    };
-  },
-)
-
 // Live Off-Exchange
 interface OffExchangeData {
   Ticker: string;
@@ -567,61 +436,6 @@ function formatOffExchangeData(data: OffExchangeData): string {
   ].join("\n");
 }
 
-server.tool(
-  "get_live_off_exchange",
-  "Get the most recent off-exchange trading data",
-  {
-    ticker: z.string().optional().describe("Stock ticker symbol to filter by"),
-  },
-  async ({ ticker }) => {
-    wakeUp(); // Wake up when any tool is used
-    
-    const params: Record<string, string> = {};
-    
-    if (ticker) {
-      params.ticker = ticker.toUpperCase();
-    }
-
-    const offExchangeData = await makeQuiverRequest<OffExchangeData[]>("/live/offexchange", params);
-
-    if (!offExchangeData) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Failed to retrieve off-exchange data",
-          },
-        ],
-      };
-    }
-
-    if (offExchangeData.length === 0) {
-      const filterText = ticker ? ` for ${ticker}` : "";
-      return {
-        content: [
-          {
-            type: "text",
-            text: `No recent off-exchange data found${filterText}`,
-          },
-        ],
-      };
-    }
-
-    const formattedData = offExchangeData.map(formatOffExchangeData);
-    const filterText = ticker ? ` for ${ticker}` : "";
-    const dataText = `Recent off-exchange trading data${filterText}:\n\n${formattedData.join("\n")}`;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: dataText,
-        },
-      ],
-    };
-  },
-)
-
 // Live ETF Holdings
 interface ETFHolding {
   Ticker: string;
@@ -647,72 +461,645 @@ function formatETFHolding(holding: ETFHolding): string {
   ].join("\n");
 }
 
-server.tool(
-  "get_live_etf_holdings",
-  "Get the most recent ETF holdings data",
-  {
-    ticker: z.string().optional().describe("Stock ticker symbol to filter by"),
-    etf: z.string().optional().describe("ETF ticker symbol to filter by"),
-  },
-  async ({ ticker, etf }) => {
-    wakeUp(); // Wake up when any tool is used
-    
-    const params: Record<string, string> = {};
-    
-    if (ticker) {
-      params.ticker = ticker.toUpperCase();
-    }
-    if (etf) {
-      params.etf = etf.toUpperCase();
-    }
 
-    const etfData = await makeQuiverRequest<ETFHolding[]>("/live/etfholdings", params);
+// ------------------------------------------------------ //
+// H I S T O R I C A L   T O O L S
+// ------------------------------------------------------ //
+
+// Per-ticker history from Quiver's /historical/<dataset>/{ticker} endpoints. Quiver returns
+// the full history, so the date range and pagination are applied here on the cached response.
+interface HistoricalDataset<T> {
+  tool: string;
+  label: string;
+  path: (ticker: string) => string;
+  date: (record: T) => string | undefined;
+  format: (record: T) => string;
+}
+
+const historicalToolSchema = {
+  ticker: z.string().describe("Stock ticker symbol"),
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Earliest date to include (YYYY-MM-DD)"),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().describe("Latest date to include (YYYY-MM-DD)"),
+  page: z.number().int().min(1).optional().describe("Page number, newest records first (default 1)"),
+  page_size: z.number().int().min(1).max(500).optional().describe("Records per page (default 50, max 500)"),
+  format: formatSchema,
+};
+
+interface HistoricalQuery {
+  ticker: string;
+  start_date?: string;
+  end_date?: string;
+  page?: number;
+  page_size?: number;
+  format?: "text" | "json";
+}
+
+interface HistoricalPage<T> {
+  ticker: string;
+  records: T[];
+  total_records: number;
+  page: number;
+  page_size: number;
+  total_pages: number;
+}
+
+// Filter by date range, sort newest first and paginate any historical dataset
+function paginateHistorical<T>(dataset: HistoricalDataset<T>, query: HistoricalQuery, records: T[]): HistoricalPage<T> {
+  const dated = records
+    .map((record) => ({ record, date: (dataset.date(record) || "").slice(0, 10) }))
+    .filter(({ date }) =>
+      (!query.start_date || date >= query.start_date) && (!query.end_date || date <= query.end_date)
+    )
+    .sort((a, b) => b.date.localeCompare(a.date));
+
+  const pageSize = query.page_size || 50;
+  const totalPages = Math.max(1, Math.ceil(dated.length / pageSize));
+  const page = Math.min(query.page || 1, totalPages);
+
+  return {
+    ticker: query.ticker.toUpperCase(),
+    records: dated.slice((page - 1) * pageSize, page * pageSize).map(({ record }) => record),
+    total_records: dated.length,
+    page,
+    page_size: pageSize,
+    total_pages: totalPages,
+  };
+}
+
+function historicalRangeText(query: HistoricalQuery): string {
+  return query.start_date || query.end_date
+    ? ` (${query.start_date || "start"} to ${query.end_date || "latest"})`
+    : "";
+}
+
+// "Historical <label> for <ticker> (range): records 1-50 of 132 (page 1 of 3)"
+function historicalHeader<T>(dataset: HistoricalDataset<T>, query: HistoricalQuery, page: HistoricalPage<T>): string {
+  const first = (page.page - 1) * page.page_size + 1;
+  return `Historical ${dataset.label} for ${page.ticker}${historicalRangeText(query)}: ` +
+    `records ${first}-${first + page.records.length - 1} of ${page.total_records} (page ${page.page} of ${page.total_pages})`;
+}
+
+function formatHistoricalResponse<T>(dataset: HistoricalDataset<T>, query: HistoricalQuery, page: HistoricalPage<T>): string {
+  if (page.total_records === 0) {
+    return `No historical ${dataset.label} records found for ${page.ticker}${historicalRangeText(query)}`;
+  }
+
+  return `${historicalHeader(dataset, query, page)}\n\n` +
+    page.records.map(dataset.format).join("\n");
+}
+
+function registerHistoricalTool<T>(server: McpServer, dataset: HistoricalDataset<T>, description: string) {
+  server.tool(
+    dataset.tool,
+    description,
+    historicalToolSchema,
+    async (query) => {
+      wakeUp(); // Wake up when any tool is used
+
+      const ticker = query.ticker.toUpperCase();
+      const records = await makeQuiverRequest<T[]>(dataset.path(ticker));
+
+      if (!records) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Failed to retrieve historical ${dataset.label} data for ${ticker}`,
+            },
+          ],
+        };
+      }
+
+      const page = paginateHistorical(dataset, query, records);
+
+      if (query.format === "json") {
+        const params = {
+          start_date: query.start_date || "",
+          end_date: query.end_date || "",
+          page: String(page.page),
+          page_size: String(page.page_size),
+        };
+        const summary = page.total_records === 0
+          ? `No historical ${dataset.label} records found for ${ticker}${historicalRangeText(query)}`
+          : historicalHeader(dataset, query, page);
+        return jsonToolResponse(dataset.path(ticker), params, { ...page }, summary);
+      }
 
-    if (!etfData) {
       return {
         content: [
           {
             type: "text",
-            text: "Failed to retrieve ETF holdings data",
+            text: formatHistoricalResponse(dataset, query, page),
           },
         ],
       };
-    }
+    },
+  );
+}
+
+// Every Quiver tool; called for each McpServer (see createMcpServer)
+function registerTools(server: McpServer) {
+  // Sleep Management Tools
+  server.tool(
+    "get_sleep_status",
+    "Get the current sleep status of the QuiverQuant MCP server",
+    {},
+    async () => {
+      wakeUp(); // Wake up when status is requested
+      
+      const status = {
+        isSleeping,
+        lastActivity: new Date(lastActivityTime).toISOString(),
+        timeUntilSleep: SLEEP_DELAY - (Date.now() - lastActivityTime),
+        sleepDelay: SLEEP_DELAY
+      };
 
-    if (etfData.length === 0) {
-      const filterText = ticker ? ` for ${ticker}` : etf ? ` in ${etf}` : "";
       return {
         content: [
           {
             type: "text",
-            text: `No recent ETF holdings found${filterText}`,
+            text: `QuiverQuant MCP Server Status:\n\n` +
+                  `Sleep Status: ${isSleeping ? '🛌 Sleeping' : '🌅 Awake'}\n` +
+                  `Last Activity: ${new Date(lastActivityTime).toLocaleString()}\n` +
+                  `Time Until Sleep: ${Math.max(0, Math.floor((SLEEP_DELAY - (Date.now() - lastActivityTime)) / 1000 / 60))} minutes\n` +
+                  `Sleep Delay: ${SLEEP_DELAY / 1000 / 60} minutes of inactivity`
           },
         ],
       };
-    }
+    },
+  )
 
-    const formattedHoldings = etfData.map(formatETFHolding);
-    const filterText = ticker ? ` for ${ticker}` : etf ? ` in ${etf}` : "";
-    const holdingsText = `Recent ETF holdings data${filterText}:\n\n${formattedHoldings.join("\n")}`;
+  server.tool(
+    "wake_up_server",
+    "Wake up the QuiverQuant MCP server if it's sleeping",
+    {},
+    async () => {
+      const wasSleeping = isSleeping;
+      wakeUp();
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: holdingsText,
-        },
-      ],
-    };
-  },
-)
+      return {
+        content: [
+          {
+            type: "text",
+            text: wasSleeping 
+              ? "🌅 QuiverQuant MCP Server has been woken up and is now active"
+              : "✅ QuiverQuant MCP Server was already awake and sleep timer has been reset"
+          },
+        ],
+      };
+    },
+  )
+
+  // Live Congress Trading
+  server.tool(
+    "get_live_congress_trading",
+    "Get the most recent transactions by members of U.S. Congress",
+    {
+      normalized: z.boolean().optional().describe("Normalize representative/senator names"),
+      representative: z.string().optional().describe("Congressperson's name to filter by"),
+      format: formatSchema,
+    },
+    async ({ normalized, representative, format }) => {
+      wakeUp(); // Wake up when any tool is used
+      
+      const params: Record<string, string> = {};
+      
+      if (normalized !== undefined) {
+        params.normalized = normalized.toString();
+      }
+      if (representative) {
+        params.representative = representative;
+      }
+
+      const congressData = await makeQuiverRequest<CongressTrade[]>("/live/congresstrading", params);
+
+      if (!congressData) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to retrieve Congress trading data",
+            },
+          ],
+        };
+      }
 
+      if (format === "json") {
+        return jsonToolResponse("/live/congresstrading", params, { record_count: congressData.length, records: congressData },
+          summarizeRecords(representative ? `Recent trades by ${representative}` : "Recent Congress trading activity", congressData.map((trade) => trade.TransactionDate || trade.ReportDate)));
+      }
+
+      if (congressData.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: representative 
+                ? `No recent trades found for ${representative}` 
+                : "No recent Congress trades found",
+            },
+          ],
+        };
+      }
+
+      const formattedTrades = congressData.map(formatCongressTrade);
+      const tradesText = representative 
+        ? `Recent trades by ${representative}:\n\n${formattedTrades.join("\n")}`
+        : `Recent Congress trading activity:\n\n${formattedTrades.join("\n")}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: tradesText,
+          },
+        ],
+      };
+    },
+  )
+
+  // Live Insider Trading
+  server.tool(
+    "get_live_insider_trading",
+    "Get the most recent insider trading transactions",
+    {
+      ticker: z.string().optional().describe("Stock ticker symbol to filter by"),
+      insider: z.string().optional().describe("Insider name to filter by"),
+      format: formatSchema,
+    },
+    async ({ ticker, insider, format }) => {
+      wakeUp(); // Wake up when any tool is used
+      
+      const params: Record<string, string> = {};
+      
+      if (ticker) {
+        params.ticker = ticker.toUpperCase();
+      }
+      if (insider) {
+        params.insider = insider;
+      }
+
+      const insiderData = await makeQuiverRequest<InsiderTrade[]>("/live/insiders", params);
+
+      if (!insiderData) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to retrieve insider trading data",
+            },
+          ],
+        };
+      }
+
+      if (format === "json") {
+        return jsonToolResponse("/live/insiders", params, { record_count: insiderData.length, records: insiderData },
+          summarizeRecords(`Recent insider trading activity${ticker ? ` for ${ticker}` : insider ? ` by ${insider}` : ""}`, insiderData.map((trade) => trade.TradeDate)));
+      }
+
+      if (insiderData.length === 0) {
+        const filterText = ticker ? ` for ${ticker}` : insider ? ` by ${insider}` : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No recent insider trades found${filterText}`,
+            },
+          ],
+        };
+      }
+
+      const formattedTrades = insiderData.map(formatInsiderTrade);
+      const filterText = ticker ? ` for ${ticker}` : insider ? ` by ${insider}` : "";
+      const tradesText = `Recent insider trading activity${filterText}:\n\n${formattedTrades.join("\n")}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: tradesText,
+          },
+        ],
+      };
+    },
+  )
+
+  // Live Lobbying
+  server.tool(
+    "get_live_lobbying",
+    "Get the most recent lobbying disclosure records",
+    {
+      client: z.string().optional().describe("Client name to filter by"),
+      registrant: z.string().optional().describe("Registrant/lobbyist name to filter by"),
+      issue: z.string().optional().describe("Issue area to filter by"),
+      format: formatSchema,
+    },
+    async ({ client, registrant, issue, format }) => {
+      wakeUp(); // Wake up when any tool is used
+      
+      const params: Record<string, string> = {};
+      
+      if (client) {
+        params.client = client;
+      }
+      if (registrant) {
+        params.registrant = registrant;
+      }
+      if (issue) {
+        params.issue = issue;
+      }
+
+      const lobbyingData = await makeQuiverRequest<LobbyingRecord[]>("/live/lobbying", params);
+
+      if (!lobbyingData) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to retrieve lobbying data",
+            },
+          ],
+        };
+      }
+
+      if (format === "json") {
+        return jsonToolResponse("/live/lobbying", params, { record_count: lobbyingData.length, records: lobbyingData },
+          summarizeRecords("Recent lobbying disclosure records", lobbyingData.map((record) => record.Date)));
+      }
+
+      if (lobbyingData.length === 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "No recent lobbying records found",
+            },
+          ],
+        };
+      }
+
+      const formattedRecords = lobbyingData.map(formatLobbyingRecord);
+      const recordsText = `Recent lobbying disclosure records:\n\n${formattedRecords.join("\n")}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: recordsText,
+          },
+        ],
+      };
+    },
+  )
+
+  // Live SEC13F Changes
+  server.tool(
+    "get_live_sec13f_changes",
+    "Get the most recent SEC 13F institutional holding changes",
+    {
+      ticker: z.string().optional().describe("Stock ticker symbol to filter by"),
+      institution: z.string().optional().describe("Institution name to filter by"),
+      format: formatSchema,
+    },
+    async ({ ticker, institution, format }) => {
+      wakeUp(); // Wake up when any tool is used
+      
+      const params: Record<string, string> = {};
+      
+      if (ticker) {
+        params.ticker = ticker.toUpperCase();
+      }
+      if (institution) {
+        params.institution = institution;
+      }
+
+      const sec13fData = await makeQuiverRequest<SEC13FChange[]>("/live/thirteenf", params);
+
+      if (!sec13fData) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to retrieve SEC 13F data",
+            },
+          ],
+        };
+      }
+
+      if (format === "json") {
+        return jsonToolResponse("/live/thirteenf", params, { record_count: sec13fData.length, records: sec13fData },
+          summarizeRecords(`Recent SEC 13F institutional holding changes${ticker ? ` for ${ticker}` : institution ? ` by ${institution}` : ""}`, sec13fData.map((change) => change.FilingDate)));
+      }
+
+      if (sec13fData.length === 0) {
+        const filterText = ticker ? ` for ${ticker}` : institution ? ` by ${institution}` : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No recent SEC 13F changes found${filterText}`,
+            },
+          ],
+        };
+      }
+
+      const formattedChanges = sec13fData.map(formatSEC13FChange);
+      const filterText = ticker ? ` for ${ticker}` : institution ? ` by ${institution}` : "";
+      const changesText = `Recent SEC 13F institutional holding changes${filterText}:\n\n${formattedChanges.join("\n")}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: changesText,
+          },
+        ],
+      };
+    },
+  )
+
+  // Live Off-Exchange
+  server.tool(
+    "get_live_off_exchange",
+    "Get the most recent off-exchange trading data",
+    {
+      ticker: z.string().optional().describe("Stock ticker symbol to filter by"),
+      format: formatSchema,
+    },
+    async ({ ticker, format }) => {
+      wakeUp(); // Wake up when any tool is used
+      
+      const params: Record<string, string> = {};
+      
+      if (ticker) {
+        params.ticker = ticker.toUpperCase();
+      }
+
+      const offExchangeData = await makeQuiverRequest<OffExchangeData[]>("/live/offexchange", params);
+
+      if (!offExchangeData) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to retrieve off-exchange data",
+            },
+          ],
+        };
+      }
+
+      if (format === "json") {
+        return jsonToolResponse("/live/offexchange", params, { record_count: offExchangeData.length, records: offExchangeData },
+          summarizeRecords(`Recent off-exchange trading data${ticker ? ` for ${ticker}` : ""}`, offExchangeData.map((data) => data.Date)));
+      }
+
+      if (offExchangeData.length === 0) {
+        const filterText = ticker ? ` for ${ticker}` : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No recent off-exchange data found${filterText}`,
+            },
+          ],
+        };
+      }
+
+      const formattedData = offExchangeData.map(formatOffExchangeData);
+      const filterText = ticker ? ` for ${ticker}` : "";
+      const dataText = `Recent off-exchange trading data${filterText}:\n\n${formattedData.join("\n")}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: dataText,
+          },
+        ],
+      };
+    },
+  )
+
+  // Live ETF Holdings
+  server.tool(
+    "get_live_etf_holdings",
+    "Get the most recent ETF holdings data",
+    {
+      ticker: z.string().optional().describe("Stock ticker symbol to filter by"),
+      etf: z.string().optional().describe("ETF ticker symbol to filter by"),
+      format: formatSchema,
+    },
+    async ({ ticker, etf, format }) => {
+      wakeUp(); // Wake up when any tool is used
+      
+      const params: Record<string, string> = {};
+      
+      if (ticker) {
+        params.ticker = ticker.toUpperCase();
+      }
+      if (etf) {
+        params.etf = etf.toUpperCase();
+      }
+
+      const etfData = await makeQuiverRequest<ETFHolding[]>("/live/etfholdings", params);
+
+      if (!etfData) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: "Failed to retrieve ETF holdings data",
+            },
+          ],
+        };
+      }
+
+      if (format === "json") {
+        return jsonToolResponse("/live/etfholdings", params, { record_count: etfData.length, records: etfData },
+          summarizeRecords(`Recent ETF holdings data${ticker ? ` for ${ticker}` : etf ? ` in ${etf}` : ""}`, etfData.map((holding) => holding.Date)));
+      }
+
+      if (etfData.length === 0) {
+        const filterText = ticker ? ` for ${ticker}` : etf ? ` in ${etf}` : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No recent ETF holdings found${filterText}`,
+            },
+          ],
+        };
+      }
+
+      const formattedHoldings = etfData.map(formatETFHolding);
+      const filterText = ticker ? ` for ${ticker}` : etf ? ` in ${etf}` : "";
+      const holdingsText = `Recent ETF holdings data${filterText}:\n\n${formattedHoldings.join("\n")}`;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: holdingsText,
+          },
+        ],
+      };
+    },
+  )
+
+  // Per-ticker history (see registerHistoricalTool)
+  registerHistoricalTool<CongressTrade>(server, {
+    tool: "get_historical_congress_trading",
+    label: "Congress trading",
+    path: (ticker) => `/historical/congresstrading/${encodeURIComponent(ticker)}`,
+    date: (trade) => trade.TransactionDate || trade.ReportDate,
+    format: formatCongressTrade,
+  }, "Get historical transactions in a stock by members of U.S. Congress, filtered by date range and paginated");
+
+  registerHistoricalTool<InsiderTrade>(server, {
+    tool: "get_historical_insider_trading",
+    label: "insider trading",
+    path: (ticker) => `/historical/insiders/${encodeURIComponent(ticker)}`,
+    date: (trade) => trade.TradeDate,
+    format: formatInsiderTrade,
+  }, "Get historical insider transactions in a stock, filtered by date range and paginated");
+
+  registerHistoricalTool<SEC13FChange>(server, {
+    tool: "get_historical_sec13f_changes",
+    label: "SEC 13F changes",
+    path: (ticker) => `/historical/thirteenf/${encodeURIComponent(ticker)}`,
+    date: (change) => change.FilingDate,
+    format: formatSEC13FChange,
+  }, "Get historical SEC 13F institutional holding changes in a stock, filtered by date range and paginated");
+
+  registerHistoricalTool<OffExchangeData>(server, {
+    tool: "get_historical_off_exchange",
+    label: "off-exchange trading",
+    path: (ticker) => `/historical/offexchange/${encodeURIComponent(ticker)}`,
+    date: (data) => data.Date,
+    format: formatOffExchangeData,
+  }, "Get daily historical off-exchange (dark pool) volume for a stock, filtered by date range and paginated");
+
+  registerHistoricalTool<ETFHolding>(server, {
+    tool: "get_historical_etf_holdings",
+    label: "ETF holdings",
+    path: (ticker) => `/historical/etfholdings/${encodeURIComponent(ticker)}`,
+    date: (holding) => holding.Date,
+    format: formatETFHolding,
+  }, "Get historical ETF positions in a stock, filtered by date range and paginated");
+}
 
 // R U N N I N G
 
 async function main() {
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createMcpServer().connect(transport);
   console.error("Quiver Quant MCP Server running on stdio");
+  if (QUIVER_MODE === 'fixture') {
+    console.error(`📼 Fixture mode - serving recorded Quiver data from ${quiverFixtures.getStats().directory}`);
+  }
+  if (!MCP_AUTH_TOKEN) {
+    console.error("MCP over HTTP disabled - set MCP_AUTH_TOKEN to enable /mcp");
+  }
   
   // Initialize sleep timer
   resetSleepTimer();
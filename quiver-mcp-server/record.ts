@@ -0,0 +1,87 @@
+// Record live Quiver responses as fixtures for QUIVER_MODE=fixture
+//
+// Usage:
+//   QUIVER_API_TOKEN=... deno task record [--tickers AAPL,MSFT] [--out ./fixtures/quiver]
+//
+// Every /live endpoint is recorded unfiltered; --tickers adds the per-ticker /historical
+// endpoints. Filtered requests are answered from these recordings in fixture mode.
+
+import { fetchQuiver } from './api.ts';
+import { QuiverFixtures } from './fixtures.ts';
+
+const LIVE_ENDPOINTS = [
+  '/live/congresstrading',
+  '/live/insiders',
+  '/live/lobbying',
+  '/live/thirteenf',
+  '/live/offexchange',
+  '/live/etfholdings',
+];
+
+const HISTORICAL_DATASETS = ['congresstrading', 'insiders', 'thirteenf', 'offexchange', 'etfholdings'];
+
+const REQUEST_DELAY_MS = 1000;
+
+function parseArgs(args: string[]): Record<string, string | boolean> {
+  const parsed: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) continue;
+
+    const key = arg.slice(2);
+    const next = args[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      parsed[key] = next;
+      i++;
+    } else {
+      parsed[key] = true;
+    }
+  }
+
+  return parsed;
+}
+
+async function recordFixtures() {
+  const args = parseArgs(Deno.args);
+  const token = Deno.env.get('QUIVER_API_TOKEN');
+  if (!token) {
+    console.error('❌ QUIVER_API_TOKEN is required to record fixtures');
+    Deno.exit(1);
+  }
+
+  const directory = typeof args.out === 'string' ? args.out : Deno.env.get('QUIVER_FIXTURE_DIR') || './fixtures/quiver';
+  const tickers = typeof args.tickers === 'string'
+    ? args.tickers.split(',').map((ticker) => ticker.trim().toUpperCase()).filter(Boolean)
+    : [];
+  const fixtures = new QuiverFixtures({ directory, now: () => new Date() });
+
+  const endpoints = [
+    ...LIVE_ENDPOINTS,
+    ...tickers.flatMap((ticker) => HISTORICAL_DATASETS.map((dataset) => `/historical/${dataset}/${encodeURIComponent(ticker)}`)),
+  ];
+
+  let failed = 0;
+  for (const [index, endpoint] of endpoints.entries()) {
+    const data = await fetchQuiver<unknown>(endpoint, undefined, token);
+    if (data === null) {
+      failed++;
+      console.error(`❌ ${endpoint}: request failed, existing fixture kept`);
+    } else {
+      const path = await fixtures.save(endpoint, undefined, data);
+      console.log(`✅ ${endpoint}: ${Array.isArray(data) ? `${data.length} records` : 'saved'} → ${path}`);
+    }
+
+    // Stay under Quiver's rate limits
+    if (index < endpoints.length - 1) {
+      await new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY_MS));
+    }
+  }
+
+  console.log(`\n💾 Recorded ${endpoints.length - failed}/${endpoints.length} endpoints to ${directory}`);
+  if (failed > 0) Deno.exit(1);
+}
+
+if (import.meta.main) {
+  await recordFixtures();
+}